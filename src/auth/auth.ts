@@ -5,9 +5,10 @@
 
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
 import { NotebookLMAuthError } from '../types/common.js';
-import * as fs from 'fs/promises';
-import * as path from 'path';
 import * as readline from 'readline';
+import { resolveLogger, type Logger } from '../utils/logger.js';
+import { Network, type NetworkOptions } from '../utils/network.js';
+import { FileCredentialStore, type CredentialStore } from './credential-store.js';
 
 const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36';
 
@@ -29,72 +30,55 @@ export interface AuthConfig {
   password?: string;
   /** Enable headless mode for browser (default: true) */
   headless?: boolean;
-  /** Enable debug logging */
+  /** Enable debug logging (to stderr, when no logger is given) */
   debug?: boolean;
+  /** Logger for login progress messages */
+  logger?: Logger;
+  /** Proxy, CA and user agent settings for the login browser */
+  network?: NetworkOptions | Network;
+  /** Where saved credentials are loaded from and auto-login saves to (default: FileCredentialStore) */
+  store?: CredentialStore;
+  /** Read credentials and login details from NOTEBOOKLM_* / GOOGLE_* environment variables (default: true)
+   * Profiles turn this off so one account's env vars can't leak into another's client
+   */
+  env?: boolean;
 }
 
 /**
- * Get credentials storage path
- * Saves to project root (current working directory) for easy access
+ * Where `resolveCredentials()` found the credentials
+ * - `config`: Passed in directly
+ * - `env`: NOTEBOOKLM_AUTH_TOKEN / NOTEBOOKLM_COOKIES
+ * - `store`: Loaded from the credential store
+ * - `login`: Auto-login (and saved to the store)
  */
-function getCredentialsPath(): string {
-  // Save in project root (current working directory)
-  // This is where you run the script from (e.g., notebooklm-kit/)
-  const projectRoot = process.cwd();
-  return path.join(projectRoot, 'credentials.json');
-}
+export type CredentialSource = 'config' | 'env' | 'store' | 'login';
 
 /**
- * Ensure credentials directory exists
+ * Save credentials to the store (default: FileCredentialStore)
  */
-async function ensureCredentialsDir(): Promise<void> {
-  const credsPath = getCredentialsPath();
-  const dir = path.dirname(credsPath);
-  await fs.mkdir(dir, { recursive: true });
+export async function saveCredentials(credentials: Credentials, store: CredentialStore = new FileCredentialStore()): Promise<void> {
+  await store.save(credentials);
 }
 
 /**
- * Save credentials to disk
+ * Load credentials from the store (default: FileCredentialStore)
  */
-export async function saveCredentials(credentials: Credentials): Promise<void> {
-  await ensureCredentialsDir();
-  const credsPath = getCredentialsPath();
-  await fs.writeFile(credsPath, JSON.stringify(credentials, null, 2), 'utf-8');
+export async function loadCredentials(store: CredentialStore = new FileCredentialStore()): Promise<Credentials | null> {
+  return store.load();
 }
 
 /**
- * Load credentials from disk
+ * Delete saved credentials from the store (default: FileCredentialStore)
  */
-export async function loadCredentials(): Promise<Credentials | null> {
-  try {
-    const credsPath = getCredentialsPath();
-    const data = await fs.readFile(credsPath, 'utf-8');
-    return JSON.parse(data) as Credentials;
-  } catch (error) {
-    // File doesn't exist or invalid
-    return null;
-  }
-}
-
-/**
- * Delete saved credentials
- */
-export async function deleteCredentials(): Promise<void> {
-  try {
-    const credsPath = getCredentialsPath();
-    await fs.unlink(credsPath);
-  } catch (error) {
-    // File doesn't exist, ignore
-  }
+export async function deleteCredentials(store: CredentialStore = new FileCredentialStore()): Promise<void> {
+  await store.delete();
 }
 
 /**
  * Authenticate with Google using Playwright
  */
-async function authenticateWithGoogle(page: Page, email: string, password: string, debug: boolean = false): Promise<void> {
-  if (debug) {
-    console.log('Authenticating with Google...');
-  }
+async function authenticateWithGoogle(page: Page, email: string, password: string, logger: Logger): Promise<void> {
+  logger.debug('Authenticating with Google');
   
   // Navigate to Google sign-in
   await page.goto('https://accounts.google.com/signin', { waitUntil: 'domcontentloaded', timeout: 60000 });
@@ -115,7 +99,7 @@ async function authenticateWithGoogle(page: Page, email: string, password: strin
   const currentUrl = page.url();
   if (currentUrl.includes('accounts.google.com/signin') || currentUrl.includes('challenge')) {
     // Give additional time for 2FA if still on sign-in page
-    console.log('⚠️  Still on sign-in page - waiting additional 10 seconds for 2FA completion...');
+    logger.info('Still on sign-in page - waiting additional 10 seconds for 2FA completion');
     await page.waitForTimeout(10000); // 10 seconds - reduced from 30 seconds
     
     const finalUrl = page.url();
@@ -127,18 +111,14 @@ async function authenticateWithGoogle(page: Page, email: string, password: strin
     }
   }
   
-  if (debug) {
-    console.log('✓ Google authentication successful');
-  }
+  logger.debug('Google authentication successful');
 }
 
 /**
  * Extract credentials from NotebookLM page
  */
-async function extractCredentials(page: Page, debug: boolean = false): Promise<Credentials> {
-  if (debug) {
-    console.log('Navigating to NotebookLM...');
-  }
+async function extractCredentials(page: Page, logger: Logger): Promise<Credentials> {
+  logger.debug('Navigating to NotebookLM');
   
   // Navigate to NotebookLM
   await page.goto('https://notebooklm.google.com/', { 
@@ -156,9 +136,7 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
   }
   
   // Extract auth token from window.WIZ_global_data.SNlM0e
-  if (debug) {
-    console.log('Extracting auth token...');
-  }
+  logger.debug('Extracting auth token');
   
   let authToken: string | null = null;
   for (let attempt = 0; attempt < 10; attempt++) {
@@ -171,8 +149,8 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
       break;
     }
     
-    if (debug && attempt < 5) {
-      console.log(`Waiting for auth token... (attempt ${attempt + 1}/10)`);
+    if (attempt < 5) {
+      logger.debug('Waiting for auth token', { attempt: attempt + 1, maxAttempts: 10 });
     }
     await page.waitForTimeout(2000);
   }
@@ -192,9 +170,7 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
   
   // Automatically extract cookies from browser context
   // Get cookies that would be sent to notebooklm.google.com
-  if (debug) {
-    console.log('Extracting cookies from browser context...');
-  }
+  logger.debug('Extracting cookies from browser context');
   
   let cookieString: string = '';
   try {
@@ -202,8 +178,8 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
     let documentCookies = '';
     try {
       documentCookies = await page.evaluate(() => document.cookie);
-      if (debug && documentCookies) {
-        console.log(`Document cookies length: ${documentCookies.length}`);
+      if (documentCookies) {
+        logger.debug('Read document cookies', { length: documentCookies.length });
       }
     } catch (e) {
       // Ignore if document.cookie is not accessible
@@ -212,9 +188,7 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
     // Method 2: Get cookies from browser context for notebooklm.google.com
     const contextCookies = await page.context().cookies('https://notebooklm.google.com');
     
-    if (debug) {
-      console.log(`Found ${contextCookies.length} cookies from context for notebooklm.google.com`);
-    }
+    logger.debug('Read browser context cookies', { count: contextCookies.length });
     
     // Build a map of unique cookies (prefer context cookies as they're more complete)
     const cookieMap = new Map<string, string>();
@@ -247,22 +221,17 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
       .map(([name, value]) => `${name}=${value}`)
       .join('; ');
     
-    if (debug) {
-      console.log(`Extracted ${cookieMap.size} unique cookies (${cookieString.length} characters)`);
-    }
+    logger.debug('Extracted cookies', { count: cookieMap.size, length: cookieString.length });
   } catch (error) {
-    if (debug) {
-      console.warn('Failed to extract cookies automatically:', (error as Error).message);
-    }
+    logger.warn('Failed to extract cookies automatically', { error });
   }
   
   // Validate extracted cookies
   if (!cookieString || cookieString.length < 100) {
-    if (debug) {
-      console.warn('⚠️  Automatic cookie extraction failed or cookies too short');
-      console.warn(`   Cookie length: ${cookieString.length} (minimum: 100)`);
-      console.log('Falling back to manual cookie input...');
-    }
+    logger.warn('Automatic cookie extraction failed or cookies too short, falling back to manual input', {
+      length: cookieString.length,
+      minimumLength: 100,
+    });
     
     // Fall back to manual input
     cookieString = await promptForCookies();
@@ -271,9 +240,7 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
       throw new NotebookLMAuthError('Invalid cookies - cookie string too short or empty');
     }
   } else {
-    if (debug) {
-      console.log('✓ Cookies extracted successfully');
-    }
+    logger.debug('Cookies extracted successfully');
   }
   
   return {
@@ -284,20 +251,23 @@ async function extractCredentials(page: Page, debug: boolean = false): Promise<C
 
 /**
  * Prompt for cookies input from terminal
+ * Interactive, so it talks to the terminal directly - on stderr, to keep stdout clean
  */
 function promptForCookies(): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
-    output: process.stdout,
+    output: process.stderr,
   });
 
   return new Promise((resolve) => {
-    console.log('\n📋 Please copy cookies from your browser:');
-    console.log('   1. Open DevTools (F12) in the browser');
-    console.log('   2. Go to Network tab');
-    console.log('   3. Click on any request to notebooklm.google.com');
-    console.log('   4. Copy the "Cookie" header value');
-    console.log('   5. Paste it below\n');
+    process.stderr.write(
+      '\nPlease copy cookies from your browser:\n' +
+      '   1. Open DevTools (F12) in the browser\n' +
+      '   2. Go to Network tab\n' +
+      '   3. Click on any request to notebooklm.google.com\n' +
+      '   4. Copy the "Cookie" header value\n' +
+      '   5. Paste it below\n\n'
+    );
     
     rl.question('Enter cookies: ', (cookies: string) => {
       rl.close();
@@ -311,6 +281,7 @@ function promptForCookies(): Promise<string> {
  */
 export async function autoLogin(config: AuthConfig = {}): Promise<Credentials> {
   const { email, password, headless = true, debug = false } = config;
+  const logger = resolveLogger(config.logger, debug);
   
   if (!email || !password) {
     throw new NotebookLMAuthError(
@@ -323,23 +294,24 @@ export async function autoLogin(config: AuthConfig = {}): Promise<Credentials> {
   
   try {
     // Launch browser
-    browser = await chromium.launch({ headless });
+    const network = Network.from(config.network);
+    browser = await chromium.launch({ headless, ...network?.browserLaunchOptions() });
     
     const context = await browser.newContext({
-      userAgent: USER_AGENT,
+      userAgent: network?.userAgent ?? USER_AGENT,
       viewport: { width: 1280, height: 800 }
     });
     const page = await context.newPage();
     
     // Authenticate with Google
-    await authenticateWithGoogle(page, email, password, debug);
+    await authenticateWithGoogle(page, email, password, logger);
     
     // Extract both auth token and cookies from NotebookLM automatically
     // Falls back to manual input if automatic extraction fails
-    const credentials = await extractCredentials(page, debug);
+    const credentials = await extractCredentials(page, logger);
     
     // Save credentials for future use
-    await saveCredentials(credentials);
+    await saveCredentials(credentials, config.store);
     
     return credentials;
   } catch (error) {
@@ -353,52 +325,69 @@ export async function autoLogin(config: AuthConfig = {}): Promise<Credentials> {
 
 /**
  * Get credentials from various sources
- * Priority: 1. Provided credentials 2. Environment variables 3. Saved credentials 4. Auto-login
+ * Priority: 1. Provided credentials 2. Environment variables 3. Credential store 4. Auto-login
  */
 export async function getCredentials(
   providedCredentials?: Partial<Credentials>,
   config: AuthConfig = {}
 ): Promise<Credentials> {
+  return (await resolveCredentials(providedCredentials, config)).credentials;
+}
+
+/**
+ * Get credentials like getCredentials(), and report where they came from
+ * Callers use the source to decide whether refreshed credentials belong in the store.
+ */
+export async function resolveCredentials(
+  providedCredentials?: Partial<Credentials>,
+  config: AuthConfig = {}
+): Promise<{ credentials: Credentials; source: CredentialSource }> {
   // 1. Use provided credentials if complete
   if (providedCredentials?.authToken && providedCredentials?.cookies) {
-    return providedCredentials as Credentials;
+    return { credentials: providedCredentials as Credentials, source: 'config' };
   }
   
   // 2. Try environment variables
-  const envAuthToken = process.env.NOTEBOOKLM_AUTH_TOKEN;
-  const envCookies = process.env.NOTEBOOKLM_COOKIES;
+  const useEnv = config.env !== false;
+  const envAuthToken = useEnv ? process.env.NOTEBOOKLM_AUTH_TOKEN : undefined;
+  const envCookies = useEnv ? process.env.NOTEBOOKLM_COOKIES : undefined;
   
   if (envAuthToken && envCookies) {
     return {
-      authToken: envAuthToken,
-      cookies: envCookies,
+      credentials: {
+        authToken: envAuthToken,
+        cookies: envCookies,
+      },
+      source: 'env',
     };
   }
   
   // 3. Try saved credentials first (before auto-login)
   // This allows saved credentials to be reused without re-authenticating
   // Skip if FORCE_REAUTH=true is set
+  const store = config.store ?? new FileCredentialStore();
   if (process.env.FORCE_REAUTH !== 'true') {
-  const savedCredentials = await loadCredentials();
+    const savedCredentials = await store.load();
     if (savedCredentials && savedCredentials.authToken && savedCredentials.cookies) {
-    return savedCredentials;
+      return { credentials: savedCredentials, source: 'store' };
     }
   }
   
   // 4. Try auto-login if email/password available (only if no saved credentials)
-  const email = config.email || process.env.GOOGLE_EMAIL;
-  const password = config.password || process.env.GOOGLE_PASSWORD;
+  const email = config.email || (useEnv ? process.env.GOOGLE_EMAIL : undefined);
+  const password = config.password || (useEnv ? process.env.GOOGLE_PASSWORD : undefined);
   
   if (email && password) {
-    return await autoLogin({ ...config, email, password });
+    return { credentials: await autoLogin({ ...config, email, password, store }), source: 'login' };
   }
   
   throw new NotebookLMAuthError(
     'No credentials available. Provide credentials via:\n' +
     '  - Config: { authToken, cookies }\n' +
     '  - Environment: NOTEBOOKLM_AUTH_TOKEN, NOTEBOOKLM_COOKIES\n' +
-    '  - Saved credentials: credentials.json in project root\n' +
-    '  - Auto-login: GOOGLE_EMAIL, GOOGLE_PASSWORD (no 2FA)'
+    '  - Saved credentials: the credential store (default: ~/.config/notebooklm-kit/credentials.json)\n' +
+    '  - Auto-login: GOOGLE_EMAIL, GOOGLE_PASSWORD (no 2FA)\n' +
+    '  - Browser cookie export: importCredentials(\'cookies.txt\') (works with 2FA)'
   );
 }
 
@@ -0,0 +1,408 @@
+/**
+ * Cookie import
+ * Builds credentials from cookies exported by a browser - a Netscape `cookies.txt`, a JSON
+ * export (Chrome/Firefox cookie extensions, Playwright storage state) or a HAR capture - so
+ * accounts with 2FA can sign in without password auto-login
+ */
+
+import * as fs from 'fs/promises';
+import { NotebookLMAuthError, NotebookLMError } from '../types/common.js';
+import { parseBootstrapPage } from '../rpc/bootstrap.js';
+import { FetchTransport, type Transport } from '../utils/transport.js';
+import { Network, type NetworkOptions } from '../utils/network.js';
+import { linkSignals, toAbortError } from '../utils/abort.js';
+import type { Credentials } from './auth.js';
+
+const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36';
+
+/**
+ * Cookie export formats
+ * - `netscape`: `cookies.txt` (curl, wget, yt-dlp, "Get cookies.txt" extensions)
+ * - `json`: Array of cookie objects (Cookie-Editor, EditThisCookie, Cookie Quick Manager)
+ *   or Playwright storage state (`{ cookies: [...] }`)
+ * - `har`: HAR capture from the browser's DevTools Network tab
+ */
+export type CookieExportFormat = 'netscape' | 'json' | 'har';
+
+/**
+ * A cookie read from an export
+ */
+export interface ExportedCookie {
+  name: string;
+  value: string;
+  /** Domain without the leading dot */
+  domain: string;
+  path: string;
+  /** Only sent to `domain` itself, not its subdomains */
+  hostOnly: boolean;
+  secure: boolean;
+  /** Expiry in seconds since the epoch (undefined for session cookies) */
+  expires?: number;
+}
+
+/**
+ * Cookie import options
+ */
+export interface CookieImportOptions {
+  /** Export format (default: detected from the content) */
+  format?: CookieExportFormat;
+  /** Load the NotebookLM app page with the cookies to check they're signed in and read the
+   * current `SNlM0e` auth token (default: true)
+   * With `false`, the token comes from `authToken` or the HAR capture.
+   */
+  verify?: boolean;
+  /** Auth token to use when not verifying (default: the last one found in a HAR capture) */
+  authToken?: string;
+  /** Google account index in the browser session (default: '0') */
+  authUser?: string;
+  /** Base URL of the NotebookLM service (default: 'https://notebooklm.google.com') */
+  baseUrl?: string;
+  /** Transport for the verification request (default: FetchTransport) */
+  transport?: Transport;
+  /** Proxy, CA and user agent settings for the verification request */
+  network?: NetworkOptions | Network;
+  /** Fail the verification request after this many ms */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+/** Session cookies Google needs to treat a request as signed in (SAPISID also signs refresh requests) */
+const REQUIRED_COOKIES = ['SID', 'HSID', 'SSID', 'APISID', 'SAPISID'];
+
+/** Cookie value our own wire captures put in place of secrets */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Build credentials from a cookie export file
+ *
+ * Keeps the cookies a browser would send to NotebookLM (`.google.com` and
+ * `notebooklm.google.com`), drops expired ones, checks the Google session cookies are there,
+ * then loads the app page with them to read the auth token.
+ *
+ * @param filePath - Path of a `cookies.txt`, JSON export or `.har` file
+ * @throws NotebookLMAuthError if cookies are missing, expired or not signed in
+ *
+ * @example
+ * ```typescript
+ * // Export cookies for notebooklm.google.com from a signed-in browser, then:
+ * const credentials = await importCredentials('./cookies.txt');
+ * await saveCredentials(credentials);
+ *
+ * const sdk = new NotebookLMClient(credentials);
+ * await sdk.connect();
+ * ```
+ */
+export async function importCredentials(filePath: string, options: CookieImportOptions = {}): Promise<Credentials> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const format = options.format ?? (/\.har$/i.test(filePath) ? 'har' : undefined);
+  return credentialsFromCookieExport(content, { ...options, format });
+}
+
+/**
+ * Build credentials from the content of a cookie export
+ * Same as importCredentials(), for exports that aren't in a file.
+ */
+export async function credentialsFromCookieExport(content: string, options: CookieImportOptions = {}): Promise<Credentials> {
+  const format = options.format ?? detectCookieFormat(content);
+  const { cookies, authToken: recordedToken } = format === 'har'
+    ? readHar(content)
+    : { cookies: parseCookieExport(content, format), authToken: undefined };
+
+  const header = cookieHeader(cookies);
+  validateCookieHeader(header, format);
+
+  if (options.verify === false) {
+    const authToken = options.authToken ?? recordedToken;
+    if (!authToken) {
+      throw new NotebookLMAuthError('No auth token in the cookie export. Pass authToken or leave verify on to read it from NotebookLM.');
+    }
+    return { authToken, cookies: header };
+  }
+
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '') || 'https://notebooklm.google.com';
+  const authToken = await fetchAuthToken(header, baseUrl, options);
+  return { authToken, cookies: header };
+}
+
+/**
+ * Guess the format of a cookie export from its content
+ */
+export function detectCookieFormat(content: string): CookieExportFormat {
+  const trimmed = content.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return 'netscape';
+  }
+  try {
+    return JSON.parse(trimmed)?.log?.entries ? 'har' : 'json';
+  } catch {
+    throw new NotebookLMError('Cookie export looks like JSON but could not be parsed');
+  }
+}
+
+/**
+ * Read the cookies of an export (all domains, expired ones included)
+ *
+ * @param format - Export format (default: detected from the content)
+ */
+export function parseCookieExport(content: string, format: CookieExportFormat = detectCookieFormat(content)): ExportedCookie[] {
+  switch (format) {
+    case 'netscape':
+      return parseNetscape(content);
+    case 'json':
+      return parseJson(content);
+    case 'har':
+      return readHar(content).cookies;
+  }
+}
+
+/**
+ * Cookie header a browser would send to a URL
+ * Skips cookies for other domains or paths, secure cookies on http and expired cookies.
+ * When a name appears more than once, the most specific domain and path wins.
+ *
+ * @param url - Request URL (default: 'https://notebooklm.google.com/')
+ */
+export function cookieHeader(cookies: ExportedCookie[], url: string = 'https://notebooklm.google.com/'): string {
+  const target = new URL(url);
+  const now = Date.now() / 1000;
+
+  const byName = new Map<string, ExportedCookie>();
+  for (const cookie of cookies) {
+    if (!sendsTo(cookie, target) || (cookie.expires !== undefined && cookie.expires <= now)) {
+      continue;
+    }
+    const current = byName.get(cookie.name);
+    if (!current
+      || cookie.domain.length > current.domain.length
+      || (cookie.domain.length === current.domain.length && cookie.path.length >= current.path.length)) {
+      byName.set(cookie.name, cookie);
+    }
+  }
+  return [...byName.values()].map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+}
+
+/**
+ * Whether a browser sends the cookie to the URL (ignoring expiry)
+ */
+function sendsTo(cookie: ExportedCookie, target: URL): boolean {
+  const host = target.hostname.toLowerCase();
+  const domainMatches = cookie.hostOnly
+    ? host === cookie.domain
+    : host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+  const pathMatches = target.pathname.startsWith(cookie.path) || cookie.path === `${target.pathname}/`;
+  return domainMatches && pathMatches && (!cookie.secure || target.protocol === 'https:');
+}
+
+function validateCookieHeader(header: string, format: CookieExportFormat): void {
+  const names = new Map(header.split('; ').filter(Boolean).map(pair => {
+    const index = pair.indexOf('=');
+    return [pair.slice(0, index), pair.slice(index + 1)] as const;
+  }));
+  if ([...names.values()].includes(REDACTED)) {
+    throw new NotebookLMAuthError('The cookie export has redacted values (SDK wire captures can\'t be imported). Export cookies from the browser instead.');
+  }
+  const missing = REQUIRED_COOKIES.filter(name => !names.get(name));
+  if (missing.length === REQUIRED_COOKIES.length) {
+    throw new NotebookLMAuthError(
+      `No signed-in Google cookies for notebooklm.google.com in the ${format} export ` +
+      '(export from a browser signed in to NotebookLM, for the google.com domain)'
+    );
+  }
+  if (missing.length > 0) {
+    throw new NotebookLMAuthError(`Cookie export is missing ${missing.join(', ')} (expired, or exported for the wrong domain)`);
+  }
+}
+
+async function fetchAuthToken(cookies: string, baseUrl: string, options: CookieImportOptions): Promise<string> {
+  const network = Network.from(options.network);
+  const transport = options.transport ?? new FetchTransport(network);
+  const linked = linkSignals([options.signal], options.timeout);
+  let html: string;
+  try {
+    const response = await transport.send({
+      kind: 'page',
+      url: `${baseUrl}/?authuser=${encodeURIComponent(options.authUser || '0')}`,
+      method: 'GET',
+      headers: {
+        'accept': 'text/html,application/xhtml+xml',
+        'accept-language': 'en-US,en;q=0.9',
+        'user-agent': network?.userAgent ?? USER_AGENT,
+        'cookie': cookies,
+      },
+      signal: linked.signal,
+    });
+    if (!response.ok) {
+      throw new NotebookLMError(`Failed to load NotebookLM page: ${response.status} ${response.statusText}`, response.status);
+    }
+    html = await response.text();
+  } catch (error) {
+    if (linked.signal?.aborted) {
+      throw toAbortError(linked.signal);
+    }
+    throw error;
+  } finally {
+    linked.dispose();
+  }
+
+  const { authToken } = parseBootstrapPage(html);
+  if (!authToken) {
+    throw new NotebookLMAuthError('NotebookLM did not accept the imported cookies (signed out or expired). Export them again from a signed-in browser.');
+  }
+  return authToken;
+}
+
+function parseNetscape(content: string): ExportedCookie[] {
+  const cookies: ExportedCookie[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    // curl marks HttpOnly cookies with a prefix instead of a column
+    const line = rawLine.startsWith('#HttpOnly_') ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) {
+      continue;
+    }
+    const fields = line.split('\t');
+    if (fields.length < 6) {
+      continue;
+    }
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+    const expiry = Number(expires);
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      domain: normalizeDomain(domain),
+      path: path || '/',
+      hostOnly: includeSubdomains.toUpperCase() !== 'TRUE',
+      secure: secure.toUpperCase() === 'TRUE',
+      expires: expiry > 0 ? expiry : undefined,
+    });
+  }
+  return cookies;
+}
+
+function parseJson(content: string): ExportedCookie[] {
+  const parsed = JSON.parse(content);
+  const items: any[] = Array.isArray(parsed) ? parsed : parsed?.cookies;
+  if (!Array.isArray(items)) {
+    throw new NotebookLMError('JSON cookie export must be an array of cookies or { cookies: [...] }');
+  }
+
+  return items.flatMap(item => {
+    // Cookie Quick Manager (Firefox) uses "<Field> raw" keys and a URL as host
+    const name = item.name ?? item['Name raw'];
+    const rawDomain = String(item.domain ?? item.host ?? item['Host raw'] ?? '').replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    if (typeof name !== 'string' || !rawDomain) {
+      return [];
+    }
+    const session = item.session === true || item['Session raw'] === 'true';
+    return [{
+      name,
+      value: String(item.value ?? item['Content raw'] ?? ''),
+      domain: normalizeDomain(rawDomain),
+      path: item.path ?? item['Path raw'] ?? '/',
+      hostOnly: typeof item.hostOnly === 'boolean' ? item.hostOnly : !rawDomain.startsWith('.'),
+      secure: item.secure === true || item['Send for raw'] === 'true',
+      expires: session ? undefined : toSeconds(item.expirationDate ?? item.expires ?? item.expiry ?? item['Expires raw']),
+    }];
+  });
+}
+
+/**
+ * Cookies sent to and set by Google hosts in a HAR capture, replayed in order so later
+ * values (rotated cookies) win, plus the last auth token seen
+ */
+function readHar(content: string): { cookies: ExportedCookie[]; authToken?: string } {
+  const entries: any[] = JSON.parse(content)?.log?.entries ?? [];
+  const jar = new Map<string, ExportedCookie>();
+  let authToken: string | undefined;
+
+  for (const entry of entries) {
+    let url: URL;
+    try {
+      url = new URL(entry.request?.url);
+    } catch {
+      continue;
+    }
+    const host = url.hostname.toLowerCase();
+    if (host !== 'google.com' && !host.endsWith('.google.com')) {
+      continue;
+    }
+
+    // Cookies the browser sent: scoped to the request host, since HAR doesn't record their domain
+    const sent: Array<{ name: string; value: string }> = entry.request.cookies?.length
+      ? entry.request.cookies
+      : parseCookiePairs(headerValue(entry.request.headers, 'cookie'));
+    for (const { name, value } of sent) {
+      const existing = [...jar.values()].find(cookie => cookie.name === name && sendsTo(cookie, url));
+      const cookie: ExportedCookie = existing
+        ? { ...existing, value }
+        : { name, value, domain: host, path: '/', hostOnly: true, secure: url.protocol === 'https:' };
+      jar.set(jarKey(cookie), cookie);
+    }
+
+    for (const cookie of entry.response?.cookies ?? []) {
+      const set: ExportedCookie = {
+        name: cookie.name,
+        value: cookie.value ?? '',
+        domain: cookie.domain ? normalizeDomain(cookie.domain) : host,
+        path: cookie.path || '/',
+        hostOnly: !cookie.domain,
+        secure: cookie.secure === true,
+        expires: toSeconds(cookie.expires),
+      };
+      // Replaces the copies recorded from requests to hosts it covers
+      for (const [key, recorded] of jar) {
+        if (recorded.name === set.name && (recorded.domain === set.domain || recorded.domain.endsWith(`.${set.domain}`))) {
+          jar.delete(key);
+        }
+      }
+      jar.set(jarKey(set), set);
+    }
+
+    // Auth token from the app page or the `at` field of batchexecute requests
+    const page = entry.response?.content?.text;
+    const pageToken = typeof page === 'string' && page.includes('WIZ_global_data') ? parseBootstrapPage(page).authToken : undefined;
+    const formToken = typeof entry.request.postData?.text === 'string'
+      ? new URLSearchParams(entry.request.postData.text).get('at') ?? undefined
+      : undefined;
+    authToken = [pageToken, formToken].find(token => token && token !== REDACTED) ?? authToken;
+  }
+
+  return { cookies: [...jar.values()], authToken };
+}
+
+function jarKey(cookie: ExportedCookie): string {
+  return `${cookie.name};${cookie.domain};${cookie.path}`;
+}
+
+function headerValue(headers: Array<{ name: string; value: string }> | undefined, name: string): string {
+  return (headers ?? [])
+    .filter(header => header.name.toLowerCase() === name)
+    .map(header => header.value)
+    .join('; ');
+}
+
+function parseCookiePairs(header: string): Array<{ name: string; value: string }> {
+  return header.split(';').flatMap(pair => {
+    const index = pair.indexOf('=');
+    return index > 0 ? [{ name: pair.slice(0, index).trim(), value: pair.slice(index + 1).trim() }] : [];
+  });
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().replace(/^\./, '').toLowerCase();
+}
+
+/**
+ * Expiry as seconds since the epoch - exports use seconds, milliseconds or ISO dates,
+ * and 0 / -1 for session cookies
+ */
+function toSeconds(value: unknown): number | undefined {
+  if (typeof value === 'string' && value && isNaN(Number(value))) {
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time / 1000;
+  }
+  const number = Number(value);
+  if (!value || !isFinite(number) || number <= 0) {
+    return undefined;
+  }
+  return number > 1e11 ? number / 1000 : number;
+}
@@ -0,0 +1,316 @@
+/**
+ * Credential stores
+ * Where saved credentials live: a file in the user's config directory, an encrypted file,
+ * environment variables only, or a custom backend (keychain, secret manager, ...)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { NotebookLMAuthError } from '../types/common.js';
+import type { Credentials } from './auth.js';
+
+/**
+ * Backend for saved credentials
+ *
+ * `getCredentials()` loads from the store when no credentials were passed, auto-login saves
+ * into it, and the auto-refresh manager writes refreshed cookies back.
+ *
+ * @example
+ * ```typescript
+ * // Custom backend
+ * const keychainStore: CredentialStore = {
+ *   load: async () => JSON.parse(await keychain.get('notebooklm') ?? 'null'),
+ *   save: (credentials) => keychain.set('notebooklm', JSON.stringify(credentials)),
+ *   delete: () => keychain.delete('notebooklm'),
+ * };
+ *
+ * const sdk = new NotebookLMClient({ credentialStore: keychainStore });
+ * ```
+ */
+export interface CredentialStore {
+  /** Saved credentials, or null if there are none */
+  load(): Promise<Credentials | null>;
+  save(credentials: Credentials): Promise<void>;
+  delete(): Promise<void>;
+}
+
+/**
+ * Encrypted file store options
+ * Either a passphrase or a key is required (from here or the environment).
+ */
+export interface EncryptedFileCredentialStoreOptions {
+  /** File path (default: `credentials.enc.json` in the config directory, see defaultCredentialsPath()) */
+  path?: string;
+  /** Passphrase the key is derived from with scrypt (default: NOTEBOOKLM_CREDENTIALS_PASSPHRASE) */
+  passphrase?: string;
+  /** 32-byte AES key, raw or as base64/hex (default: NOTEBOOKLM_CREDENTIALS_KEY) */
+  key?: Buffer | string;
+}
+
+/**
+ * Env-only store options
+ */
+export interface EnvCredentialStoreOptions {
+  /** Variable holding the auth token (default: 'NOTEBOOKLM_AUTH_TOKEN') */
+  authTokenVar?: string;
+  /** Variable holding the cookies (default: 'NOTEBOOKLM_COOKIES') */
+  cookiesVar?: string;
+}
+
+/** Contents of an encrypted credentials file */
+interface EncryptedCredentialsFile {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  /** Absent when a raw key was used */
+  kdf?: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+/**
+ * Path of a file in the SDK's config directory
+ * `$XDG_CONFIG_HOME/notebooklm-kit` (default `~/.config/notebooklm-kit`), or
+ * `%APPDATA%\notebooklm-kit` on Windows.
+ */
+export function defaultCredentialsPath(fileName: string = 'credentials.json'): string {
+  const configHome = process.env.XDG_CONFIG_HOME
+    || (process.platform === 'win32' ? process.env.APPDATA : undefined)
+    || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'notebooklm-kit', fileName);
+}
+
+/**
+ * Plaintext JSON file, readable by the current user only (default store)
+ *
+ * Without a path, the file lives in the config directory (see defaultCredentialsPath()), so
+ * it's shared by every working directory and stays out of project folders. Credentials that
+ * earlier versions saved to `./credentials.json` are still loaded when that file is missing;
+ * the next save() moves them to the config directory, and delete() removes both copies.
+ */
+export class FileCredentialStore implements CredentialStore {
+  private filePath: string;
+  private legacyPath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath ?? defaultCredentialsPath();
+    this.legacyPath = filePath ? undefined : path.join(process.cwd(), 'credentials.json');
+  }
+
+  /**
+   * Path of the credentials file
+   */
+  get path(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<Credentials | null> {
+    return await readJson<Credentials>(this.filePath)
+      ?? (this.legacyPath ? await readJson<Credentials>(this.legacyPath) : null);
+  }
+
+  async save(credentials: Credentials): Promise<void> {
+    await writePrivate(this.filePath, JSON.stringify(credentials, null, 2));
+    await this.removeLegacy();
+  }
+
+  async delete(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+    await this.removeLegacy();
+  }
+
+  /**
+   * Remove the legacy `./credentials.json`, but only when it holds SDK credentials -
+   * projects often keep unrelated files (e.g. Google service account keys) under that name
+   */
+  private async removeLegacy(): Promise<void> {
+    if (!this.legacyPath) return;
+    const legacy = await readJson<Partial<Credentials>>(this.legacyPath);
+    if (typeof legacy?.authToken === 'string' && typeof legacy.cookies === 'string') {
+      await fs.rm(this.legacyPath, { force: true });
+    }
+  }
+}
+
+/**
+ * AES-256-GCM encrypted file
+ *
+ * Unlocked by a passphrase (scrypt, fresh salt on every save) or a 32-byte key, given in the
+ * options or through NOTEBOOKLM_CREDENTIALS_PASSPHRASE / NOTEBOOKLM_CREDENTIALS_KEY.
+ * Loading with the wrong passphrase or key throws instead of returning null, so a typo
+ * doesn't trigger a new login that overwrites the file.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({
+ *   credentialStore: new EncryptedFileCredentialStore({ passphrase: process.env.VAULT_PASSPHRASE }),
+ * });
+ * ```
+ */
+export class EncryptedFileCredentialStore implements CredentialStore {
+  private filePath: string;
+  private passphrase?: string;
+  private key?: Buffer;
+
+  constructor(options: EncryptedFileCredentialStoreOptions = {}) {
+    this.filePath = options.path ?? defaultCredentialsPath('credentials.enc.json');
+    const key = options.key ?? process.env.NOTEBOOKLM_CREDENTIALS_KEY;
+    this.passphrase = options.passphrase ?? process.env.NOTEBOOKLM_CREDENTIALS_PASSPHRASE;
+    this.key = key === undefined || key === '' ? undefined : parseKey(key);
+    if (!this.key && !this.passphrase) {
+      throw new NotebookLMAuthError(
+        'EncryptedFileCredentialStore needs a passphrase or key. ' +
+        'Pass one in the options or set NOTEBOOKLM_CREDENTIALS_PASSPHRASE / NOTEBOOKLM_CREDENTIALS_KEY.'
+      );
+    }
+  }
+
+  /**
+   * Path of the encrypted file
+   */
+  get path(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<Credentials | null> {
+    const file = await readJson<EncryptedCredentialsFile>(this.filePath);
+    if (!file) {
+      return null;
+    }
+    if (file.version !== 1 || file.cipher !== 'aes-256-gcm') {
+      throw new NotebookLMAuthError(`Unsupported credentials file format in ${this.filePath}`);
+    }
+
+    const key = file.kdf
+      ? await this.deriveKey(Buffer.from(file.kdf.salt, 'base64'), file.kdf)
+      : this.rawKey();
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plain.toString('utf-8')) as Credentials;
+    } catch {
+      throw new NotebookLMAuthError(
+        `Could not decrypt ${this.filePath} - wrong passphrase or key, or the file was modified`
+      );
+    }
+  }
+
+  async save(credentials: Credentials): Promise<void> {
+    const salt = randomBytes(16);
+    const kdf = this.key
+      ? undefined
+      : { name: 'scrypt' as const, salt: salt.toString('base64'), ...SCRYPT_PARAMS };
+    const key = kdf ? await this.deriveKey(salt, kdf) : this.rawKey();
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+
+    const file: EncryptedCredentialsFile = {
+      version: 1,
+      cipher: 'aes-256-gcm',
+      ...(kdf ? { kdf } : {}),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    await writePrivate(this.filePath, JSON.stringify(file, null, 2));
+  }
+
+  async delete(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  private rawKey(): Buffer {
+    if (!this.key) {
+      throw new NotebookLMAuthError(`${this.filePath} was encrypted with a key, but only a passphrase was given`);
+    }
+    return this.key;
+  }
+
+  private deriveKey(salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+    if (!this.passphrase) {
+      throw new NotebookLMAuthError(`${this.filePath} was encrypted with a passphrase, but only a key was given`);
+    }
+    const passphrase = this.passphrase;
+    return new Promise((resolve, reject) => {
+      scrypt(passphrase, salt, 32, { N: params.N, r: params.r, p: params.p }, (error, key) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(key);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Environment variables only - nothing is written to disk
+ * Saving updates the variables of the running process, so clients created later in the
+ * same process pick up refreshed cookies.
+ */
+export class EnvCredentialStore implements CredentialStore {
+  private authTokenVar: string;
+  private cookiesVar: string;
+
+  constructor(options: EnvCredentialStoreOptions = {}) {
+    this.authTokenVar = options.authTokenVar ?? 'NOTEBOOKLM_AUTH_TOKEN';
+    this.cookiesVar = options.cookiesVar ?? 'NOTEBOOKLM_COOKIES';
+  }
+
+  async load(): Promise<Credentials | null> {
+    const authToken = process.env[this.authTokenVar];
+    const cookies = process.env[this.cookiesVar];
+    return authToken && cookies ? { authToken, cookies } : null;
+  }
+
+  async save(credentials: Credentials): Promise<void> {
+    process.env[this.authTokenVar] = credentials.authToken;
+    process.env[this.cookiesVar] = credentials.cookies;
+  }
+
+  async delete(): Promise<void> {
+    delete process.env[this.authTokenVar];
+    delete process.env[this.cookiesVar];
+  }
+}
+
+function parseKey(key: Buffer | string): Buffer {
+  const bytes = Buffer.isBuffer(key)
+    ? key
+    : /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, 'hex') : Buffer.from(key, 'base64');
+  if (bytes.length !== 32) {
+    throw new NotebookLMAuthError('Credentials key must be 32 bytes (raw, 64 hex characters or base64)');
+  }
+  return bytes;
+}
+
+/**
+ * Read a JSON file, or null if it doesn't exist
+ */
+export async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error: any) {
+    // Missing or unreadable files count as no saved credentials
+    if (error?.code === 'ENOENT' || error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a file only the current user can read (directory 0700, file 0600)
+ */
+export async function writePrivate(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const temp = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temp, content, { encoding: 'utf-8', mode: 0o600 });
+  await fs.rename(temp, filePath);
+}
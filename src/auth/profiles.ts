@@ -0,0 +1,178 @@
+/**
+ * Named profiles
+ * One entry per Google account: its credentials plus the authUser, plan and default
+ * language to use with them, so one machine can drive several accounts
+ */
+
+import * as path from 'path';
+import { NotebookLMError, type NotebookLMConfig } from '../types/common.js';
+import type { Credentials } from './auth.js';
+import {
+  FileCredentialStore,
+  defaultCredentialsPath,
+  readJson,
+  writePrivate,
+  type CredentialStore,
+} from './credential-store.js';
+
+/**
+ * Per-account settings stored in a profile
+ */
+export interface ProfileSettings {
+  /** Google account index in the browser session the cookies came from (see NotebookLMConfig.authUser) */
+  authUser?: string;
+  /** NotebookLM plan for quota limits */
+  plan?: NotebookLMConfig['plan'];
+  /** Default output language for notebooks without one */
+  language?: string;
+}
+
+/**
+ * A saved profile
+ */
+export interface Profile extends ProfileSettings {
+  name: string;
+}
+
+/**
+ * Options for adding a profile
+ */
+export interface AddProfileOptions extends ProfileSettings {
+  /** Credentials to save in the profile's credential store
+   * Leave out to log in on first connect (`fromProfile(name, { auth: {...} })`) instead
+   */
+  credentials?: Credentials;
+}
+
+/**
+ * Profile manager options
+ */
+export interface ProfileManagerOptions {
+  /** Profile index file (default: `profiles.json` in the config directory, see defaultCredentialsPath()) */
+  path?: string;
+  /** Credential store of a profile
+   * Default: FileCredentialStore at `profiles/<name>.json` next to the index file
+   */
+  credentialStore?: (name: string) => CredentialStore;
+}
+
+/** Contents of the profile index file */
+interface ProfilesFile {
+  profiles: Record<string, ProfileSettings>;
+}
+
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Named profiles in the config directory
+ *
+ * Settings live in one index file; each profile's credentials live in their own credential
+ * store, so a profile can use an encrypted or custom backend.
+ *
+ * @example
+ * ```typescript
+ * const profiles = new ProfileManager();
+ *
+ * await profiles.add('personal', { authUser: '0', plan: 'standard' });
+ * await profiles.add('work', {
+ *   authUser: '1',
+ *   plan: 'pro',
+ *   language: 'de',
+ *   credentials: { authToken: '...', cookies: '...' },
+ * });
+ *
+ * console.log((await profiles.list()).map(p => p.name)); // ['personal', 'work']
+ *
+ * const sdk = await NotebookLMClient.fromProfile('work');
+ * await sdk.connect();
+ * ```
+ */
+export class ProfileManager {
+  private filePath: string;
+  private storeFactory: (name: string) => CredentialStore;
+
+  constructor(options: ProfileManagerOptions = {}) {
+    this.filePath = options.path ?? defaultCredentialsPath('profiles.json');
+    this.storeFactory = options.credentialStore
+      ?? (name => new FileCredentialStore(path.join(path.dirname(this.filePath), 'profiles', `${name}.json`)));
+  }
+
+  /**
+   * Path of the profile index file
+   */
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * All profiles, sorted by name
+   */
+  async list(): Promise<Profile[]> {
+    const { profiles } = await this.read();
+    return Object.keys(profiles).sort().map(name => ({ name, ...profiles[name] }));
+  }
+
+  /**
+   * Get a profile
+   *
+   * @returns The profile, or null if there is none with that name
+   */
+  async get(name: string): Promise<Profile | null> {
+    const { profiles } = await this.read();
+    return Object.prototype.hasOwnProperty.call(profiles, name) ? { name, ...profiles[name] } : null;
+  }
+
+  /**
+   * Add a profile, or replace the settings of an existing one
+   * Saved credentials of an existing profile are kept unless new ones are passed.
+   *
+   * @param name - Letters, digits, '.', '_' and '-'
+   */
+  async add(name: string, options: AddProfileOptions = {}): Promise<Profile> {
+    validateName(name);
+    const { credentials, ...settings } = options;
+    const file = await this.read();
+    file.profiles[name] = settings;
+    if (credentials) {
+      await this.credentialStore(name).save(credentials);
+    }
+    await writePrivate(this.filePath, JSON.stringify(file, null, 2));
+    return { name, ...settings };
+  }
+
+  /**
+   * Remove a profile and delete its saved credentials
+   *
+   * @returns Whether the profile existed
+   */
+  async remove(name: string): Promise<boolean> {
+    const file = await this.read();
+    if (!Object.prototype.hasOwnProperty.call(file.profiles, name)) {
+      return false;
+    }
+    await this.credentialStore(name).delete();
+    delete file.profiles[name];
+    await writePrivate(this.filePath, JSON.stringify(file, null, 2));
+    return true;
+  }
+
+  /**
+   * Credential store holding a profile's credentials
+   */
+  credentialStore(name: string): CredentialStore {
+    validateName(name);
+    return this.storeFactory(name);
+  }
+
+  private async read(): Promise<ProfilesFile> {
+    const file = await readJson<ProfilesFile>(this.filePath);
+    return { profiles: { ...file?.profiles } };
+  }
+}
+
+function validateName(name: string): void {
+  // Names become file names, so no separators or '..'
+  if (!PROFILE_NAME.test(name)) {
+    throw new NotebookLMError(`Invalid profile name "${name}" (use letters, digits, '.', '_' and '-')`);
+  }
+}
@@ -7,6 +7,9 @@
 import { createHash } from 'crypto';
 import { NotebookLMAuthError } from '../types/common.js';
 import type { Credentials } from './auth.js';
+import type { CredentialStore } from './credential-store.js';
+import { resolveLogger, type Logger } from '../utils/logger.js';
+import { networkFetch, type Network } from '../utils/network.js';
 
 /**
  * Google Signaler API configuration
@@ -26,17 +29,21 @@ const SIGNALER_API_KEY = process.env.NOTEBOOKLM_SIGNALER_API_KEY || 'AIzaSyC_pzr
  */
 export class RefreshClient {
   private sapisid: string;
-  private debug: boolean;
+  private logger: Logger;
   private cookies: string;
   private onCredentialsUpdate?: (cookies: string) => void;
   
+  /**
+   * @param logger - Logger, or `true` to log debug messages to stderr
+   */
   constructor(
     cookies: string,
-    debug: boolean = false,
-    onCredentialsUpdate?: (cookies: string) => void
+    logger: Logger | boolean = false,
+    onCredentialsUpdate?: (cookies: string) => void,
+    private network?: Network
   ) {
     this.cookies = cookies;
-    this.debug = debug;
+    this.logger = typeof logger === 'boolean' ? resolveLogger(undefined, logger) : logger;
     this.onCredentialsUpdate = onCredentialsUpdate;
     this.sapisid = this.extractCookieValue('SAPISID');
     
@@ -89,15 +96,14 @@ export class RefreshClient {
     // Request body - verified from actual NotebookLM API calls
     const requestBody = JSON.stringify(['8hcNI0LV']);
     
-    if (this.debug) {
-      console.log('=== Credential Refresh Request ===');
-      console.log('URL:', url.toString());
-      console.log('Authorization:', `SAPISIDHASH ${timestamp}_${authHash.substring(0, 10)}...`);
-      console.log('Request Body:', requestBody);
-    }
+    this.logger.debug('Credential refresh request', {
+      url: url.toString(),
+      authorization: `SAPISIDHASH ${timestamp}_${authHash.substring(0, 10)}...`,
+      body: requestBody,
+    });
     
     // Make request
-    const response = await fetch(url.toString(), {
+    const response = await networkFetch(this.network, url.toString(), {
       method: 'POST',
       headers: {
         'Accept': '*/*',
@@ -112,32 +118,30 @@ export class RefreshClient {
       body: requestBody,
     });
     
-    if (this.debug) {
-      console.log('=== Credential Refresh Response ===');
-      console.log('Status:', response.status, response.statusText);
-    }
+    this.logger.debug('Credential refresh response', {
+      status: response.status,
+      statusText: response.statusText,
+    });
     
     if (!response.ok) {
       const body = await response.text();
       throw new NotebookLMAuthError(`Refresh failed with status ${response.status}: ${body}`);
     }
     
-    // Check for updated cookies in response headers (Set-Cookie)
-    // Note: Google may update cookies server-side without returning them
-    // We update our cookies if Set-Cookie headers are present
-    const setCookieHeaders = response.headers.get('set-cookie');
-    if (setCookieHeaders && this.onCredentialsUpdate) {
-      // Cookies may have been updated server-side
-      // The refresh API typically doesn't return new cookies, but we notify
-      // the callback in case credentials need to be refreshed from the browser
-      if (this.debug) {
-        console.log('Cookie update detected in response');
-      }
+    // Google may rotate cookies in the refresh response - keep the cookie string in sync
+    const setCookies = typeof response.headers.getSetCookie === 'function'
+      ? response.headers.getSetCookie()
+      : (response.headers.get('set-cookie') ?? '').split(/,(?=\s*[^;,=\s]+=)/).filter(Boolean);
+    const updatedCookies = mergeSetCookies(this.cookies, setCookies);
+    if (updatedCookies !== this.cookies) {
+      this.logger.debug('Cookie update detected in refresh response', {
+        cookies: setCookies.map(cookie => cookie.split('=')[0].trim()),
+      });
+      this.updateCookies(updatedCookies);
+      this.onCredentialsUpdate?.(updatedCookies);
     }
     
-    if (this.debug) {
-      console.log('Credentials refreshed successfully');
-    }
+    this.logger.debug('Credentials refreshed successfully');
   }
   
   /**
@@ -168,6 +172,41 @@ export class RefreshClient {
   }
 }
 
+/**
+ * Apply `Set-Cookie` headers to a cookie string
+ * Cookies set to expire are removed; new cookies are appended.
+ */
+function mergeSetCookies(cookies: string, setCookies: string[]): string {
+  const jar = new Map<string, string>();
+  for (const part of cookies.split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      jar.set(part.slice(0, index).trim(), part.slice(index + 1).trim());
+    }
+  }
+  
+  for (const setCookie of setCookies) {
+    const [pair, ...attributes] = setCookie.split(';');
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      continue;
+    }
+    const name = pair.slice(0, index).trim();
+    const expired = attributes.some(attribute => {
+      const [key, value = ''] = attribute.split('=').map(part => part.trim());
+      return (key.toLowerCase() === 'max-age' && Number(value) <= 0)
+        || (key.toLowerCase() === 'expires' && Date.parse(value) <= Date.now());
+    });
+    if (expired) {
+      jar.delete(name);
+    } else {
+      jar.set(name, pair.slice(index + 1).trim());
+    }
+  }
+  
+  return [...jar].map(([name, value]) => `${name}=${value}`).join('; ');
+}
+
 /**
  * Parse auth token to extract expiration time
  * Token format: "tokenValue:timestamp" where timestamp is Unix milliseconds
@@ -195,9 +234,9 @@ export function parseAuthToken(token: string): { tokenValue: string; expiryTime:
 /**
  * Extract gsessionid from NotebookLM page
  */
-export async function extractGSessionId(cookies: string): Promise<string | null> {
+export async function extractGSessionId(cookies: string, network?: Network): Promise<string | null> {
   try {
-  const response = await fetch('https://notebooklm.google.com/', {
+  const response = await networkFetch(network, 'https://notebooklm.google.com/', {
     headers: {
       'Cookie': cookies,
       'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36',
@@ -248,9 +287,15 @@ export interface AutoRefreshConfig {
   /** Check interval for expiration-based strategy (ms) - default: 1 minute */
   checkInterval?: number;
   
-  /** Enable debug logging */
+  /** Enable debug logging (to stderr, when no logger is given) */
   debug?: boolean;
   
+  /** Logger for refresh messages */
+  logger?: Logger;
+  
+  /** Proxy, CA and user agent settings for refresh requests */
+  network?: Network;
+  
   /** Google session ID (will be extracted if not provided) */
   gsessionId?: string;
   
@@ -259,6 +304,9 @@ export interface AutoRefreshConfig {
   
   /** Callback when credentials are updated after refresh */
   onCredentialsUpdate?: (credentials: Credentials) => void;
+  
+  /** Store that refreshed cookies are written back to (e.g. the one the credentials were loaded from) */
+  store?: CredentialStore;
 }
 
 /**
@@ -288,25 +336,36 @@ export class AutoRefreshManager {
   private gsessionId?: string | null;
   private authToken?: string;
   private lastRefreshTime: number = 0;
+  private logger: Logger;
   
   constructor(
     cookies: string,
     private config: AutoRefreshConfig
   ) {
+    this.logger = resolveLogger(config.logger, config.debug);
     const onUpdate = (updatedCookies: string) => {
       // Update refresh client cookies
       this.refreshClient.updateCookies(updatedCookies);
       
+      const credentials = {
+        authToken: this.authToken || '',
+        cookies: updatedCookies,
+      };
+      
       // Notify callback if provided
       if (config.onCredentialsUpdate) {
-        config.onCredentialsUpdate({
-          authToken: this.authToken || '',
-          cookies: updatedCookies,
+        config.onCredentialsUpdate(credentials);
+      }
+      
+      // Persist, so the next process starts with the refreshed cookies
+      if (config.store && credentials.authToken) {
+        config.store.save(credentials).catch(error => {
+          this.logger.warn('Failed to save refreshed credentials', { error });
         });
       }
     };
     
-    this.refreshClient = new RefreshClient(cookies, config.debug, onUpdate);
+    this.refreshClient = new RefreshClient(cookies, this.logger, onUpdate, config.network);
     this.authToken = config.authToken;
   }
   
@@ -351,9 +410,9 @@ export class AutoRefreshManager {
     
     // Extract gsessionId if not provided (optional, but recommended)
     if (!this.config.gsessionId) {
-      this.gsessionId = await extractGSessionId(this.refreshClient.getCookies());
-      if (!this.gsessionId && this.config.debug) {
-        console.log('Note: gsessionId not found, refresh will continue without it');
+      this.gsessionId = await extractGSessionId(this.refreshClient.getCookies(), this.config.network);
+      if (!this.gsessionId) {
+        this.logger.debug('gsessionId not found, refresh will continue without it');
       }
     } else {
       this.gsessionId = this.config.gsessionId;
@@ -364,13 +423,9 @@ export class AutoRefreshManager {
       await this.performRefresh();
       this.lastRefreshTime = Date.now();
       
-      if (this.config.debug) {
-        console.log('Initial credential refresh successful');
-      }
+      this.logger.debug('Initial credential refresh successful');
     } catch (error) {
-      if (this.config.debug) {
-        console.warn('Initial refresh failed, continuing anyway:', (error as Error).message);
-      }
+      this.logger.warn('Initial credential refresh failed, continuing anyway', { error });
       // Don't throw - allow refresh to continue and retry later
     }
     
@@ -380,27 +435,23 @@ export class AutoRefreshManager {
     if (strategy === 'expiration' || strategy === 'auto') {
       if (this.authToken) {
         this.checkIntervalId = setInterval(() => {
-          this.checkAndRefreshExpiration(refreshAhead).catch(err => {
-            if (this.config.debug) {
-              console.error('Expiration check failed:', err);
-            }
+          this.checkAndRefreshExpiration(refreshAhead).catch(error => {
+            this.logger.error('Expiration check failed', { error });
             // In 'auto' mode, fallback to time-based if expiration check fails
             if (strategy === 'auto' && !this.timeIntervalId) {
-              if (this.config.debug) {
-                console.log('Falling back to time-based refresh due to expiration check failure');
-              }
+              this.logger.debug('Falling back to time-based refresh due to expiration check failure');
             }
           });
         }, checkInterval);
         
-        if (this.config.debug) {
-          const modeText = strategy === 'auto' ? 'auto (expiration-based primary)' : 'expiration-based';
-          console.log(`Auto-refresh started (${modeText}, checking every ${checkInterval}ms)`);
-        }
+        this.logger.debug('Auto-refresh started', {
+          strategy: strategy === 'auto' ? 'auto (expiration-based primary)' : 'expiration-based',
+          checkInterval,
+        });
       } else if (strategy === 'expiration') {
         throw new Error('Auth token required for expiration-based strategy');
-      } else if (this.config.debug && strategy === 'auto') {
-        console.log('Note: Auth token not provided, using time-based refresh only');
+      } else if (strategy === 'auto') {
+        this.logger.debug('Auth token not provided, using time-based refresh only');
       }
     }
     
@@ -411,21 +462,18 @@ export class AutoRefreshManager {
           await this.performRefresh();
           this.lastRefreshTime = Date.now();
           
-          if (this.config.debug) {
-            const modeText = strategy === 'auto' ? 'time-based (fallback)' : 'time-based';
-            console.log(`Credentials refreshed (${modeText})`);
-        }
-      } catch (error) {
-        if (this.config.debug) {
-            console.error('Time-based refresh failed:', (error as Error).message);
+          this.logger.debug('Credentials refreshed', {
+            strategy: strategy === 'auto' ? 'time-based (fallback)' : 'time-based',
+          });
+        } catch (error) {
+          this.logger.error('Time-based refresh failed', { error });
         }
-      }
       }, interval);
       
-      if (this.config.debug && strategy === 'time') {
-        console.log(`Auto-refresh started (time-based, interval: ${interval}ms)`);
-      } else if (this.config.debug && strategy === 'auto') {
-        console.log(`Time-based fallback enabled (interval: ${interval}ms)`);
+      if (strategy === 'time') {
+        this.logger.debug('Auto-refresh started', { strategy: 'time-based', interval });
+      } else {
+        this.logger.debug('Time-based fallback enabled', { interval });
       }
     }
   }
@@ -444,31 +492,27 @@ export class AutoRefreshManager {
       
       if (timeUntilExpiry > refreshAhead) {
         // Token still valid, no refresh needed
-        if (this.config.debug && timeUntilExpiry < refreshAhead * 2) {
+        if (timeUntilExpiry < refreshAhead * 2) {
           // Only log when getting close to refresh time
-          const minutesUntilExpiry = Math.floor(timeUntilExpiry / 60000);
-          console.log(`Token valid for ${minutesUntilExpiry} more minutes, no refresh needed`);
+          this.logger.debug('Token still valid, no refresh needed', {
+            minutesUntilExpiry: Math.floor(timeUntilExpiry / 60000),
+          });
         }
         return;
       }
       
       // Token expiring soon, refresh now
-      if (this.config.debug) {
-        const minutesUntilExpiry = Math.floor(timeUntilExpiry / 60000);
-        console.log(`Token expiring in ${minutesUntilExpiry} minutes, refreshing now...`);
-      }
+      this.logger.debug('Token expiring soon, refreshing now', {
+        minutesUntilExpiry: Math.floor(timeUntilExpiry / 60000),
+      });
       
       await this.performRefresh();
       this.lastRefreshTime = Date.now();
       
-      if (this.config.debug) {
-        console.log('Credentials refreshed (expiration-based)');
-      }
+      this.logger.debug('Credentials refreshed', { strategy: 'expiration-based' });
     } catch (error) {
       // Token parsing failed, fall back to time-based if hybrid
-    if (this.config.debug) {
-        console.warn('Failed to parse token for expiration check:', (error as Error).message);
-      }
+      this.logger.debug('Expiration-based refresh failed', { error });
       throw error;
     }
   }
@@ -496,9 +540,7 @@ export class AutoRefreshManager {
     
     this.running = false;
     
-    if (this.config.debug) {
-      console.log('Auto-refresh stopped');
-    }
+    this.logger.debug('Auto-refresh stopped');
   }
   
   /**
@@ -10,10 +10,20 @@ import { NotesService } from '../services/notes.js';
 import { ArtifactsService } from '../services/artifacts.js';
 import { GenerationService } from '../services/generation.js';
 import { NotebookLanguageService } from '../services/notebook-language.js';
+import { GuidebooksService } from '../services/guidebooks.js';
+import { AccountService } from '../services/account.js';
 import { AutoRefreshManager, defaultAutoRefreshConfig } from '../auth/refresh.js';
-import { getCredentials, type Credentials } from '../auth/auth.js';
+import { resolveCredentials, type Credentials } from '../auth/auth.js';
+import { FileCredentialStore, type CredentialStore } from '../auth/credential-store.js';
+import { ProfileManager } from '../auth/profiles.js';
 import { QuotaManager } from '../utils/quota.js';
-import type { NotebookLMConfig } from '../types/common.js';
+import { noopLogger, resolveLogger, type Logger } from '../utils/logger.js';
+import { RateLimiter } from '../rpc/rate-limiter.js';
+import { ResponseCache } from '../rpc/response-cache.js';
+import { SchemaDriftDetector } from '../rpc/schema-drift.js';
+import { Network } from '../utils/network.js';
+import { WireCapture, type CaptureOptions } from '../utils/capture.js';
+import { NotebookLMError, type NotebookLMConfig } from '../types/common.js';
 
 /**
  * NotebookLM Client
@@ -27,6 +37,8 @@ import type { NotebookLMConfig } from '../types/common.js';
  * - **Notes:** Create and manage notes within notebooks
  * - **Artifacts:** Generate quizzes, flashcards, study guides, mind maps, infographics, slides, reports, audio, video
  * - **Generation:** Chat with notebooks, generate guides, outlines, and reports
+ * - **Guidebooks:** Publish, share and query learner-facing guidebooks
+ * - **Account:** Account info, settings and plan detection
  * - **Auto-Refresh:** Automatically keeps sessions alive (enabled by default)
  * - **Quota Management:** Tracks and enforces NotebookLM usage limits
  * 
@@ -50,6 +62,8 @@ import type { NotebookLMConfig } from '../types/common.js';
  * - `sdk.notes` - Note operations
  * - `sdk.artifacts` - Artifact creation and management
  * - `sdk.generation` - Chat and content generation
+ * - `sdk.guidebooks` - Guidebook publishing and sharing
+ * - `sdk.account` - Account info and settings
  * 
  * **Auto-Refresh:**
  * Credentials are automatically refreshed every 10 minutes (configurable) to keep sessions alive.
@@ -58,6 +72,7 @@ import type { NotebookLMConfig } from '../types/common.js';
  * **Quota Management:**
  * The SDK automatically tracks and enforces NotebookLM limits (100 notebooks, 50 chats/day, etc.).
  * Use `sdk.getUsage()` to check current usage and `sdk.getRemaining('chats')` for remaining quota.
+ * Set `plan: 'auto'` to detect Plus/Pro/Ultra limits from the account on connect.
  * 
  * **Cleanup:**
  * Always call `sdk.dispose()` when done to stop auto-refresh and clean up resources.
@@ -67,7 +82,15 @@ export class NotebookLMClient {
   private refreshManager?: AutoRefreshManager;
   private quotaManager: QuotaManager;
   private config: NotebookLMConfig;
+  private logger: Logger;
+  private rateLimiter?: RateLimiter;
+  private cache?: ResponseCache;
+  private schemaDrift?: SchemaDriftDetector;
+  private network?: Network;
+  private capture?: WireCapture;
   private credentials?: Credentials;
+  private credentialStore: CredentialStore;
+  private profileName?: string;
   private initialized: boolean = false;
   
   private _notebooks?: NotebooksService;
@@ -76,6 +99,8 @@ export class NotebookLMClient {
   private _artifacts?: ArtifactsService;
   private _generation?: GenerationService;
   private _notebookLanguage?: NotebookLanguageService;
+  private _guidebooks?: GuidebooksService;
+  private _account?: AccountService;
   
   /**
    * Notebook operations
@@ -201,6 +226,42 @@ export class NotebookLMClient {
     return this._notebookLanguage;
   }
   
+  /**
+   * Guidebook operations
+   * List, publish, share, delete and ask questions against guidebooks
+   * 
+   * @example
+   * ```typescript
+   * const guidebooks = await sdk.guidebooks.list();
+   * const { publicUrl } = await sdk.guidebooks.publish(guidebooks[0].guidebookId);
+   * const { answer } = await sdk.guidebooks.ask(guidebooks[0].guidebookId, 'What is covered?');
+   * ```
+   */
+  get guidebooks(): GuidebooksService {
+    if (!this._guidebooks) {
+      throw new Error('SDK not initialized. Call await sdk.connect() first.');
+    }
+    return this._guidebooks;
+  }
+  
+  /**
+   * Account operations
+   * Get account info (including plan) and update account settings
+   * 
+   * @example
+   * ```typescript
+   * const account = await sdk.account.get();
+   * console.log(account.email, account.plan);
+   * await sdk.account.update({ language: 'de' });
+   * ```
+   */
+  get account(): AccountService {
+    if (!this._account) {
+      throw new Error('SDK not initialized. Call await sdk.connect() first.');
+    }
+    return this._account;
+  }
+  
   /**
    * Create a new NotebookLM client
    * 
@@ -271,17 +332,75 @@ export class NotebookLMClient {
       ...config,
       debug: config.debug !== undefined ? config.debug : envDebug,
     };
+    this.logger = resolveLogger(config.logger, this.config.debug);
+    // Created once so the budget survives reconnects (or shared when an instance is passed)
+    this.rateLimiter = config.rateLimit instanceof RateLimiter
+      ? config.rateLimit
+      : config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+    this.cache = config.cache instanceof ResponseCache
+      ? config.cache
+      : config.cache ? new ResponseCache(config.cache === true ? {} : config.cache) : undefined;
+    this.schemaDrift = config.schemaDrift instanceof SchemaDriftDetector
+      ? config.schemaDrift
+      : config.schemaDrift ? new SchemaDriftDetector({
+        // Without a logger of its own, the client's noop one would swallow the empty-baseline warning
+        logger: this.logger === noopLogger ? undefined : this.logger,
+        ...(config.schemaDrift === true ? {} : config.schemaDrift),
+      }) : undefined;
+    this.network = Network.from(config.network);
+    this.credentialStore = config.credentialStore ?? new FileCredentialStore();
     this.quotaManager = new QuotaManager(
       config.enforceQuotas === true, // Default to false
-      config.plan || 'standard' // Default to standard plan
+      config.plan && config.plan !== 'auto' ? config.plan : 'standard' // Default to standard plan (replaced on connect() for 'auto')
     );
     
     // Services will be initialized when connect() is called
   }
   
+  /**
+   * Create a client for a named profile
+   * The profile's credential store, authUser, plan and language are used; anything set in
+   * `config` takes precedence. NOTEBOOKLM_* / GOOGLE_* environment variables are ignored, so
+   * credentials always come from the profile (or a login saved into it).
+   * 
+   * @param name - Profile name (see ProfileManager)
+   * @param config - Client configuration on top of the profile
+   * @param profiles - Where profiles are stored (default: the config directory)
+   * @throws NotebookLMError if there is no profile with that name
+   * 
+   * @example
+   * ```typescript
+   * const personal = await NotebookLMClient.fromProfile('personal');
+   * const work = await NotebookLMClient.fromProfile('work', { enforceQuotas: true });
+   * await Promise.all([personal.connect(), work.connect()]);
+   * ```
+   */
+  static async fromProfile(
+    name: string,
+    config: NotebookLMConfig = {},
+    profiles: ProfileManager = new ProfileManager()
+  ): Promise<NotebookLMClient> {
+    const profile = await profiles.get(name);
+    if (!profile) {
+      throw new NotebookLMError(`Profile "${name}" not found in ${profiles.path}`);
+    }
+    
+    const client = new NotebookLMClient({
+      authUser: profile.authUser,
+      plan: profile.plan,
+      language: profile.language,
+      ...config,
+      credentialStore: config.credentialStore ?? profiles.credentialStore(name),
+    });
+    client.profileName = name;
+    return client;
+  }
+  
   /**
    * Connect / Initialize the client
    * Loads credentials (from config, env, saved, or auto-login) and sets up services
+   * Then reads the current frontend build label, session id and auth token from the app
+   * page (disable with `bootstrap: false`)
    * This must be called before using any services
    * 
    * @example
@@ -297,7 +416,7 @@ export class NotebookLMClient {
     }
     
     // Get credentials (from config, env, saved, or auto-login)
-    const credentials = await getCredentials(
+    let { credentials, source } = await resolveCredentials(
       {
         authToken: this.config.authToken,
         cookies: this.config.cookies,
@@ -307,6 +426,10 @@ export class NotebookLMClient {
         password: this.config.auth?.password,
         headless: this.config.auth?.headless ?? true,
         debug: this.config.debug,
+        logger: this.logger,
+        network: this.network,
+        store: this.credentialStore,
+        env: this.profileName === undefined,
       }
     );
     
@@ -323,15 +446,52 @@ export class NotebookLMClient {
       maxRetries: this.config.maxRetries,
       retryDelay: this.config.retryDelay,
       retryMaxDelay: this.config.retryMaxDelay,
+      timeout: this.config.timeout,
+      transport: this.config.transport,
+      baseUrl: this.config.baseUrl,
+      batching: this.config.batching,
+      // The drift check runs first so it sees responses before other middleware rewrites them
+      middleware: this.schemaDrift ? [this.schemaDrift, ...(this.config.middleware ?? [])] : this.config.middleware,
+      tracer: this.config.tracer,
+      logger: this.logger,
+      rateLimiter: this.rateLimiter,
+      cache: this.cache,
+      dedupe: this.config.dedupe ?? true,
+      bootstrap: this.config.bootstrap ?? true,
+      network: this.network,
     });
+    this.rpcClient.setCapture(this.capture);
+    
+    // Pick up the current frontend build and session (keeps the built-in values if this fails)
+    if (this.config.bootstrap !== false) {
+      try {
+        const session = await this.rpcClient.bootstrap();
+        credentials = { ...credentials, authToken: session.authToken ?? credentials.authToken };
+        this.credentials = credentials;
+      } catch (error) {
+        this.logger.warn('Failed to read frontend parameters, using built-in defaults', { error });
+      }
+    }
     
     // Create services
     this._notebooks = new NotebooksService(this.rpcClient, this.quotaManager);
     this._sources = new SourcesService(this.rpcClient, this.quotaManager);
     this._notes = new NotesService(this.rpcClient, this.quotaManager);
-    this._artifacts = new ArtifactsService(this.rpcClient, this.quotaManager);
+    this._notebookLanguage = new NotebookLanguageService(this.rpcClient, this.config.language);
+    this._artifacts = new ArtifactsService(this.rpcClient, this.quotaManager, this._notebookLanguage);
     this._generation = new GenerationService(this.rpcClient, this.quotaManager);
-    this._notebookLanguage = new NotebookLanguageService(this.rpcClient);
+    this._guidebooks = new GuidebooksService(this.rpcClient);
+    this._account = new AccountService(this.rpcClient, this.quotaManager);
+    
+    // Detect plan from the account (keeps 'standard' limits if detection fails)
+    if (this.config.plan === 'auto') {
+      try {
+        const plan = await this._account.detectPlan();
+        this.logger.info('Detected NotebookLM plan', { plan });
+      } catch (error) {
+        this.logger.warn('Failed to detect plan, keeping standard limits', { error });
+      }
+    }
     
     // Setup auto-refresh if enabled
     if (this.config.autoRefresh !== false) {
@@ -345,24 +505,28 @@ export class NotebookLMClient {
             refreshAhead: autoRefreshConfig.refreshAhead || 5 * 60 * 1000,
             checkInterval: autoRefreshConfig.checkInterval || 60 * 1000,
             gsessionId: autoRefreshConfig.gsessionId,
-            authToken: credentials.authToken,
             debug: this.config.debug,
-            onCredentialsUpdate: (updated: Credentials) => {
-              // Update credentials and RPC client when refreshed
-              this.credentials = updated;
-              if (this.rpcClient) {
-                this.rpcClient.updateCookies(updated.cookies);
-              }
-            },
           };
       
-      this.refreshManager = new AutoRefreshManager(credentials.cookies, refreshConfig);
+      this.refreshManager = new AutoRefreshManager(credentials.cookies, {
+        ...refreshConfig,
+        authToken: credentials.authToken,
+        logger: this.logger,
+        network: this.network,
+        // Write refreshed cookies back only where they came from (not into a store the user never used)
+        store: source === 'store' || source === 'login' ? this.credentialStore : undefined,
+        onCredentialsUpdate: (updated: Credentials) => {
+          // Update credentials and RPC client when refreshed
+          this.credentials = updated;
+          if (this.rpcClient) {
+            this.rpcClient.updateCookies(updated.cookies);
+          }
+        },
+      });
       
       // Start auto-refresh asynchronously
       this.refreshManager.start().catch(error => {
-        if (this.config.debug) {
-          console.error('Failed to start auto-refresh:', error.message);
-        }
+        this.logger.error('Failed to start auto-refresh', { error });
       });
     }
     
@@ -427,6 +591,13 @@ export class NotebookLMClient {
     return rpc.call(rpcId, args, notebookId);
   }
   
+  /**
+   * Name of the profile this client was created from (see fromProfile())
+   */
+  getProfile(): string | undefined {
+    return this.profileName;
+  }
+  
   // ========================================================================
   // Auto-Refresh Methods
   // ========================================================================
@@ -466,6 +637,87 @@ export class NotebookLMClient {
     }
   }
   
+  // ========================================================================
+  // Rate Limiting Methods
+  // ========================================================================
+  
+  /**
+   * Get the client-side rate limiter
+   * Undefined unless `rateLimit` was configured
+   * 
+   * @example
+   * ```typescript
+   * const limiter = sdk.getRateLimiter();
+   * console.log(`${limiter?.active} in flight, ${limiter?.pending} queued`);
+   * ```
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
+  
+  // ========================================================================
+  // Cache Methods
+  // ========================================================================
+  
+  /**
+   * Get the response cache
+   * Undefined unless `cache` was configured
+   * 
+   * @example
+   * ```typescript
+   * // Drop everything after changing notebooks from another tool
+   * await sdk.getCache()?.clear();
+   * ```
+   */
+  getCache(): ResponseCache | undefined {
+    return this.cache;
+  }
+  
+  // ========================================================================
+  // Capture Methods
+  // ========================================================================
+  
+  /**
+   * Start recording every batchexecute request, streamed chat response, app page fetch
+   * and download, for attaching to protocol bug reports
+   * Cookies and the `at` token are redacted. Can be called before or after connect().
+   * 
+   * @param options - Output file (`.har` for HAR, anything else for JSONL) and body size limit
+   * @throws Error if a capture is already running
+   * 
+   * @example
+   * ```typescript
+   * sdk.startCapture({ path: 'bug-1234.har' });
+   * await sdk.generation.chat(notebookId, 'Summarize');
+   * await sdk.stopCapture(); // writes bug-1234.har
+   * ```
+   */
+  startCapture(options: CaptureOptions = {}): WireCapture {
+    if (this.capture) {
+      throw new Error('A capture is already running. Call stopCapture() first.');
+    }
+    this.capture = new WireCapture(options);
+    this.rpcClient?.setCapture(this.capture);
+    return this.capture;
+  }
+  
+  /**
+   * Stop recording and write the capture file (if a path was given)
+   * 
+   * @returns The finished capture (`entries`, `toHAR()`, `toJSONL()`)
+   * @throws Error if no capture is running
+   */
+  async stopCapture(): Promise<WireCapture> {
+    const capture = this.capture;
+    if (!capture) {
+      throw new Error('No capture running. Call startCapture() first.');
+    }
+    this.capture = undefined;
+    this.rpcClient?.setCapture(undefined);
+    await capture.stop();
+    return capture;
+  }
+  
   // ========================================================================
   // Quota Management Methods
   // ========================================================================
@@ -15,6 +15,8 @@ export { ArtifactsService } from './services/artifacts.js';
 export { GenerationService } from './services/generation.js';
 export { NotebookLanguageService } from './services/notebook-language.js';
 export type { NotebookLanguageInfo } from './services/notebook-language.js';
+export { GuidebooksService } from './services/guidebooks.js';
+export { AccountService } from './services/account.js';
 // Artifact functions are now in ArtifactsService - use artifacts.get() or artifacts.download() instead
 // Legacy exports below are kept for backward compatibility but will be removed
 export { fetchQuizData } from './services/artifacts.js';
@@ -42,6 +44,9 @@ export type {
   RPCCall,
   RPCResponse,
   BatchExecuteConfig,
+  RequestOptions,
+  NotebookLMAbortReason,
+  SchemaDrift,
 } from './types/common.js';
 
 export {
@@ -49,6 +54,8 @@ export {
   NotebookLMAuthError,
   NotebookLMNetworkError,
   NotebookLMParseError,
+  NotebookLMAbortError,
+  SchemaDriftWarning,
 } from './types/common.js';
 
 export type {
@@ -82,6 +89,10 @@ export type {
   WebSearchResult,
   AddSourceResult,
   SourceChunk,
+  SourceSyncStatus,
+  SourceSyncResult,
+  SyncStaleSourcesOptions,
+  SyncStaleSourcesResult,
 } from './types/source.js';
 export { ResearchMode, SearchSourceType } from './types/source.js';
 
@@ -100,10 +111,48 @@ export {
   NoteType,
 } from './types/note.js';
 
+export type {
+  NotebookGuide,
+  SuggestedQuestion,
+  NotebookOutline,
+  OutlineNode,
+  DraftSection,
+  DraftDocument,
+  DraftDocumentOptions,
+} from './types/generation.js';
+
+export type {
+  Guidebook,
+  GuidebookDetails,
+  GuidebookSection,
+  PublishGuidebookOptions,
+  PublishGuidebookResult,
+  ShareGuidebookOptions,
+  ShareGuidebookResult,
+  AskGuidebookOptions,
+  GuidebookAnswer,
+  GuidebookSourceReference,
+} from './types/guidebook.js';
+
+export {
+  GuidebookStatus,
+} from './types/guidebook.js';
+
+export type {
+  Account,
+  UpdateAccountOptions,
+} from './types/account.js';
+
+export {
+  AccountTier,
+} from './types/account.js';
+
 export type {
   AudioOverview,
   CreateAudioOverviewOptions,
   ShareAudioResult,
+  ShareAudioOptions,
+  ArtifactSharingDetails,
 } from './services/artifacts.js';
 
 export {
@@ -144,6 +193,10 @@ export type {
   FlashcardData,
   AudioArtifact,
   VideoArtifact,
+  ReportSuggestion,
+  SuggestReportsOptions,
+  UpdateArtifactPatch,
+  UpdateArtifactResult,
 } from './types/artifact.js';
 
 export {
@@ -154,12 +207,123 @@ export {
 // RPC methods (for advanced use)
 export * as RPCMethods from './rpc/rpc-methods.js';
 
+// RPC codecs (typed request encoders / validating response decoders)
+export { RPCCodecs, ResponseShape } from './rpc/codecs.js';
+export type {
+  RPCCodec,
+  RPCMethodName,
+  CodecParams,
+  CodecResult,
+  RPCTimestamp,
+  ProjectRecord,
+  SourceRecord,
+  NoteRecord,
+  ArtifactRecord,
+  SharingRecord,
+  NotebookParams,
+  SourceParams,
+  ArtifactParams,
+  GuidebookParams,
+  RawArgsParams,
+} from './rpc/codecs.js';
+
 // RPC client (for advanced use)
 export { RPCClient } from './rpc/rpc-client.js';
-export type { RPCClientConfig } from './rpc/rpc-client.js';
+export type { RPCClientConfig, RequestParams } from './rpc/rpc-client.js';
+export { BatchScheduler } from './rpc/batch-scheduler.js';
+export type { BatchingOptions } from './rpc/batch-scheduler.js';
+export { SingleFlight } from './rpc/single-flight.js';
+export { MiddlewareChain } from './rpc/middleware.js';
+export type {
+  RPCMiddleware,
+  MiddlewareResponse,
+  MiddlewareRetry,
+  MiddlewareErrorContext,
+} from './rpc/middleware.js';
+
+// Rate limiting (concurrency caps, token bucket, priority lanes)
+export { RateLimiter, withPriority, currentPriority } from './rpc/rate-limiter.js';
+export type { RateLimitOptions, RequestPriority } from './rpc/rate-limiter.js';
+
+// Response cache (read RPCs, invalidated on mutation)
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  withoutCache,
+  isReadRpc,
+  CACHEABLE_RPCS,
+} from './rpc/response-cache.js';
+export type { CacheOptions, CacheStore, CacheEntry } from './rpc/response-cache.js';
+
+// Schema drift detection (response shapes compared with recorded baselines)
+export {
+  SchemaDriftDetector,
+  shapeOf,
+  compareShape,
+  buildSchemaBaseline,
+  loadSchemaSamples,
+} from './rpc/schema-drift.js';
+export { SCHEMA_BASELINES } from './rpc/schema-baselines.js';
+export type {
+  ShapeKind,
+  ShapeSignature,
+  SchemaBaseline,
+  SchemaSample,
+  SchemaDriftOptions,
+} from './rpc/schema-drift.js';
+// Frontend bootstrap (build label, session id and auth token discovery)
+export { parseBootstrapPage, isStaleSessionError } from './rpc/bootstrap.js';
+export type { FrontendSession, BootstrapOptions } from './rpc/bootstrap.js';
+
+// Network (proxy, CA certificates, user agent)
+export { Network, networkFetch } from './utils/network.js';
+export type { NetworkOptions, BrowserNetworkOptions } from './utils/network.js';
+
+// Wire capture (HAR / JSONL protocol traces)
+export { WireCapture, CaptureTransport, redactHeaders } from './utils/capture.js';
+export type { CaptureOptions, CaptureEntry, CaptureFormat, DownloadRecord } from './utils/capture.js';
+
+// Logging
+export { createConsoleLogger, noopLogger } from './utils/logger.js';
+export type { Logger, LogLevel, LogFields, ConsoleLoggerOptions } from './utils/logger.js';
+
+// Tracing (OpenTelemetry-compatible span interface)
+export { SpanStatusCode, noopTracer } from './utils/tracing.js';
+export type {
+  Tracer,
+  Span,
+  SpanStatus,
+  SpanAttributes,
+  SpanAttributeValue,
+} from './utils/tracing.js';
 
 // Batch execute client (for advanced use)
-export { BatchExecuteClient } from './utils/batch-execute.js';
+export { BatchExecuteClient, decodeBatchResponse } from './utils/batch-execute.js';
+
+// HTTP transport (custom transports, record/replay fixtures)
+export { FetchTransport, RecordReplayTransport } from './utils/transport.js';
+export type {
+  Transport,
+  TransportRequest,
+  TransportRequestKind,
+  TransportFixture,
+  RecordReplayMode,
+  RecordReplayOptions,
+} from './utils/transport.js';
+
+// Fake NotebookLM server (offline integration testing)
+export { FakeNotebookLMServer } from './utils/fake-server.js';
+export type {
+  FakeNotebookLMServerOptions,
+  FakeNotebook,
+  FakeSource,
+  FakeNote,
+  FakeArtifact,
+  FakeGuidebook,
+  FakeGuidebookSection,
+  FakeAccount,
+} from './utils/fake-server.js';
 
 // Error utilities (for advanced use)
 export { 
@@ -167,6 +331,7 @@ export {
   APIError,
   getErrorCode,
   isErrorResponse,
+  isRateLimitError,
   addErrorCode,
   listErrorCodes,
 } from './utils/errors.js';
@@ -175,12 +340,45 @@ export type { ErrorCode } from './utils/errors.js';
 // Auth utilities (auto-login and credential refresh)
 export {
   getCredentials,
+  resolveCredentials,
   autoLogin,
   saveCredentials,
   loadCredentials,
   deleteCredentials,
 } from './auth/auth.js';
-export type { Credentials, AuthConfig } from './auth/auth.js';
+export type { Credentials, AuthConfig, CredentialSource } from './auth/auth.js';
+
+// Cookie import (cookies.txt, browser JSON exports, HAR captures)
+export {
+  importCredentials,
+  credentialsFromCookieExport,
+  parseCookieExport,
+  detectCookieFormat,
+  cookieHeader,
+} from './auth/cookie-import.js';
+export type { CookieExportFormat, ExportedCookie, CookieImportOptions } from './auth/cookie-import.js';
+
+// Credential stores (config-dir file, encrypted file, env-only, custom)
+export {
+  FileCredentialStore,
+  EncryptedFileCredentialStore,
+  EnvCredentialStore,
+  defaultCredentialsPath,
+} from './auth/credential-store.js';
+export type {
+  CredentialStore,
+  EncryptedFileCredentialStoreOptions,
+  EnvCredentialStoreOptions,
+} from './auth/credential-store.js';
+
+// Named profiles (one per Google account)
+export { ProfileManager } from './auth/profiles.js';
+export type {
+  Profile,
+  ProfileSettings,
+  AddProfileOptions,
+  ProfileManagerOptions,
+} from './auth/profiles.js';
 
 export {
   RefreshClient,
@@ -0,0 +1,196 @@
+/**
+ * Coalescing batch scheduler
+ * Collects RPC calls issued in the same tick and sends them as one batchexecute request
+ */
+
+import type { BatchExecuteClient } from '../utils/batch-execute.js';
+import type { RateLimiter } from './rate-limiter.js';
+import type { RPCCall, RPCResponse } from '../types/common.js';
+import { toAbortError } from '../utils/abort.js';
+
+/**
+ * Options for request coalescing
+ */
+export interface BatchingOptions {
+  /** Maximum number of calls per batchexecute request (default: 20) */
+  maxBatchSize?: number;
+  /** How long to collect calls before sending (ms) (default: 0 - calls issued in the same tick) */
+  windowMs?: number;
+}
+
+interface PendingCall {
+  rpc: RPCCall;
+  signal?: AbortSignal;
+  resolve: (response: RPCResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Queues RPC calls and flushes them as multi-RPC batchexecute requests
+ *
+ * Each caller gets its own response (frames are demultiplexed by index) or its own
+ * error; a failed HTTP request rejects every call in that batch. A caller whose signal
+ * fires is dropped from the queue (or rejected right away if its batch is already in
+ * flight) without cancelling the other calls. Once every call of an in-flight batch has
+ * been aborted, the request itself is cancelled.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({ batching: true });
+ * await sdk.connect();
+ *
+ * // One HTTP request instead of one per notebook
+ * const notebooks = await sdk.notebooks.list();
+ * const details = await Promise.all(notebooks.map(nb => sdk.notebooks.get(nb.projectId)));
+ * ```
+ */
+export class BatchScheduler {
+  private queue: PendingCall[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private maxBatchSize: number;
+  private windowMs: number;
+
+  constructor(
+    private batchClient: BatchExecuteClient,
+    options: BatchingOptions = {},
+    private rateLimiter?: RateLimiter
+  ) {
+    this.maxBatchSize = Math.max(1, options.maxBatchSize ?? 20);
+    this.windowMs = Math.max(0, options.windowMs ?? 0);
+  }
+
+  /**
+   * Queue a call; resolves with its own response frame
+   */
+  schedule(rpc: RPCCall, signal?: AbortSignal): Promise<RPCResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(pending => pending !== call);
+        reject(toAbortError(signal!));
+      };
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+
+      const call: PendingCall = {
+        rpc,
+        signal,
+        resolve: (response) => { settle(); resolve(response); },
+        reject: (error) => { settle(); reject(error); },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(call);
+
+      if (this.queue.length >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  /**
+   * Send all queued calls now
+   */
+  flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    for (const batch of this.split(this.queue.splice(0))) {
+      void this.dispatch(batch);
+    }
+  }
+
+  /**
+   * Group calls into batches of at most maxBatchSize, none carrying an RPC id more often
+   * than its per-RPC concurrency cap (such a batch could never get a rate-limiter slot)
+   */
+  private split(calls: PendingCall[]): PendingCall[][] {
+    const batches: Array<{ calls: PendingCall[]; counts: Map<string, number> }> = [];
+    for (const call of calls) {
+      const id = call.rpc.id;
+      const cap = this.rateLimiter?.rpcLimit(id) ?? Infinity;
+      let batch = batches.find(b => b.calls.length < this.maxBatchSize && (b.counts.get(id) ?? 0) < cap);
+      if (!batch) {
+        batch = { calls: [], counts: new Map() };
+        batches.push(batch);
+      }
+      batch.calls.push(call);
+      batch.counts.set(id, (batch.counts.get(id) ?? 0) + 1);
+    }
+    return batches.map(batch => batch.calls);
+  }
+
+  private async dispatch(batch: PendingCall[]): Promise<void> {
+    // A single call goes through the regular path (same errors and retries as without batching)
+    if (batch.length === 1) {
+      const [call] = batch;
+      try {
+        call.resolve(await this.batchClient.do(call.rpc, call.signal));
+      } catch (error) {
+        call.reject(error);
+      }
+      return;
+    }
+
+    const batchSignal = this.batchSignal(batch);
+    let results: Array<RPCResponse | Error>;
+    try {
+      results = await this.batchClient.executeBatch(this.withSharedSourcePath(batch.map(call => call.rpc)), batchSignal.signal);
+    } catch (error) {
+      batch.forEach(call => call.reject(error));
+      return;
+    } finally {
+      batchSignal.dispose();
+    }
+
+    batch.forEach((call, i) => {
+      const result = results[i];
+      if (result instanceof Error) {
+        call.reject(result);
+      } else {
+        call.resolve(result);
+      }
+    });
+  }
+
+  /**
+   * Signal that fires once every call in the batch has been aborted
+   * (undefined when some call can't be aborted, so the request always runs)
+   */
+  private batchSignal(batch: PendingCall[]): { signal?: AbortSignal; dispose: () => void } {
+    const signals = batch.map(call => call.signal);
+    if (signals.some(signal => !signal)) {
+      return { dispose: () => {} };
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => {
+      if (signals.every(signal => signal!.aborted)) {
+        controller.abort(toAbortError(signals[signals.length - 1]!));
+      }
+    };
+    signals.forEach(signal => signal!.addEventListener('abort', onAbort));
+    onAbort();
+    return {
+      signal: controller.signal,
+      dispose: () => signals.forEach(signal => signal!.removeEventListener('abort', onAbort)),
+    };
+  }
+
+  /**
+   * Request URL params are taken from the first call - use the root path
+   * when batched calls belong to different notebooks
+   */
+  private withSharedSourcePath(rpcs: RPCCall[]): RPCCall[] {
+    const paths = new Set(rpcs.map(rpc => rpc.urlParams?.['source-path']));
+    if (paths.size <= 1) {
+      return rpcs;
+    }
+    return rpcs.map(rpc => ({ ...rpc, urlParams: { ...rpc.urlParams, 'source-path': '/' } }));
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Frontend bootstrap
+ * Discovers the current frontend build label (`bl`), session id (`f.sid`) and auth token
+ * (`at`) from the NotebookLM app page, so a Google frontend rollout doesn't strand the SDK
+ * on stale hard-coded values
+ */
+
+import { NotebookLMAuthError, NotebookLMError } from '../types/common.js';
+import type { Logger } from '../utils/logger.js';
+import { toAbortError } from '../utils/abort.js';
+
+/**
+ * Values read from the app page's `WIZ_global_data`
+ */
+export interface FrontendSession {
+  /** Frontend build label, sent as `bl` (`cfb2h`) */
+  buildLabel?: string;
+  /** Session id, sent as `f.sid` (`FdrFJe`) */
+  sessionId?: string;
+  /** Auth token, sent as `at` (`SNlM0e`) */
+  authToken?: string;
+  /** When the page was fetched (ms since epoch) */
+  fetchedAt: number;
+}
+
+/**
+ * Bootstrap options
+ */
+export interface BootstrapOptions {
+  /** Re-fetch the app page once the values are older than this (ms) (default: 1 hour) */
+  ttl?: number;
+}
+
+const WIZ_KEYS = {
+  buildLabel: 'cfb2h',
+  sessionId: 'FdrFJe',
+  authToken: 'SNlM0e',
+} as const;
+
+/**
+ * Extract frontend parameters from the app page HTML
+ * Missing values are left undefined.
+ */
+export function parseBootstrapPage(html: string): Omit<FrontendSession, 'fetchedAt'> {
+  const read = (key: string): string | undefined => {
+    const match = html.match(new RegExp(`"${key}"\\s*:\\s*"([^"]*)"`));
+    return match?.[1] || undefined;
+  };
+
+  return {
+    buildLabel: read(WIZ_KEYS.buildLabel),
+    sessionId: read(WIZ_KEYS.sessionId),
+    authToken: read(WIZ_KEYS.authToken),
+  };
+}
+
+/**
+ * Render a minimal app page carrying the given values (fake server and recorded fixtures)
+ */
+export function renderBootstrapPage(session: Omit<FrontendSession, 'fetchedAt'>): string {
+  const data: Record<string, string> = {};
+  for (const [field, key] of Object.entries(WIZ_KEYS)) {
+    const value = session[field as keyof typeof WIZ_KEYS];
+    if (value) {
+      data[key] = value;
+    }
+  }
+  return `<!doctype html><html><head><script>window.WIZ_global_data = ${JSON.stringify(data)};</script></head><body></body></html>`;
+}
+
+/**
+ * Check if an error looks like the server rejecting our build label or auth token
+ * (a bare HTTP 400 from batchexecute)
+ */
+export function isStaleSessionError(error: unknown): boolean {
+  return error instanceof NotebookLMError
+    && !(error instanceof NotebookLMAuthError)
+    && error.statusCode === 400;
+}
+
+/**
+ * Keeps the discovered frontend parameters fresh
+ *
+ * `refresh()` calls are single-flight: concurrent callers share one page fetch.
+ * `version` only changes when a fetch returned different values, so a caller can tell
+ * whether retrying a rejected request is worthwhile.
+ */
+export class FrontendBootstrap {
+  private current?: FrontendSession;
+  private checkedAt = 0;
+  private inFlight?: Promise<boolean>;
+  private ttl: number;
+  private changes = 0;
+
+  constructor(
+    private fetchPage: (signal?: AbortSignal) => Promise<string>,
+    private onUpdate: (session: FrontendSession) => void,
+    private logger: Logger,
+    options: BootstrapOptions = {}
+  ) {
+    this.ttl = options.ttl ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Last discovered values (undefined until the first successful refresh)
+   */
+  get session(): FrontendSession | undefined {
+    return this.current;
+  }
+
+  /**
+   * Incremented every time a refresh changes the values
+   */
+  get version(): number {
+    return this.changes;
+  }
+
+  /**
+   * Whether the values are due for a refresh
+   */
+  isStale(): boolean {
+    return Date.now() - this.checkedAt >= this.ttl;
+  }
+
+  /**
+   * Fetch the app page and apply its values
+   * Throws when the page can't be fetched or carries no parameters (e.g. signed out).
+   *
+   * @returns Whether any value changed
+   */
+  refresh(signal?: AbortSignal): Promise<boolean> {
+    if (!this.inFlight) {
+      this.inFlight = this.load(signal).finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Refresh if the TTL has expired; failures are logged and the previous values kept
+   */
+  async ensureFresh(signal?: AbortSignal): Promise<void> {
+    if (!this.isStale()) {
+      return;
+    }
+    try {
+      await this.refresh(signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+      this.logger.warn('Failed to refresh frontend parameters, keeping previous values', { error });
+    }
+  }
+
+  private async load(signal?: AbortSignal): Promise<boolean> {
+    // Failed attempts count too - don't hit the page on every call while it's failing
+    this.checkedAt = Date.now();
+    const html = await this.fetchPage(signal);
+    const values = parseBootstrapPage(html);
+    if (!values.buildLabel && !values.sessionId && !values.authToken) {
+      throw new NotebookLMError('No frontend parameters found in the NotebookLM page (are the cookies signed in?)');
+    }
+
+    const previous = this.current;
+    this.current = { ...previous, ...stripUndefined(values), fetchedAt: Date.now() };
+
+    const changed = previous?.buildLabel !== this.current.buildLabel
+      || previous?.sessionId !== this.current.sessionId
+      || previous?.authToken !== this.current.authToken;
+    if (changed) {
+      this.changes++;
+      this.onUpdate(this.current);
+      this.logger.debug('Discovered frontend parameters', {
+        buildLabel: this.current.buildLabel,
+        sessionId: this.current.sessionId,
+      });
+    }
+    return changed;
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,965 @@
+/**
+ * Typed request/response codecs for NotebookLM RPCs
+ *
+ * Each constant in rpc-methods.ts has a codec with:
+ * - `encode(params)`: builds the positional argument array from a typed params object
+ * - `decode(raw)`: validates the response shape and returns a typed record
+ *
+ * Decoders throw `NotebookLMParseError` with the failing path (e.g. `$[0][1][3][0]`)
+ * when the response does not match the expected structure, so upstream changes surface
+ * as clear errors instead of empty lists or `undefined` fields.
+ *
+ * Responses whose structure is not documented decode to `unknown` (JSON-validated only).
+ */
+
+import * as RPC from './rpc-methods.js';
+import { NotebookLMParseError } from '../types/common.js';
+import { GuidebookStatus } from '../types/guidebook.js';
+import type { NotebookGuide } from '../types/generation.js';
+import type { ReportSuggestion } from '../types/artifact.js';
+import type { SourceFreshness } from '../types/source.js';
+import { AccountTier, type Account, type UpdateAccountOptions } from '../types/account.js';
+import type { NotebookLMPlan } from '../utils/quota.js';
+import type {
+  Guidebook,
+  GuidebookDetails,
+  GuidebookSection,
+  GuidebookAnswer,
+  PublishGuidebookOptions,
+  PublishGuidebookResult,
+  ShareGuidebookOptions,
+  ShareGuidebookResult,
+  AskGuidebookOptions,
+} from '../types/guidebook.js';
+
+// ========================================================================
+// Codec types
+// ========================================================================
+
+/**
+ * Typed codec for a single RPC
+ */
+export interface RPCCodec<TParams, TResult> {
+  /** RPC ID sent on the wire */
+  readonly rpcId: string;
+  /** Build positional args from typed params */
+  encode(params: TParams): any[];
+  /** Validate and decode the raw response data */
+  decode(raw: unknown): TResult;
+}
+
+/** Params type of a codec */
+export type CodecParams<C> = C extends RPCCodec<infer P, any> ? P : never;
+
+/** Result type of a codec */
+export type CodecResult<C> = C extends RPCCodec<any, infer R> ? R : never;
+
+/** Name of an RPC constant in rpc-methods.ts */
+export type RPCMethodName = keyof typeof RPC;
+
+/** Protobuf-style timestamp: [seconds, nanoseconds] */
+export type RPCTimestamp = [number, number];
+
+// ========================================================================
+// Shape validation
+// ========================================================================
+
+/**
+ * Path-aware shape checks used by decoders
+ * Every failure throws NotebookLMParseError with the RPC ID and JSON path.
+ */
+export class ResponseShape {
+  constructor(
+    private readonly rpcId: string,
+    private readonly raw: unknown
+  ) {}
+
+  /**
+   * Parse raw RPC data (JSON string or already-decoded value)
+   */
+  parse(): unknown {
+    if (typeof this.raw !== 'string') {
+      return this.raw;
+    }
+    try {
+      return JSON.parse(this.raw);
+    } catch {
+      throw new NotebookLMParseError(
+        `Invalid ${this.rpcId} response at $: expected JSON, got unparseable string`,
+        this.raw.substring(0, 500),
+        '$'
+      );
+    }
+  }
+
+  array(value: unknown, path: string): any[] {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'array', value);
+    }
+    return value;
+  }
+
+  optionalArray(value: unknown, path: string): any[] | null {
+    return value === null || value === undefined ? null : this.array(value, path);
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+      this.fail(path, 'string', value);
+    }
+    return value;
+  }
+
+  optionalString(value: unknown, path: string): string | undefined {
+    return value === null || value === undefined ? undefined : this.string(value, path);
+  }
+
+  number(value: unknown, path: string): number {
+    if (typeof value !== 'number') {
+      this.fail(path, 'number', value);
+    }
+    return value;
+  }
+
+  optionalNumber(value: unknown, path: string): number | undefined {
+    return value === null || value === undefined ? undefined : this.number(value, path);
+  }
+
+  optionalTimestamp(value: unknown, path: string): RPCTimestamp | undefined {
+    const ts = this.optionalArray(value, path);
+    if (!ts || ts.length === 0) {
+      return undefined;
+    }
+    return [this.number(ts[0], `${path}[0]`), typeof ts[1] === 'number' ? ts[1] : 0];
+  }
+
+  fail(path: string, expected: string, value: unknown): never {
+    let rawData: string | undefined;
+    try {
+      rawData = (typeof this.raw === 'string' ? this.raw : JSON.stringify(this.raw))?.substring(0, 500);
+    } catch {
+      rawData = undefined;
+    }
+    throw new NotebookLMParseError(
+      `Unexpected ${this.rpcId} response shape at ${path}: expected ${expected}, got ${describe(value)}`,
+      rawData,
+      path
+    );
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  return typeof value;
+}
+
+function codec<TParams, TResult>(
+  rpcId: string,
+  encode: (params: TParams) => any[],
+  decode: (shape: ResponseShape, json: unknown) => TResult
+): RPCCodec<TParams, TResult> {
+  return {
+    rpcId,
+    encode,
+    decode: (raw: unknown) => {
+      const shape = new ResponseShape(rpcId, raw);
+      return decode(shape, shape.parse());
+    },
+  };
+}
+
+/** Decoder for responses without a documented structure (JSON-validated only) */
+const json = (_shape: ResponseShape, value: unknown): unknown => value;
+
+/** Decoder for mutations whose response body is ignored */
+const ignore = (): void => undefined;
+
+// ========================================================================
+// Records
+// ========================================================================
+
+/**
+ * Source entry as returned inside project responses
+ * `[[sourceId], title, [null, size, [sec, ns], [processedId, ts], typeCode, ..., [url]?], ...]`
+ */
+export interface SourceRecord {
+  sourceId: string;
+  title?: string;
+  /** Metadata array ([2]) - interpreted by SourcesService */
+  metadata: any[];
+  raw: any[];
+}
+
+/**
+ * Project (notebook) entry
+ * `[title, [sources...] | null, projectId, emoji, null, [metadata...]]`
+ */
+export interface ProjectRecord {
+  title: string;
+  projectId: string;
+  emoji?: string;
+  sources: SourceRecord[];
+  raw: any[];
+}
+
+/**
+ * Note entry from the notes list
+ * `[noteId, [noteId, content, [noteType, projectId, [sec, ns]], null, title]]`
+ * Deleted notes come back with an empty details array.
+ */
+export interface NoteRecord {
+  noteId: string;
+  /** Details array ([1]) - empty for deleted notes */
+  details: any[];
+  raw: any[];
+}
+
+/**
+ * Artifact entry
+ * `[artifactId, title, apiType, [[[sourceId]]...], state, ...]`
+ */
+export interface ArtifactRecord {
+  artifactId: string;
+  raw: any[];
+}
+
+/**
+ * Sharing details for a notebook or a single artifact
+ * `[[[email, role, [], [name, avatar]], ...], [isPublic], 1000, [shareUrl, shareId]?]`
+ * The link entry ([3]) is only present for artifacts shared on their own.
+ */
+export interface SharingRecord {
+  users: Array<{ email: string; role: number }>;
+  isPublic: boolean;
+  shareUrl?: string;
+  shareId?: string;
+  raw: any[];
+}
+
+function decodeSource(shape: ResponseShape, value: unknown, path: string): SourceRecord {
+  const row = shape.array(value, path);
+  const idField = row[0];
+  const sourceId = Array.isArray(idField)
+    ? shape.string(idField[0], `${path}[0][0]`)
+    : shape.string(idField, `${path}[0]`);
+
+  return {
+    sourceId,
+    title: typeof row[1] === 'string' ? row[1] : undefined,
+    metadata: shape.optionalArray(row[2], `${path}[2]`) ?? [],
+    raw: row,
+  };
+}
+
+function decodeProject(shape: ResponseShape, value: unknown, path: string): ProjectRecord {
+  const row = shape.array(value, path);
+  const sources = shape.optionalArray(row[1], `${path}[1]`) ?? [];
+
+  return {
+    title: shape.optionalString(row[0], `${path}[0]`) ?? '',
+    projectId: shape.string(row[2], `${path}[2]`),
+    emoji: typeof row[3] === 'string' ? row[3] : undefined,
+    sources: sources.map((source, i) => decodeSource(shape, source, `${path}[1][${i}]`)),
+    raw: row,
+  };
+}
+
+function decodeArtifact(shape: ResponseShape, value: unknown, path: string): ArtifactRecord {
+  let row = shape.array(value, path);
+  // Some responses wrap each artifact once more: [[artifactId, ...]]
+  if (Array.isArray(row[0])) {
+    row = row[0];
+    path = `${path}[0]`;
+  }
+  return {
+    artifactId: shape.string(row[0], `${path}[0]`),
+    raw: row,
+  };
+}
+
+/**
+ * Guidebook: `[guidebookId, title, content, status, [sec, ns]?]`
+ * Accepts the entry wrapped once (`[[guidebookId, ...]]`), as returned by get.
+ */
+function decodeGuidebook(shape: ResponseShape, value: unknown, path: string): Guidebook {
+  let row = shape.array(value, path);
+  if (Array.isArray(row[0])) {
+    row = row[0];
+    path = `${path}[0]`;
+  }
+  const publishTime = shape.optionalTimestamp(row[4], `${path}[4]`);
+
+  return {
+    guidebookId: shape.string(row[0], `${path}[0]`),
+    title: shape.optionalString(row[1], `${path}[1]`) ?? '',
+    content: shape.optionalString(row[2], `${path}[2]`),
+    status: shape.optionalNumber(row[3], `${path}[3]`) ?? GuidebookStatus.UNSPECIFIED,
+    publishedAt: publishTime ? new Date(publishTime[0] * 1000).toISOString() : undefined,
+  };
+}
+
+/**
+ * Guidebook section: `[sectionId, title, content, [sourceId...]]`
+ */
+function decodeGuidebookSection(shape: ResponseShape, value: unknown, path: string): GuidebookSection {
+  const row = shape.array(value, path);
+  const sourceIds = shape.optionalArray(row[3], `${path}[3]`) ?? [];
+
+  return {
+    sectionId: shape.string(row[0], `${path}[0]`),
+    title: shape.optionalString(row[1], `${path}[1]`) ?? '',
+    content: shape.optionalString(row[2], `${path}[2]`),
+    sourceIds: sourceIds.map((id, i) => shape.string(id, `${path}[3][${i}]`)),
+  };
+}
+
+function decodeSharing(shape: ResponseShape, value: unknown): SharingRecord {
+  let root = shape.array(value, '$');
+  let path = '$';
+  // Some responses wrap the details once more: [[[users], [isPublic], ...]]
+  if (Array.isArray(root[0]) && Array.isArray(root[0][1])) {
+    root = root[0];
+    path = '$[0]';
+  }
+
+  const users = shape.optionalArray(root[0], `${path}[0]`) ?? [];
+  const visibility = shape.optionalArray(root[1], `${path}[1]`);
+  const link = shape.optionalArray(root[3], `${path}[3]`);
+
+  return {
+    users: users.map((entry, i) => {
+      const row = shape.array(entry, `${path}[0][${i}]`);
+      return {
+        email: shape.string(row[0], `${path}[0][${i}][0]`),
+        role: shape.number(row[1], `${path}[0][${i}][1]`),
+      };
+    }),
+    isPublic: visibility?.[0] === true,
+    shareUrl: link ? shape.optionalString(link[0], `${path}[3][0]`) : undefined,
+    shareId: link ? shape.optionalString(link[1], `${path}[3][1]`) : undefined,
+    raw: root,
+  };
+}
+
+/**
+ * Generated text: `[text]` or `[[text, ...]]`
+ */
+function decodeText(shape: ResponseShape, value: unknown): string {
+  const root = shape.array(value, '$');
+  if (Array.isArray(root[0])) {
+    return shape.string(root[0][0], '$[0][0]');
+  }
+  return shape.string(root[0], '$[0]');
+}
+
+const TIER_PLANS: Record<number, NotebookLMPlan> = {
+  [AccountTier.STANDARD]: 'standard',
+  [AccountTier.PLUS]: 'plus',
+  [AccountTier.PRO]: 'pro',
+  [AccountTier.ULTRA]: 'ultra',
+};
+
+/**
+ * Account: `[email, [[null, null, null, null, [language]]], tier, displayName]`
+ * (optionally wrapped in an outer array)
+ */
+function decodeAccount(shape: ResponseShape, value: unknown): Account {
+  const root = shape.array(value, '$');
+  const nested = Array.isArray(root[0]);
+  const account = nested ? root[0] : root;
+  const path = nested ? '$[0]' : '$';
+
+  const settings = shape.optionalArray(account[1], `${path}[1]`);
+  const preferences = settings ? shape.optionalArray(settings[0], `${path}[1][0]`) : null;
+  const language = preferences ? shape.optionalArray(preferences[4], `${path}[1][0][4]`) : null;
+  const tier = shape.optionalNumber(account[2], `${path}[2]`) ?? AccountTier.UNSPECIFIED;
+
+  return {
+    email: shape.optionalString(account[0], `${path}[0]`),
+    displayName: shape.optionalString(account[3], `${path}[3]`),
+    plan: TIER_PLANS[tier] ?? 'standard',
+    tier,
+    language: language ? shape.optionalString(language[0], `${path}[1][0][4][0]`) : undefined,
+  };
+}
+
+// ========================================================================
+// Params
+// ========================================================================
+
+export interface NotebookParams {
+  notebookId: string;
+}
+
+export interface SourceParams {
+  sourceId: string;
+}
+
+export interface ArtifactParams {
+  artifactId: string;
+}
+
+export interface GuidebookParams {
+  guidebookId: string;
+}
+
+/** Pre-built positional args for RPCs whose payload is assembled by the calling service */
+export interface RawArgsParams {
+  args: any[];
+}
+
+// ========================================================================
+// Codecs
+// ========================================================================
+
+const listMyNotebooks = codec(
+  RPC.RPC_LIST_MY_NOTEBOOKS,
+  (_params: Record<string, never> = {}) => [null, 1, null, [2]],
+  (shape, value): ProjectRecord[] => {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    const root = shape.array(value, '$');
+    // Empty account: [null, [1, 100, 50, 500000]]
+    const projects = shape.optionalArray(root[0], '$[0]') ?? [];
+    return projects.map((project, i) => decodeProject(shape, project, `$[0][${i}]`));
+  }
+);
+
+/**
+ * Project response: usually wrapped, `[[title, sources, projectId, ...]]`
+ */
+function decodeProjectResponse(shape: ResponseShape, value: unknown): ProjectRecord {
+  const root = shape.array(value, '$');
+  return Array.isArray(root[0])
+    ? decodeProject(shape, root[0], '$[0]')
+    : decodeProject(shape, root, '$');
+}
+
+const getProject = codec(
+  RPC.RPC_GET_PROJECT,
+  (params: NotebookParams & { includeStatus?: boolean }) =>
+    [params.notebookId, null, [2], null, params.includeStatus ? 1 : 0],
+  decodeProjectResponse
+);
+
+const createProject = codec(
+  RPC.RPC_CREATE_PROJECT,
+  (params: { title: string }) =>
+    [params.title, null, null, [2], [1, null, null, null, null, null, null, null, null, [1]]],
+  (shape, value): ProjectRecord => decodeProject(shape, value, '$')
+);
+
+const updateProject = codec(
+  RPC.RPC_UPDATE_PROJECT,
+  (params: NotebookParams & { title?: string; emoji?: string }) => {
+    const fields: any[] = [null, params.title ?? null];
+    if (params.emoji !== undefined) {
+      fields.push(params.emoji);
+    }
+    return [params.notebookId, [[null, null, null, fields]]];
+  },
+  // The updated project
+  decodeProjectResponse
+);
+
+const setChatConfig = codec(
+  RPC.RPC_SET_CHAT_CONFIG,
+  (params: NotebookParams & { config: any[] }) =>
+    [params.notebookId, [[null, null, null, null, null, null, null, params.config]]],
+  json
+);
+
+const deleteProjects = codec(
+  RPC.RPC_DELETE_PROJECTS,
+  (params: { notebookIds: string[] }) => [params.notebookIds, [2]],
+  ignore
+);
+
+const addSources = codec(
+  RPC.RPC_ADD_SOURCES,
+  (params: NotebookParams & { sources: any[][] }) => [params.sources, params.notebookId],
+  (shape, value): SourceRecord[] => {
+    const root = shape.array(value, '$');
+    const rows = shape.array(root[0], '$[0]');
+    return rows.map((row, i) => decodeSource(shape, row, `$[0][${i}]`));
+  }
+);
+
+const deleteSources = codec(
+  RPC.RPC_DELETE_SOURCES,
+  (params: { sourceIds: string[] }) => [params.sourceIds.map(id => [id]), [2]],
+  ignore
+);
+
+const mutateSource = codec(
+  RPC.RPC_MUTATE_SOURCE,
+  (params: SourceParams & { title: string }) => [null, [params.sourceId], [[[params.title]]]],
+  json
+);
+
+const checkSourceFreshness = codec(
+  RPC.RPC_CHECK_SOURCE_FRESHNESS,
+  (params: SourceParams) => [params.sourceId],
+  (shape, value): SourceFreshness => {
+    // [[isFresh, lastCheckedMs?]]
+    const root = shape.array(value, '$');
+    const nested = Array.isArray(root[0]);
+    const entry = nested ? root[0] : root;
+    const path = nested ? '$[0]' : '$';
+    if (typeof entry[0] !== 'boolean') {
+      shape.fail(`${path}[0]`, 'boolean', entry[0]);
+    }
+    const lastChecked = shape.optionalNumber(entry[1], `${path}[1]`);
+    return {
+      isFresh: entry[0],
+      lastChecked: lastChecked !== undefined ? new Date(lastChecked) : undefined,
+    };
+  }
+);
+
+const notebookOnly = <R>(rpcId: string, decode: (shape: ResponseShape, value: unknown) => R) =>
+  codec(rpcId, (params: NotebookParams) => [params.notebookId], decode);
+
+const guidebookOnly = <R>(rpcId: string, decode: (shape: ResponseShape, value: unknown) => R) =>
+  codec(rpcId, (params: GuidebookParams) => [params.guidebookId], decode);
+
+const rawArgs = <R>(rpcId: string, decode: (shape: ResponseShape, value: unknown) => R) =>
+  codec(rpcId, (params: RawArgsParams) => params.args, decode);
+
+const getNotes = codec(
+  RPC.RPC_GET_NOTES,
+  (params: NotebookParams) => [params.notebookId],
+  (shape, value): NoteRecord[] => {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    const root = shape.array(value, '$');
+    const rows = shape.optionalArray(root[0], '$[0]') ?? [];
+    return rows.map((row, i) => {
+      const path = `$[0][${i}]`;
+      const entry = shape.array(row, path);
+      return {
+        noteId: shape.string(entry[0], `${path}[0]`),
+        details: shape.optionalArray(entry[1], `${path}[1]`) ?? [],
+        raw: entry,
+      };
+    });
+  }
+);
+
+const createNote = codec(
+  RPC.RPC_CREATE_NOTE,
+  (params: NotebookParams & { content: string; noteType: number[]; title: string }) =>
+    [params.notebookId, params.content, params.noteType, null, params.title],
+  json
+);
+
+const mutateNote = codec(
+  RPC.RPC_MUTATE_NOTE,
+  (params: NotebookParams & { noteId: string; content: string; title: string; tags: string[] }) =>
+    [params.notebookId, params.noteId, [[[params.content, params.title, params.tags, 0]]]],
+  json
+);
+
+const deleteNotes = codec(
+  RPC.RPC_DELETE_NOTES,
+  (params: NotebookParams & { noteIds: string[] }) => [params.notebookId, null, params.noteIds],
+  ignore
+);
+
+const listArtifacts = codec(
+  RPC.RPC_LIST_ARTIFACTS,
+  (params: NotebookParams) => [[2], params.notebookId],
+  (shape, value): ArtifactRecord[] => {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    const root = shape.array(value, '$');
+    const rows = shape.optionalArray(root[0], '$[0]') ?? [];
+    return rows.map((row, i) => decodeArtifact(shape, row, `$[0][${i}]`));
+  }
+);
+
+const listGuidebooks = codec(
+  RPC.RPC_LIST_RECENTLY_VIEWED_GUIDEBOOKS,
+  (_params: Record<string, never> = {}) => [],
+  (shape, value): Guidebook[] => {
+    if (value === null || value === undefined) {
+      return [];
+    }
+    const root = shape.array(value, '$');
+    const rows = shape.optionalArray(root[0], '$[0]') ?? [];
+    return rows.map((row, i) => decodeGuidebook(shape, row, `$[0][${i}]`));
+  }
+);
+
+const getGuidebookDetails = codec(
+  RPC.RPC_GET_GUIDEBOOK_DETAILS,
+  (params: GuidebookParams) => [params.guidebookId],
+  (shape, value): GuidebookDetails => {
+    // [guidebook, [sections...], analytics]
+    const root = shape.array(value, '$');
+    const sections = shape.optionalArray(root[1], '$[1]') ?? [];
+    return {
+      ...decodeGuidebook(shape, root[0], '$[0]'),
+      sections: sections.map((section, i) => decodeGuidebookSection(shape, section, `$[1][${i}]`)),
+    };
+  }
+);
+
+const publishGuidebook = codec(
+  RPC.RPC_PUBLISH_GUIDEBOOK,
+  (params: GuidebookParams & PublishGuidebookOptions) =>
+    [params.guidebookId, [params.isPublic ?? true, params.tags ?? []]],
+  (shape, value): PublishGuidebookResult => {
+    // [guidebook, publicUrl]
+    const root = shape.array(value, '$');
+    return {
+      guidebook: decodeGuidebook(shape, root[0], '$[0]'),
+      publicUrl: shape.optionalString(root[1], '$[1]'),
+    };
+  }
+);
+
+const shareGuidebook = codec(
+  RPC.RPC_SHARE_GUIDEBOOK,
+  (params: GuidebookParams & ShareGuidebookOptions) => [
+    params.guidebookId,
+    [params.isPublic ?? false, params.emails ?? [], params.allowComments ?? false, params.allowDownloads ?? false],
+  ],
+  (shape, value): ShareGuidebookResult => {
+    // [shareUrl, shareId]
+    if (value === null || value === undefined) {
+      return {};
+    }
+    const root = shape.array(value, '$');
+    return {
+      shareUrl: shape.optionalString(root[0], '$[0]'),
+      shareId: shape.optionalString(root[1], '$[1]'),
+    };
+  }
+);
+
+const guidebookGenerateAnswer = codec(
+  RPC.RPC_GUIDEBOOK_GENERATE_ANSWER,
+  (params: GuidebookParams & AskGuidebookOptions & { question: string }) =>
+    [params.guidebookId, params.question, [params.maxLength ?? null, params.includeSources ?? true]],
+  (shape, value): GuidebookAnswer => {
+    // [answer, [[sourceId, title]...], confidence]
+    const root = shape.array(value, '$');
+    const sources = shape.optionalArray(root[1], '$[1]') ?? [];
+    return {
+      answer: shape.string(root[0], '$[0]'),
+      sources: sources.map((source, i) => {
+        const row = shape.array(source, `$[1][${i}]`);
+        return {
+          sourceId: shape.string(row[0], `$[1][${i}][0]`),
+          title: shape.optionalString(row[1], `$[1][${i}][1]`),
+        };
+      }),
+      confidence: shape.optionalNumber(root[2], '$[2]'),
+    };
+  }
+);
+
+const generateNotebookGuide = codec(
+  RPC.RPC_GENERATE_NOTEBOOK_GUIDE,
+  (params: NotebookParams) => [params.notebookId, [2]],
+  (shape, value): NotebookGuide => {
+    // [[[summary], [[[question, prompt], ...]]]]
+    const root = shape.array(value, '$');
+    const guide = shape.array(root[0], '$[0]');
+    const summary = shape.array(guide[0], '$[0][0]');
+    const topics = shape.optionalArray(guide[1], '$[0][1]');
+    const questions = topics ? shape.optionalArray(topics[0], '$[0][1][0]') ?? [] : [];
+
+    return {
+      summary: shape.string(summary[0], '$[0][0][0]'),
+      suggestedQuestions: questions.map((entry, i) => {
+        const path = `$[0][1][0][${i}]`;
+        const row = shape.array(entry, path);
+        const question = shape.string(row[0], `${path}[0]`);
+        return {
+          question,
+          prompt: shape.optionalString(row[1], `${path}[1]`) ?? question,
+        };
+      }),
+    };
+  }
+);
+
+const generateReportSuggestions = codec(
+  RPC.RPC_GENERATE_REPORT_SUGGESTIONS,
+  (params: NotebookParams & { sourceIds: string[] }) =>
+    [[2], params.notebookId, params.sourceIds.map(id => [[id]])],
+  (shape, value): ReportSuggestion[] => {
+    // [[[title, description, null, null, prompt, ...], ...]]
+    if (value === null || value === undefined) {
+      return [];
+    }
+    const root = shape.array(value, '$');
+    const rows = shape.optionalArray(root[0], '$[0]') ?? [];
+    return rows.map((entry, i) => {
+      const path = `$[0][${i}]`;
+      const row = shape.array(entry, path);
+      return {
+        title: shape.string(row[0], `${path}[0]`),
+        description: shape.optionalString(row[1], `${path}[1]`) ?? '',
+        prompt: shape.optionalString(row[4], `${path}[4]`) ?? '',
+      };
+    });
+  }
+);
+
+const sectionCodec = (rpcId: string) => codec(
+  rpcId,
+  (params: NotebookParams & { title: string }) => [params.notebookId, params.title],
+  decodeText
+);
+
+const updateArtifact = codec(
+  RPC.RPC_UPDATE_ARTIFACT,
+  (params: NotebookParams & { artifact: any[]; updateMask: string[]; regenerate?: boolean }) =>
+    [[2], params.notebookId, params.artifact, [params.updateMask], params.regenerate ? [1] : null],
+  (shape, value): { artifact: ArtifactRecord; regenerationQueued?: boolean } => {
+    // [artifact, regenerationQueued?]
+    const root = shape.array(value, '$');
+    return {
+      artifact: decodeArtifact(shape, root[0], '$[0]'),
+      regenerationQueued: typeof root[1] === 'boolean' ? root[1] : undefined,
+    };
+  }
+);
+
+const artifactResult = (shape: ResponseShape, value: unknown): ArtifactRecord => {
+  const root = shape.array(value, '$');
+  return decodeArtifact(shape, root, '$');
+};
+
+/**
+ * Codec for every RPC constant in rpc-methods.ts, keyed by constant name
+ *
+ * @example
+ * ```typescript
+ * import { RPCCodecs } from 'notebooklm-kit';
+ *
+ * const rpc = await sdk.getRPCClient();
+ * const project = await rpc.callCodec(RPCCodecs.RPC_GET_PROJECT, { notebookId }, notebookId);
+ * console.log(project.title, project.sources.length);
+ * ```
+ */
+export const RPCCodecs = {
+  // Project/Notebook operations
+  RPC_LIST_MY_NOTEBOOKS: listMyNotebooks,
+  RPC_LIST_PROJECTS: rawArgs(RPC.RPC_LIST_PROJECTS, json),
+  RPC_CREATE_PROJECT: createProject,
+  RPC_GET_PROJECT: getProject,
+  RPC_POLL_SOURCE_PROCESSING: codec(
+    RPC.RPC_POLL_SOURCE_PROCESSING,
+    (params: NotebookParams) => getProject.encode({ ...params, includeStatus: true }),
+    (shape, value) => getProject.decode(value)
+  ),
+  RPC_DELETE_PROJECTS: deleteProjects,
+  RPC_UPDATE_PROJECT: updateProject,
+
+  // Source operations
+  RPC_ADD_SOURCES: addSources,
+  RPC_DELETE_SOURCES: deleteSources,
+  RPC_MUTATE_SOURCE: mutateSource,
+  RPC_REFRESH_SOURCE: codec(
+    RPC.RPC_REFRESH_SOURCE,
+    (params: SourceParams) => [null, [params.sourceId], [2]],
+    ignore
+  ),
+  RPC_LOAD_SOURCE: codec(
+    RPC.RPC_LOAD_SOURCE,
+    (params: SourceParams) => [[params.sourceId], [2], [2]],
+    json
+  ),
+  RPC_CHECK_SOURCE_FRESHNESS: checkSourceFreshness,
+  RPC_ACT_ON_SOURCES: rawArgs(RPC.RPC_ACT_ON_SOURCES, json),
+  RPC_DISCOVER_SOURCES: codec(
+    RPC.RPC_DISCOVER_SOURCES,
+    (params: NotebookParams & { query: string }) => [params.notebookId, params.query],
+    json
+  ),
+
+  // Source discovery/research operations
+  RPC_SEARCH_WEB_SOURCES: codec(
+    RPC.RPC_SEARCH_WEB_SOURCES,
+    (params: NotebookParams & { query: string; sourceType: number; mode: number }) =>
+      [[params.query, params.sourceType], null, params.mode, params.notebookId],
+    json
+  ),
+  RPC_GET_SEARCH_RESULTS: codec(
+    RPC.RPC_GET_SEARCH_RESULTS,
+    (params: NotebookParams) => [null, null, params.notebookId],
+    json
+  ),
+  RPC_ADD_DISCOVERED_SOURCES: codec(
+    RPC.RPC_ADD_DISCOVERED_SOURCES,
+    (params: NotebookParams & { sessionId: string; sources: any[][] }) =>
+      [null, [1], params.sessionId, params.notebookId, params.sources],
+    json
+  ),
+  RPC_ADD_DEEP_RESEARCH_REPORT: codec(
+    RPC.RPC_ADD_DEEP_RESEARCH_REPORT,
+    (params: NotebookParams & { query: string }) => [params.notebookId, params.query],
+    json
+  ),
+  RPC_LOAD_SOURCE_CONTENT: codec(
+    RPC.RPC_LOAD_SOURCE_CONTENT,
+    (params: SourceParams) => [[[[params.sourceId]]]],
+    json
+  ),
+
+  // Note operations
+  RPC_CREATE_NOTE: createNote,
+  RPC_MUTATE_NOTE: mutateNote,
+  RPC_DELETE_NOTES: deleteNotes,
+  RPC_GET_NOTES: getNotes,
+
+  // Audio operations
+  RPC_CREATE_AUDIO_OVERVIEW: codec(
+    RPC.RPC_CREATE_AUDIO_OVERVIEW,
+    (params: NotebookParams & { audioType: number; instructions: string }) =>
+      [params.notebookId, params.audioType, [params.instructions]],
+    json
+  ),
+  RPC_GET_AUDIO_OVERVIEW: codec(
+    RPC.RPC_GET_AUDIO_OVERVIEW,
+    (params: NotebookParams & { requestType?: number }) => [params.notebookId, params.requestType ?? 1],
+    json
+  ),
+  RPC_DELETE_AUDIO_OVERVIEW: codec(
+    RPC.RPC_DELETE_AUDIO_OVERVIEW,
+    (params: ArtifactParams) => [[2], params.artifactId],
+    ignore
+  ),
+  RPC_GET_AUDIO_DOWNLOAD: codec(
+    RPC.RPC_GET_AUDIO_DOWNLOAD,
+    (params: { audioId: string }) => [
+      [null, null, null, [1, null, null, null, null, null, null, null, null, null, [1]]],
+      params.audioId,
+      [[[0, 1000]]],
+    ],
+    json
+  ),
+
+  // Video/report operations (R7cb6c payload is assembled by ArtifactsService)
+  RPC_CREATE_VIDEO_OVERVIEW: codec(
+    RPC.RPC_CREATE_VIDEO_OVERVIEW,
+    (params: NotebookParams & { options: any[] }) => [[2], params.notebookId, params.options],
+    artifactResult
+  ),
+  RPC_CREATE_REPORT: codec(
+    RPC.RPC_CREATE_REPORT,
+    (params: NotebookParams & { options: any[] }) => [[2], params.notebookId, params.options],
+    artifactResult
+  ),
+  RPC_EXPORT_REPORT: codec(
+    RPC.RPC_EXPORT_REPORT,
+    (params: { reportId: string; title: string; exportType: number }) =>
+      [null, params.reportId, null, params.title, params.exportType],
+    json
+  ),
+
+  // Generation operations
+  RPC_GENERATE_NOTEBOOK_GUIDE: generateNotebookGuide,
+  RPC_GENERATE_OUTLINE: notebookOnly(RPC.RPC_GENERATE_OUTLINE, decodeText),
+  RPC_GENERATE_SECTION: sectionCodec(RPC.RPC_GENERATE_SECTION),
+  RPC_START_DRAFT: notebookOnly(RPC.RPC_START_DRAFT, decodeText),
+  RPC_START_SECTION: sectionCodec(RPC.RPC_START_SECTION),
+  RPC_GENERATE_FREE_FORM_STREAMED: codec(
+    RPC.RPC_GENERATE_FREE_FORM_STREAMED,
+    (params: NotebookParams & { prompt: string; sourceIds: string[] }) =>
+      [params.sourceIds.map(id => [[id]]), params.prompt, null, [2, null, [1]], params.notebookId],
+    json
+  ),
+  RPC_SET_CHAT_CONFIG: setChatConfig,
+  RPC_GENERATE_REPORT_SUGGESTIONS: generateReportSuggestions,
+
+  // Account operations
+  RPC_GET_OR_CREATE_ACCOUNT: codec(
+    RPC.RPC_GET_OR_CREATE_ACCOUNT,
+    (_params: Record<string, never> = {}) => [],
+    decodeAccount
+  ),
+  RPC_MUTATE_ACCOUNT: codec(
+    RPC.RPC_MUTATE_ACCOUNT,
+    (params: UpdateAccountOptions) => [[null, [[null, null, null, null, [params.language ?? null]]]]],
+    (shape, value): Account | null => {
+      // Mutations may echo the updated account or return an empty body
+      if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+        return null;
+      }
+      return decodeAccount(shape, value);
+    }
+  ),
+
+  // Sharing operations
+  RPC_SHARE_AUDIO: codec(
+    RPC.RPC_SHARE_AUDIO,
+    (params: NotebookParams & { shareOptions: number[]; audioId?: string }) =>
+      params.audioId ? [params.shareOptions, params.notebookId, params.audioId] : [params.shareOptions, params.notebookId],
+    (shape, value): { shareUrl?: string; shareId?: string } => {
+      // [[shareUrl, shareId]] - empty when sharing is turned off
+      if (value === null || value === undefined) {
+        return {};
+      }
+      const root = shape.array(value, '$');
+      const nested = Array.isArray(root[0]);
+      const link = nested ? root[0] : root;
+      const path = nested ? '$[0]' : '$';
+      return {
+        shareUrl: shape.optionalString(link[0], `${path}[0]`),
+        shareId: shape.optionalString(link[1], `${path}[1]`),
+      };
+    }
+  ),
+  RPC_GET_SHARING_DETAILS: codec(
+    RPC.RPC_GET_SHARING_DETAILS,
+    (params: NotebookParams & { artifactId?: string }) =>
+      params.artifactId ? [params.notebookId, [2], params.artifactId] : [params.notebookId, [2]],
+    decodeSharing
+  ),
+  RPC_SHARE_PROJECT: rawArgs(RPC.RPC_SHARE_PROJECT, json),
+
+  // Guidebook operations
+  RPC_DELETE_GUIDEBOOK: guidebookOnly(RPC.RPC_DELETE_GUIDEBOOK, ignore),
+  RPC_GET_GUIDEBOOK: guidebookOnly(RPC.RPC_GET_GUIDEBOOK, (shape, value) => decodeGuidebook(shape, value, '$')),
+  RPC_LIST_RECENTLY_VIEWED_GUIDEBOOKS: listGuidebooks,
+  RPC_PUBLISH_GUIDEBOOK: publishGuidebook,
+  RPC_GET_GUIDEBOOK_DETAILS: getGuidebookDetails,
+  RPC_SHARE_GUIDEBOOK: shareGuidebook,
+  RPC_GUIDEBOOK_GENERATE_ANSWER: guidebookGenerateAnswer,
+
+  // Artifact operations
+  RPC_CREATE_ARTIFACT: rawArgs(RPC.RPC_CREATE_ARTIFACT, artifactResult),
+  RPC_GET_ARTIFACT: codec(RPC.RPC_GET_ARTIFACT, (params: ArtifactParams) => [params.artifactId], artifactResult),
+  RPC_GET_QUIZ_DATA: codec(RPC.RPC_GET_QUIZ_DATA, (params: ArtifactParams) => [params.artifactId], json),
+  RPC_UPDATE_ARTIFACT: updateArtifact,
+  RPC_RENAME_ARTIFACT: codec(
+    RPC.RPC_RENAME_ARTIFACT,
+    (params: ArtifactParams & { title: string }) => [[params.artifactId, params.title], [['title']]],
+    artifactResult
+  ),
+  RPC_DELETE_ARTIFACT: codec(RPC.RPC_DELETE_ARTIFACT, (params: ArtifactParams) => [params.artifactId], ignore),
+  RPC_LIST_ARTIFACTS: listArtifacts,
+  RPC_REPORT_CONTENT: codec(RPC.RPC_REPORT_CONTENT, (params: ArtifactParams) => [params.artifactId], json),
+
+  // Unknown/unimplemented
+  RPC_UPLOAD_FILE_BY_FILENAME: codec(
+    RPC.RPC_UPLOAD_FILE_BY_FILENAME,
+    (params: NotebookParams & { fileName: string }) => [
+      [[params.fileName, 13]],
+      params.notebookId,
+      [2],
+      [1, null, null, null, null, null, null, null, null, null, [1]],
+    ],
+    json
+  ),
+  RPC_UNKNOWN_POST_SLIDE_DECK: rawArgs(RPC.RPC_UNKNOWN_POST_SLIDE_DECK, json),
+} satisfies Record<RPCMethodName, RPCCodec<any, any>>;
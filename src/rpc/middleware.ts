@@ -0,0 +1,183 @@
+/**
+ * RPC middleware
+ * Hooks that run around every RPC call and streaming chat chunk - for auditing,
+ * redaction, caching and fault injection without touching the services
+ */
+
+import type { RPCCall } from '../types/common.js';
+import { NotebookLMAbortError } from '../types/common.js';
+
+/**
+ * Use this data instead of sending the call (from onRequest) or instead of the error (from onError)
+ */
+export interface MiddlewareResponse {
+  response: any;
+}
+
+/**
+ * Send the call again (from onError), optionally rewritten
+ */
+export interface MiddlewareRetry {
+  retry: true;
+  call?: RPCCall;
+}
+
+/**
+ * Extra information passed to onError
+ */
+export interface MiddlewareErrorContext {
+  /** 1 for the first failure of this call, 2 after one retry, ... */
+  attempt: number;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Request/response interceptor
+ *
+ * Hooks run in registration order. Every hook is optional:
+ * - `onRequest`: Return a rewritten call to send instead, or `{ response }` to skip the network
+ * - `onResponse`: Return a value to replace the response data (`undefined` keeps it)
+ * - `onError`: Return `{ retry: true }` to send again, `{ response }` to recover, throw to
+ *   replace the error, or nothing to pass it on. Cancellations (NotebookLMAbortError) skip onError.
+ *
+ * Streaming chat goes through the same hooks as a call with id `RPC_GENERATE_FREE_FORM_STREAMED`
+ * whose args are the inner chat request (`[contextItems, prompt, null, [2, null, [1]], notebookId]`).
+ * `onResponse` then runs once per chunk and may return `null` to drop it; a short-circuit
+ * `response` must be an array of chunks. Retries only happen before the first chunk is yielded.
+ *
+ * @example
+ * ```typescript
+ * const audit: RPCMiddleware = {
+ *   onRequest: (call) => console.log('→', call.id, call.notebookId),
+ *   onError: (call, error, { attempt }) => {
+ *     if (attempt < 3 && error instanceof NotebookLMNetworkError) {
+ *       return { retry: true };
+ *     }
+ *   },
+ * };
+ *
+ * const sdk = new NotebookLMClient({ middleware: [audit] });
+ * ```
+ */
+export interface RPCMiddleware {
+  onRequest?(call: RPCCall): MaybePromise<RPCCall | MiddlewareResponse | void>;
+  onResponse?(call: RPCCall, data: any): MaybePromise<any>;
+  onError?(call: RPCCall, error: unknown, context: MiddlewareErrorContext): MaybePromise<MiddlewareRetry | MiddlewareResponse | void>;
+}
+
+/**
+ * Ordered list of middleware shared by the RPC and streaming clients
+ */
+export class MiddlewareChain {
+  private middleware: RPCMiddleware[];
+
+  constructor(middleware: RPCMiddleware[] = []) {
+    this.middleware = [...middleware];
+  }
+
+  /**
+   * Append a middleware (runs after the ones already registered)
+   */
+  use(middleware: RPCMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Number of registered middleware
+   */
+  get size(): number {
+    return this.middleware.length;
+  }
+
+  /**
+   * Run onRequest hooks
+   * Stops at the first hook that short-circuits with `{ response }`.
+   */
+  async request(call: RPCCall): Promise<{ call: RPCCall; response?: MiddlewareResponse }> {
+    let current = call;
+    for (const middleware of this.middleware) {
+      const result = await middleware.onRequest?.(current);
+      if (!result) {
+        continue;
+      }
+      if (isResponse(result)) {
+        return { call: current, response: result };
+      }
+      current = result;
+    }
+    return { call: current };
+  }
+
+  /**
+   * Run onResponse hooks and return the (possibly replaced) data
+   */
+  async response(call: RPCCall, data: any): Promise<any> {
+    let current = data;
+    for (const middleware of this.middleware) {
+      if (!middleware.onResponse) {
+        continue;
+      }
+      const result = await middleware.onResponse(call, current);
+      if (result !== undefined) {
+        current = result;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Run onError hooks until one retries or recovers
+   */
+  async error(call: RPCCall, error: unknown, attempt: number): Promise<MiddlewareRetry | MiddlewareResponse | undefined> {
+    for (const middleware of this.middleware) {
+      const result = await middleware.onError?.(call, error, { attempt });
+      if (result) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Run a call through the whole chain
+   *
+   * @param call - Call to send
+   * @param send - Sends a call and resolves with its response data
+   */
+  async run(call: RPCCall, send: (call: RPCCall) => Promise<any>): Promise<any> {
+    if (this.middleware.length === 0) {
+      return send(call);
+    }
+
+    const { call: rewritten, response } = await this.request(call);
+    if (response) {
+      return this.response(rewritten, response.response);
+    }
+
+    let current = rewritten;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.response(current, await send(current));
+      } catch (error) {
+        if (error instanceof NotebookLMAbortError) {
+          throw error;
+        }
+
+        const outcome = await this.error(current, error, attempt);
+        if (outcome && isResponse(outcome)) {
+          return this.response(current, outcome.response);
+        }
+        if (outcome?.retry) {
+          current = outcome.call ?? current;
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+function isResponse(value: unknown): value is MiddlewareResponse {
+  return typeof value === 'object' && value !== null && 'response' in value;
+}
@@ -0,0 +1,259 @@
+/**
+ * Client-side rate limiting
+ * Concurrency caps, a token-bucket request budget and priority lanes shared by every
+ * batchexecute and streaming request of a client
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { toAbortError } from '../utils/abort.js';
+
+/**
+ * Request priority lane
+ * `interactive` requests (chat) start before `normal` ones, which start before `bulk` ones
+ * (batch source imports, parallel deletes).
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'bulk';
+
+const LANES: RequestPriority[] = ['interactive', 'normal', 'bulk'];
+
+/**
+ * Rate limiting options
+ */
+export interface RateLimitOptions {
+  /** Maximum requests in flight across the client (default: unlimited) */
+  maxConcurrent?: number;
+  /** Maximum requests in flight per RPC id, e.g. `{ izAoDd: 2 }` (default: unlimited) */
+  perRpc?: Record<string, number>;
+  /** Sustained request budget - the token bucket refills at this rate (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Requests allowed in a burst - the bucket size (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /** How long to hold new requests after a 429 / RESOURCE_EXHAUSTED without Retry-After (ms) (default: 2000) */
+  throttleBackoffMs?: number;
+}
+
+interface Waiter {
+  rpcIds: string[];
+  priority: RequestPriority;
+  start: () => void;
+}
+
+const priorityScope = new AsyncLocalStorage<RequestPriority>();
+
+/**
+ * Priority of the enclosing `withPriority` scope, if any
+ */
+export function currentPriority(): RequestPriority | undefined {
+  return priorityScope.getStore();
+}
+
+/**
+ * Run `fn` with every request it makes in the given priority lane
+ *
+ * @example
+ * ```typescript
+ * // Nightly import - let live chats go first
+ * await withPriority('bulk', () => sdk.sources.addBatch(notebookId, { sources }));
+ * ```
+ */
+export function withPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityScope.run(priority, fn);
+}
+
+/**
+ * Run `fn` in the given lane unless the caller already chose one
+ */
+export function withDefaultPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  return currentPriority() ? fn() : withPriority(priority, fn);
+}
+
+/**
+ * Pick the most urgent priority of a batch
+ */
+export function highestPriority(priorities: Array<RequestPriority | undefined>): RequestPriority {
+  return LANES.find(lane => priorities.includes(lane)) ?? 'normal';
+}
+
+/**
+ * Concurrency limiter and token bucket shared by a client's requests
+ *
+ * Every HTTP request (each retry attempt included) waits for a free slot: below the
+ * global and per-RPC concurrency caps, a token in the bucket, and no throttle pause.
+ * Waiting requests start in lane order, so queued chat requests overtake queued bulk
+ * ones. A 429 or RESOURCE_EXHAUSTED response calls `throttle()`, which holds all new
+ * requests for the server's Retry-After (or `throttleBackoffMs`).
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({
+ *   rateLimit: {
+ *     maxConcurrent: 6,
+ *     perRpc: { [RPCMethods.RPC_ADD_SOURCES]: 2 },
+ *     requestsPerSecond: 5,
+ *   },
+ * });
+ * ```
+ */
+export class RateLimiter {
+  private lanes: Record<RequestPriority, Waiter[]> = { interactive: [], normal: [], bulk: [] };
+  private inFlight = 0;
+  private inFlightByRpc = new Map<string, number>();
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private maxConcurrent: number;
+  private perRpc: Record<string, number>;
+  private rate: number;
+  private burst: number;
+  private throttleBackoffMs: number;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent && options.maxConcurrent > 0 ? options.maxConcurrent : Infinity;
+    this.perRpc = { ...options.perRpc };
+    this.rate = options.requestsPerSecond && options.requestsPerSecond > 0 ? options.requestsPerSecond : Infinity;
+    this.burst = Math.max(1, options.burst ?? (Number.isFinite(this.rate) ? this.rate : 1));
+    this.tokens = this.burst;
+    this.throttleBackoffMs = Math.max(0, options.throttleBackoffMs ?? 2000);
+  }
+
+  /**
+   * Wait for a slot; resolves with a function that frees it
+   *
+   * @param rpcIds - RPC ids sent in the request (each counts against its per-RPC cap)
+   * @param priority - Lane to wait in (default: 'normal')
+   * @param signal - Stops waiting (rejects with NotebookLMAbortError)
+   */
+  acquire(rpcIds: string[], priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const lane = this.lanes[priority];
+      const onAbort = () => {
+        this.lanes[priority] = this.lanes[priority].filter(w => w !== waiter);
+        reject(toAbortError(signal!));
+      };
+      const waiter: Waiter = {
+        rpcIds,
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(this.take(rpcIds));
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Hold new requests after the server pushed back
+   *
+   * @param delayMs - Pause length (default: `throttleBackoffMs`)
+   */
+  throttle(delayMs?: number): void {
+    const until = Date.now() + Math.max(0, delayMs ?? this.throttleBackoffMs);
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+    this.tokens = 0;
+    this.lastRefill = Date.now();
+    this.pump();
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get pending(): number {
+    return LANES.reduce((total, lane) => total + this.lanes[lane].length, 0);
+  }
+
+  /**
+   * Number of requests holding a slot
+   */
+  get active(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Per-RPC concurrency cap of an RPC id (undefined when it has none)
+   * A request carrying the id more often than this can never start, so batches are split to fit.
+   */
+  rpcLimit(rpcId: string): number | undefined {
+    return this.perRpc[rpcId];
+  }
+
+  private take(rpcIds: string[]): () => void {
+    this.inFlight++;
+    this.tokens -= 1;
+    rpcIds.forEach(id => this.inFlightByRpc.set(id, (this.inFlightByRpc.get(id) ?? 0) + 1));
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.inFlight--;
+      rpcIds.forEach(id => this.inFlightByRpc.set(id, (this.inFlightByRpc.get(id) ?? 1) - 1));
+      this.pump();
+    };
+  }
+
+  /**
+   * Start every waiter that fits, most urgent lane first
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    for (const priority of LANES) {
+      for (const waiter of [...this.lanes[priority]]) {
+        const wait = this.waitTime();
+        if (wait > 0) {
+          this.timer = setTimeout(() => this.pump(), wait);
+          return;
+        }
+        if (this.inFlight >= this.maxConcurrent) {
+          return;
+        }
+        // Only this RPC id is saturated - later waiters for other RPCs may still start
+        if (!this.rpcSlotsFree(waiter.rpcIds)) {
+          continue;
+        }
+        this.lanes[priority] = this.lanes[priority].filter(w => w !== waiter);
+        waiter.start();
+      }
+    }
+  }
+
+  /**
+   * Time until the next request may start (throttle pause or token refill), 0 if now
+   */
+  private waitTime(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (!Number.isFinite(this.rate)) {
+      return 0;
+    }
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) * this.rate) / 1000);
+    this.lastRefill = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 1000) / this.rate);
+  }
+
+  private rpcSlotsFree(rpcIds: string[]): boolean {
+    // A batch carrying an id several times takes one slot per occurrence
+    const counts = new Map<string, number>();
+    rpcIds.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+    return [...counts].every(([id, count]) => {
+      const cap = this.perRpc[id];
+      return cap === undefined || (this.inFlightByRpc.get(id) ?? 0) + count <= cap;
+    });
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Response cache
+ * Keeps the results of read RPCs for a TTL and drops a notebook's entries when the same
+ * client changes that notebook
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RPCCall } from '../types/common.js';
+import type { Span } from '../utils/tracing.js';
+import * as RPC from './rpc-methods.js';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Read RPCs whose responses are cached
+ */
+export const CACHEABLE_RPCS: readonly string[] = [
+  RPC.RPC_LIST_MY_NOTEBOOKS,
+  RPC.RPC_GET_PROJECT,
+  RPC.RPC_GET_NOTES,
+  RPC.RPC_LIST_ARTIFACTS,
+  RPC.RPC_LOAD_SOURCE_CONTENT,
+];
+
+/**
+ * Other RPCs known not to change notebook data - every RPC not listed here or in
+ * CACHEABLE_RPCS counts as a mutation
+ */
+const READ_ONLY_RPCS = new Set<string>([
+  RPC.RPC_LOAD_SOURCE,
+  RPC.RPC_CHECK_SOURCE_FRESHNESS,
+  RPC.RPC_DISCOVER_SOURCES,
+  RPC.RPC_SEARCH_WEB_SOURCES,
+  RPC.RPC_GET_SEARCH_RESULTS,
+  RPC.RPC_GET_AUDIO_OVERVIEW,
+  RPC.RPC_GET_AUDIO_DOWNLOAD,
+  RPC.RPC_GENERATE_REPORT_SUGGESTIONS,
+  RPC.RPC_GET_OR_CREATE_ACCOUNT,
+  RPC.RPC_GET_SHARING_DETAILS,
+  RPC.RPC_GET_GUIDEBOOK,
+  RPC.RPC_GET_GUIDEBOOK_DETAILS,
+  RPC.RPC_LIST_RECENTLY_VIEWED_GUIDEBOOKS,
+  RPC.RPC_GET_ARTIFACT,
+  RPC.RPC_GET_QUIZ_DATA,
+  RPC.RPC_REPORT_CONTENT,
+  RPC.RPC_EXPORT_REPORT,
+]);
+
+/**
+ * Whether an RPC only reads data (a cacheable RPC or a known read)
+ */
+export function isReadRpc(rpcId: string): boolean {
+  return CACHEABLE_RPCS.includes(rpcId) || READ_ONLY_RPCS.has(rpcId);
+}
+
+/** Scope of entries that belong to no notebook (notebook list, source content) */
+export const SHARED_SCOPE = '_';
+
+/**
+ * A cached response
+ */
+export interface CacheEntry {
+  /** Response data as returned by `RPCClient.call()` */
+  data: any;
+  /** When the entry expires (ms since epoch) */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for the response cache
+ *
+ * Keys look like `<notebookId>.<rpcId>.<hash>` (`_` instead of the notebook id for
+ * entries without one) and only contain `[A-Za-z0-9_-.]`, so they are safe as file names.
+ * Expired entries may be returned - the cache checks `expiresAt` itself.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  keys(): MaybePromise<string[]>;
+}
+
+/**
+ * Response cache options
+ */
+export interface CacheOptions {
+  /** How long entries stay valid (ms) (default: 60000) */
+  ttl?: number;
+  /** Per-RPC TTL overrides, e.g. `{ [RPCMethods.RPC_LIST_MY_NOTEBOOKS]: 300000 }` */
+  ttlByRpc?: Record<string, number>;
+  /** Where entries live (default: a MemoryCacheStore) */
+  store?: CacheStore;
+}
+
+const bypassScope = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run `fn` with its read RPCs going to the server (fresh results still refresh the cache)
+ *
+ * @example
+ * ```typescript
+ * // Poll the real state, not a cached one
+ * const artifact = await withoutCache(() => sdk.artifacts.get(artifactId, notebookId));
+ * ```
+ */
+export function withoutCache<T>(fn: () => Promise<T>): Promise<T> {
+  return bypassScope.run(true, fn);
+}
+
+/**
+ * Whether the current call runs inside `withoutCache()`
+ */
+export function cacheBypassed(): boolean {
+  return bypassScope.getStore() === true;
+}
+
+/**
+ * In-memory cache store
+ * Entries are copied on the way in and out, so callers can't modify cached data.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * @param maxEntries - Drop the oldest entries beyond this count (default: 1000)
+   */
+  constructor(private maxEntries: number = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    return entry && { ...entry, data: structuredClone(entry.data) };
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, data: structuredClone(entry.data) });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * File cache store - one JSON file per entry, shared across processes and restarts
+ * Use one directory per Google account.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({
+ *   cache: { store: new FileCacheStore('.cache/notebooklm'), ttl: 5 * 60 * 1000 },
+ * });
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private dir: string) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8')) as CacheEntry;
+    } catch (error: any) {
+      // Missing or half-written entries are misses
+      if (error?.code === 'ENOENT' || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.pathFor(key);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+    await fs.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files.filter(file => file.endsWith('.json')).map(file => file.slice(0, -'.json'.length));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * Cache for read RPC responses
+ *
+ * `RPCClient.call()` answers the RPCs in `CACHEABLE_RPCS` from the cache while entries are
+ * fresh. Any other RPC - except known reads - is treated as a mutation: once it completes,
+ * the entries of its notebook and the entries shared by all notebooks (the notebook list,
+ * source content) are dropped. A mutation without a notebook id drops everything.
+ * Reads that were in flight during a mutation aren't stored.
+ *
+ * Changes made elsewhere (the web UI, another client, server-side generation) show up
+ * after the TTL, or immediately inside `withoutCache()`.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({ cache: { ttl: 30000 } });
+ *
+ * await sdk.notebooks.list();   // from the server
+ * await sdk.notebooks.list();   // from the cache
+ * await sdk.sources.add.text(notebookId, { title: 'Notes', content: '...' });
+ * await sdk.notebooks.list();   // from the server again
+ * ```
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: number;
+  private ttlByRpc: Record<string, number>;
+  private generations = new Map<string, number>();
+  private epoch = 0;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = Math.max(0, options.ttl ?? 60 * 1000);
+    this.ttlByRpc = { ...options.ttlByRpc };
+  }
+
+  /**
+   * Answer a call from the cache or load it
+   * Store failures fall through to `load` - the cache never fails a call.
+   *
+   * @param call - Call about to be sent
+   * @param load - Sends the call and resolves with its response data
+   * @param span - Gets a `notebooklm.cache` attribute ('hit' or 'miss')
+   */
+  async fetch(call: RPCCall, load: () => Promise<any>, span?: Span): Promise<any> {
+    if (!CACHEABLE_RPCS.includes(call.id)) {
+      if (isReadRpc(call.id)) {
+        return load();
+      }
+      try {
+        return await load();
+      } finally {
+        // The mutation may have gone through even if the call failed
+        await this.invalidate(call.notebookId).catch(() => undefined);
+      }
+    }
+
+    const key = cacheKey(call);
+    const scope = scopeOf(call.notebookId);
+    const generation = this.generation(scope);
+    if (!cacheBypassed()) {
+      const entry = await Promise.resolve(this.store.get(key)).catch(() => undefined);
+      if (entry && entry.expiresAt > Date.now()) {
+        span?.setAttribute('notebooklm.cache', 'hit');
+        return entry.data;
+      }
+    }
+
+    span?.setAttribute('notebooklm.cache', 'miss');
+    const data = await load();
+    if (this.generation(scope) === generation) {
+      const ttl = this.ttlByRpc[call.id] ?? this.ttl;
+      await Promise.resolve(this.store.set(key, { data, expiresAt: Date.now() + ttl })).catch(() => undefined);
+    }
+    return data;
+  }
+
+  /**
+   * Drop the entries of a notebook and the shared ones (all entries without a notebook id)
+   */
+  async invalidate(notebookId?: string): Promise<void> {
+    if (!notebookId) {
+      return this.clear();
+    }
+    const scopes = [scopeOf(notebookId), SHARED_SCOPE];
+    scopes.forEach(scope => this.generations.set(scope, (this.generations.get(scope) ?? 0) + 1));
+    const keys = await this.store.keys();
+    await Promise.all(
+      keys
+        .filter(key => scopes.some(scope => key.startsWith(`${scope}.`)))
+        .map(key => this.store.delete(key))
+    );
+  }
+
+  /**
+   * Drop every entry
+   */
+  async clear(): Promise<void> {
+    this.epoch++;
+    const keys = await this.store.keys();
+    await Promise.all(keys.map(key => this.store.delete(key)));
+  }
+
+  private generation(scope: string): string {
+    return `${this.epoch}:${this.generations.get(scope) ?? 0}`;
+  }
+}
+
+export function scopeOf(notebookId?: string): string {
+  return notebookId ? notebookId.replace(/[^A-Za-z0-9_-]/g, '_') : SHARED_SCOPE;
+}
+
+function cacheKey(call: RPCCall): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([call.id, call.args, call.notebookId ?? null]))
+    .digest('hex')
+    .slice(0, 32);
+  return `${scopeOf(call.notebookId)}.${call.id}.${hash}`;
+}
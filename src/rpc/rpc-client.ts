@@ -4,7 +4,33 @@
  */
 
 import { BatchExecuteClient } from '../utils/batch-execute.js';
-import type { BatchExecuteConfig, RPCCall, RPCResponse } from '../types/common.js';
+import { NotebookLMError, type BatchExecuteConfig, type RequestOptions, type RPCCall, type RPCResponse } from '../types/common.js';
+import type { Transport } from '../utils/transport.js';
+import type { RPCCodec } from './codecs.js';
+import { BatchScheduler, type BatchingOptions } from './batch-scheduler.js';
+import { MiddlewareChain, type RPCMiddleware } from './middleware.js';
+import { currentSignal, linkSignals, throwIfAborted, toAbortError } from '../utils/abort.js';
+import { noopTracer, withSpan, type Tracer } from '../utils/tracing.js';
+import { resolveLogger, type Logger } from '../utils/logger.js';
+import { currentPriority, type RateLimiter } from './rate-limiter.js';
+import { FrontendBootstrap, isStaleSessionError, type BootstrapOptions, type FrontendSession } from './bootstrap.js';
+import { FetchTransport } from '../utils/transport.js';
+import { Network, type NetworkOptions } from '../utils/network.js';
+import type { ResponseCache } from './response-cache.js';
+import { SingleFlight } from './single-flight.js';
+import { CaptureTransport, type WireCapture } from '../utils/capture.js';
+
+/**
+ * Credentials and frontend parameters of the current session
+ */
+export interface RequestParams {
+  authToken: string;
+  cookies: string;
+  /** URL parameters sent with every request, including the current `bl` and `f.sid` */
+  urlParams: Record<string, string>;
+  /** Frontend parameters found by the last bootstrap */
+  session?: FrontendSession;
+}
 
 /**
  * RPC client configuration
@@ -19,17 +45,59 @@ export interface RPCClientConfig {
   maxRetries?: number;
   retryDelay?: number;
   retryMaxDelay?: number;
+  /** Timeout for each request attempt (ms) */
+  timeout?: number;
+  transport?: Transport;
+  baseUrl?: string;
+  /** Coalesce calls issued in the same tick into one batchexecute request (default: false) */
+  batching?: boolean | BatchingOptions;
+  /** Request/response interceptors, run in order */
+  middleware?: RPCMiddleware[];
+  /** Tracer for RPC, HTTP attempt, streaming and download spans (default: no-op) */
+  tracer?: Tracer;
+  /** Logger for SDK messages (default: none, or stderr when `debug` is on) */
+  logger?: Logger;
+  /** Shared limiter for batchexecute and streaming requests (default: none) */
+  rateLimiter?: RateLimiter;
+  /** Discover `bl`, `f.sid` and `at` from the app page (default: false - connect() turns it on) */
+  bootstrap?: boolean | BootstrapOptions;
+  /** Frontend parameters found by the last bootstrap (kept up to date by RPCClient) */
+  session?: FrontendSession;
+  /** Proxy, extra CAs and user agent for every request (default: direct, Node's CAs) */
+  network?: NetworkOptions | Network;
+  /** Cache for read RPC responses (default: none) */
+  cache?: ResponseCache;
+  /** Share one request between concurrent identical reads (default: false - NotebookLMClient turns it on) */
+  dedupe?: boolean;
 }
 
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36';
+
 /**
  * NotebookLM RPC client
  */
 export class RPCClient {
   private batchClient: BatchExecuteClient;
+  private scheduler?: BatchScheduler;
+  private middleware: MiddlewareChain;
+  private logger: Logger;
+  private bootstrapper?: FrontendBootstrap;
+  private singleFlight?: SingleFlight;
+  private capture?: WireCapture;
   private config: RPCClientConfig;
   
   constructor(config: RPCClientConfig) {
-    this.config = config;
+    // Resolve once so the streaming client and downloads share the same agents
+    const network = Network.from(config.network);
+    // A copy, so one config object can be passed to several clients
+    this.config = {
+      ...config,
+      network,
+      // Batchexecute, streaming and page requests all pass through here, so setCapture() sees them
+      transport: new CaptureTransport(config.transport ?? new FetchTransport(network), () => this.capture),
+    };
+    this.logger = resolveLogger(config.logger, config.debug);
+    this.middleware = new MiddlewareChain(config.middleware);
     
     // Build batch execute config
     const batchConfig: BatchExecuteConfig = {
@@ -46,10 +114,11 @@ export class RPCClient {
         'accept-language': 'en-US,en;q=0.9',
         'cache-control': 'no-cache',
         'pragma': 'no-cache',
+        ...(network?.userAgent ? { 'user-agent': network.userAgent } : {}),
         ...config.headers,
       },
       urlParams: {
-        // Update to January 2025 build version
+        // Built-in fallbacks - replaced by the values bootstrap() reads from the app page
         'bl': 'boq_labs-tailwind-frontend_20250129.00_p0',
         'f.sid': '-7121977511756781186',
         'hl': 'en',
@@ -60,9 +129,31 @@ export class RPCClient {
       maxRetries: config.maxRetries,
       retryDelay: config.retryDelay,
       retryMaxDelay: config.retryMaxDelay,
+      timeout: config.timeout,
+      transport: this.config.transport,
+      baseUrl: config.baseUrl,
+      tracer: config.tracer,
+      logger: this.logger,
+      rateLimiter: config.rateLimiter,
     };
     
     this.batchClient = new BatchExecuteClient(batchConfig);
+    
+    if (config.batching) {
+      this.scheduler = new BatchScheduler(
+        this.batchClient,
+        typeof config.batching === 'object' ? config.batching : {},
+        config.rateLimiter
+      );
+    }
+    
+    if (config.dedupe) {
+      this.singleFlight = new SingleFlight();
+    }
+    
+    if (config.bootstrap) {
+      this.bootstrapper = this.createBootstrapper(typeof config.bootstrap === 'object' ? config.bootstrap : {});
+    }
   }
   
   /**
@@ -83,8 +174,16 @@ export class RPCClient {
   
   /**
    * Execute an RPC call
+   * Uses `options.signal`, or the signal of the enclosing service call when omitted.
+   * The call runs through the middleware chain (see `use()`) inside a `notebooklm.rpc` span.
+   * Behind the chain's `onRequest` hooks (so rewritten calls are looked up as rewritten),
+   * a response cache answers fresh cached reads, and with `dedupe` a read identical to one in
+   * flight joins it. Either way `onResponse` hooks run for every call.
    */
-  async call(rpcId: string, args: any[], notebookId?: string): Promise<any> {
+  async call(rpcId: string, args: any[], notebookId?: string, options: RequestOptions = {}): Promise<any> {
+    const signal = options.signal ?? currentSignal();
+    throwIfAborted(signal);
+    
     // Create request-specific URL parameters
     const urlParams: Record<string, string> = {};
     
@@ -100,10 +199,264 @@ export class RPCClient {
       notebookId,
       urlParams,
     };
+    const priority = currentPriority();
+    if (priority) {
+      rpcCall.priority = priority;
+    }
+    
+    const attributes = {
+      'rpc.system': 'batchexecute',
+      'rpc.method': rpcId,
+      'notebooklm.notebook_id': notebookId,
+      'notebooklm.batched': !!this.scheduler,
+    };
     
-    const response = await this.batchClient.do(rpcCall);
+    return withSpan(this.getTracer(), 'notebooklm.rpc', attributes, (span) => {
+      return this.middleware.run(rpcCall, (call) => {
+        const run = (signal?: AbortSignal) => this.withSession(async () => {
+          const response = this.scheduler
+            ? await this.scheduler.schedule(call, signal)
+            : await this.batchClient.do(call, signal);
+          return response.data;
+        }, signal);
+        const load = () => this.singleFlight ? this.singleFlight.do(call, signal, run, span) : run(signal);
+        return this.config.cache ? this.config.cache.fetch(call, load, span) : load();
+      });
+    });
+  }
+  
+  /**
+   * Fetch the app page and switch to its build label, session id and auth token
+   * Explicit `urlParams` from the config still take precedence.
+   *
+   * @returns The discovered values
+   * @throws NotebookLMError when the page can't be fetched or carries no parameters
+   *
+   * @example
+   * ```typescript
+   * const rpc = await sdk.getRPCClient();
+   * const session = await rpc.bootstrap();
+   * console.log(session.buildLabel); // 'boq_labs-tailwind-frontend_20250612.08_p0'
+   * ```
+   */
+  async bootstrap(signal?: AbortSignal): Promise<FrontendSession> {
+    this.bootstrapper ??= this.createBootstrapper({});
+    await this.bootstrapper.refresh(signal ?? currentSignal());
+    return this.bootstrapper.session!;
+  }
+  
+  /**
+   * Get the frontend parameters found by the last bootstrap
+   */
+  getSession(): FrontendSession | undefined {
+    return this.config.session;
+  }
+  
+  /**
+   * Get the credentials and frontend parameters requests are sent with right now
+   * These change when cookies are refreshed or the session is re-bootstrapped, so read
+   * them for every request instead of keeping a copy.
+   */
+  getRequestParams(): RequestParams {
+    return {
+      authToken: this.config.authToken,
+      cookies: this.config.cookies,
+      urlParams: { ...this.batchClient.getConfig().urlParams },
+      session: this.config.session,
+    };
+  }
+  
+  /**
+   * Send a request with fresh frontend parameters
+   * With bootstrap on, expired parameters are re-read first, and a request rejected as stale
+   * (HTTP 400) is retried once if re-reading them changed anything. `send` must read the
+   * parameters anew on each attempt (see getRequestParams()).
+   */
+  async withSession<T>(send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!this.bootstrapper) {
+      return send();
+    }
+    
+    await this.bootstrapper.ensureFresh(signal);
+    const version = this.bootstrapper.version;
+    try {
+      return await send();
+    } catch (error) {
+      if (!isStaleSessionError(error) || !(await this.rebootstrap(version, signal))) {
+        throw error;
+      }
+      return send();
+    }
+  }
+  
+  /**
+   * Re-bootstrap after the server rejected a call sent with session `version`
+   * Returns whether the parameters changed since (i.e. a retry may succeed).
+   */
+  private async rebootstrap(version: number, signal?: AbortSignal): Promise<boolean> {
+    const bootstrapper = this.bootstrapper!;
+    if (bootstrapper.version === version) {
+      this.logger.info('Request rejected, re-reading frontend parameters', { buildLabel: this.config.session?.buildLabel });
+      try {
+        await bootstrapper.refresh(signal);
+      } catch (error) {
+        this.logger.warn('Failed to refresh frontend parameters', { error });
+        return false;
+      }
+    }
+    return bootstrapper.version !== version;
+  }
+  
+  private createBootstrapper(options: BootstrapOptions): FrontendBootstrap {
+    return new FrontendBootstrap(
+      signal => this.fetchAppPage(signal),
+      session => this.applySession(session),
+      this.logger,
+      options
+    );
+  }
+  
+  private async fetchAppPage(signal?: AbortSignal): Promise<string> {
+    const origin = this.config.baseUrl?.replace(/\/+$/, '') || 'https://notebooklm.google.com';
+    const linked = linkSignals([signal], this.config.timeout);
+    try {
+      const response = await (this.config.transport ?? new FetchTransport()).send({
+        kind: 'page',
+        url: `${origin}/?authuser=${encodeURIComponent(this.config.authUser || '0')}`,
+        method: 'GET',
+        headers: {
+          'accept': 'text/html,application/xhtml+xml',
+          'accept-language': 'en-US,en;q=0.9',
+          'user-agent': this.config.network?.userAgent ?? DEFAULT_USER_AGENT,
+          ...this.config.headers,
+          'cookie': this.config.cookies,
+        },
+        signal: linked.signal,
+      });
+      if (!response.ok) {
+        throw new NotebookLMError(`Failed to load NotebookLM page: ${response.status} ${response.statusText}`, response.status);
+      }
+      return await response.text();
+    } catch (error) {
+      if (linked.signal?.aborted) {
+        throw toAbortError(linked.signal);
+      }
+      throw error;
+    } finally {
+      linked.dispose();
+    }
+  }
+  
+  private applySession(session: FrontendSession): void {
+    this.config.session = session;
+    const urlParams: Record<string, string> = {};
+    if (session.buildLabel) {
+      urlParams['bl'] = session.buildLabel;
+    }
+    if (session.sessionId) {
+      urlParams['f.sid'] = session.sessionId;
+    }
+    this.batchClient.updateUrlParams({ ...urlParams, ...this.config.urlParams });
     
-    return response.data;
+    if (session.authToken) {
+      this.config.authToken = session.authToken;
+      this.batchClient.updateAuthToken(session.authToken);
+    }
+  }
+  
+  /**
+   * Execute an RPC call through a typed codec
+   * Encodes params and validates/decodes the response (throws NotebookLMParseError on shape mismatch)
+   *
+   * @example
+   * ```typescript
+   * const notes = await rpc.callCodec(RPCCodecs.RPC_GET_NOTES, { notebookId }, notebookId);
+   * ```
+   */
+  async callCodec<TParams, TResult>(
+    codec: RPCCodec<TParams, TResult>,
+    params: TParams,
+    notebookId?: string,
+    options: RequestOptions = {}
+  ): Promise<TResult> {
+    const data = await this.call(codec.rpcId, codec.encode(params), notebookId, options);
+    return codec.decode(data);
+  }
+  
+  /**
+   * Add a middleware (runs after the configured ones)
+   * Also applies to streaming chat, which shares this chain.
+   *
+   * @example
+   * ```typescript
+   * const rpc = await sdk.getRPCClient();
+   * rpc.use({
+   *   onResponse: (call, data) => {
+   *     console.log(call.id, JSON.stringify(data).length, 'bytes');
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: RPCMiddleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+  
+  /**
+   * Get the middleware chain
+   */
+  getMiddleware(): MiddlewareChain {
+    return this.middleware;
+  }
+  
+  /**
+   * Get the configured tracer (no-op when none was given)
+   */
+  getTracer(): Tracer {
+    return this.config.tracer ?? noopTracer;
+  }
+  
+  /**
+   * Get the logger services write to
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+  
+  /**
+   * Get the resolved network settings, if any were configured
+   */
+  getNetwork(): Network | undefined {
+    return Network.from(this.config.network);
+  }
+  
+  /**
+   * Record every request into `capture` (undefined stops recording)
+   * Downloads started from the artifacts service are recorded too.
+   */
+  setCapture(capture: WireCapture | undefined): void {
+    this.capture = capture;
+  }
+  
+  /**
+   * Get the capture requests are recorded into, if any
+   */
+  getCapture(): WireCapture | undefined {
+    return this.capture?.active ? this.capture : undefined;
+  }
+  
+  /**
+   * Get the response cache, if one is configured
+   */
+  getCache(): ResponseCache | undefined {
+    return this.config.cache;
+  }
+  
+  /**
+   * Get the shared rate limiter, if one is configured
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.config.rateLimiter;
   }
   
   /**
@@ -0,0 +1,8 @@
+/**
+ * Recorded response shapes of NotebookLM RPCs
+ * Generated by `npm run schema:refresh` from captured fixtures - don't edit by hand.
+ */
+
+import type { SchemaBaseline } from './schema-drift.js';
+
+export const SCHEMA_BASELINES: SchemaBaseline = {};
@@ -0,0 +1,361 @@
+/**
+ * Schema drift detection
+ * Compares the structure of RPC responses with shapes recorded from fixtures, so changes
+ * on Google's side show up as warnings before the parsers start returning empty results
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RPCCall, SchemaDrift } from '../types/common.js';
+import { SchemaDriftWarning } from '../types/common.js';
+import { decodeBatchResponse } from '../utils/batch-execute.js';
+import type { Logger } from '../utils/logger.js';
+import type { RPCMiddleware } from './middleware.js';
+import { SCHEMA_BASELINES } from './schema-baselines.js';
+
+/**
+ * JSON type of a value in a response shape
+ */
+export type ShapeKind = 'array' | 'object' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * Structural signature of one RPC's responses: JSON path → types seen at that path
+ *
+ * Paths look like `$[0][2]`. Arrays whose elements have one type (ignoring nulls) are lists:
+ * their elements share one `[*]` path. Other arrays are positional records.
+ * A path that was missing from some responses has `null` among its types.
+ */
+export type ShapeSignature = Record<string, ShapeKind[]>;
+
+/**
+ * Recorded shapes by RPC id
+ */
+export type SchemaBaseline = Record<string, ShapeSignature>;
+
+/**
+ * One decoded RPC response read from a fixture or capture
+ */
+export interface SchemaSample {
+  rpcId: string;
+  /** Response data as returned by `RPCClient.call()` */
+  data: unknown;
+}
+
+/**
+ * Schema drift detector options
+ */
+export interface SchemaDriftOptions {
+  /** Recorded shapes to compare against (default: the shapes bundled with the SDK, empty until refreshed from real captures) */
+  baseline?: SchemaBaseline;
+  /** Receives each warning (default: `process.emitWarning()`) */
+  onDrift?: (warning: SchemaDriftWarning) => void;
+  /** Where to warn that the baseline covers no RPCs (default: `process.emitWarning()`) */
+  logger?: Logger;
+}
+
+/** Deeper levels aren't fingerprinted (source content nests text runs far down) */
+const MAX_DEPTH = 32;
+
+/**
+ * Fingerprint a set of responses of one RPC
+ *
+ * @param responses - Response data (JSON strings are parsed)
+ */
+export function shapeOf(...responses: unknown[]): ShapeSignature {
+  const shape = new Map<string, Set<ShapeKind>>();
+  collect(responses.map(parseData), '$', shape, 0);
+  const signature: ShapeSignature = {};
+  for (const [key, kinds] of [...shape].sort(([a], [b]) => a.localeCompare(b))) {
+    signature[key] = [...kinds].sort();
+  }
+  return signature;
+}
+
+/**
+ * Compare a response with the recorded shape of its RPC
+ * Only the first difference below a path is reported. Paths that were null in every
+ * recorded response aren't checked.
+ */
+export function compareShape(signature: ShapeSignature, data: unknown): SchemaDrift[] {
+  const drift: SchemaDrift[] = [];
+  compare(signature, parseData(data), '$', drift, 0);
+  return drift;
+}
+
+/**
+ * Build baselines from decoded responses (responses of the same RPC are fingerprinted together)
+ */
+export function buildSchemaBaseline(samples: SchemaSample[]): SchemaBaseline {
+  const byRpc = new Map<string, unknown[]>();
+  for (const sample of samples) {
+    byRpc.set(sample.rpcId, [...(byRpc.get(sample.rpcId) ?? []), sample.data]);
+  }
+  const baseline: SchemaBaseline = {};
+  for (const rpcId of [...byRpc.keys()].sort()) {
+    baseline[rpcId] = shapeOf(...byRpc.get(rpcId)!);
+  }
+  return baseline;
+}
+
+/**
+ * Read the batchexecute responses recorded in fixture files
+ *
+ * Reads RecordReplayTransport fixtures (`.json`), wire captures (`.har`, `.jsonl`) and
+ * directories of them (recursively). Failed requests, truncated bodies and error frames are skipped.
+ *
+ * @example
+ * ```typescript
+ * const samples = await loadSchemaSamples(['./fixtures', 'bug-1234.har']);
+ * const baseline = buildSchemaBaseline(samples);
+ * ```
+ */
+export async function loadSchemaSamples(paths: string[]): Promise<SchemaSample[]> {
+  const samples: SchemaSample[] = [];
+  for (const file of await listFiles(paths)) {
+    const content = await fs.readFile(file, 'utf-8');
+    for (const body of recordedBodies(file, content)) {
+      let frames;
+      try {
+        frames = decodeBatchResponse(body);
+      } catch {
+        continue;
+      }
+      for (const frame of frames) {
+        if (frame.id !== 'numeric' && frame.data !== null && frame.data !== undefined) {
+          samples.push({ rpcId: frame.id, data: frame.data });
+        }
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Middleware that warns when a response's shape drifts from the recorded baseline
+ *
+ * RPCs without a baseline aren't checked; a baseline that covers none is warned about once,
+ * when the detector is created. The bundled baseline ships empty: record it from live traffic
+ * with `startCapture()` and `npm run schema:refresh`. Each distinct drift of an RPC is reported once per detector. Responses are never changed and calls never fail because of drift.
+ *
+ * @example
+ * ```typescript
+ * process.on('warning', (warning) => {
+ *   if (warning instanceof SchemaDriftWarning) {
+ *     alerting.notify(warning.rpcId, warning.drift);
+ *   }
+ * });
+ *
+ * const sdk = new NotebookLMClient({ schemaDrift: { baseline: JSON.parse(fs.readFileSync('baseline.json', 'utf-8')) } });
+ * ```
+ */
+export class SchemaDriftDetector implements RPCMiddleware {
+  private baseline: SchemaBaseline;
+  private onDrift: (warning: SchemaDriftWarning) => void;
+  private reported = new Set<string>();
+
+  constructor(options: SchemaDriftOptions = {}) {
+    this.baseline = options.baseline ?? SCHEMA_BASELINES;
+    this.onDrift = options.onDrift ?? (warning => process.emitWarning(warning));
+
+    if (Object.keys(this.baseline).length === 0) {
+      const message = 'Schema drift detection is on, but its baseline covers no RPCs - no response will be checked. '
+        + 'Record real traffic with startCapture(), run `npm run schema:refresh -- <capture> --out baseline.json` '
+        + 'and pass the result as schemaDrift.baseline';
+      if (options.logger) {
+        options.logger.warn(message);
+      } else {
+        process.emitWarning(message);
+      }
+    }
+  }
+
+  onResponse(call: RPCCall, data: any): void {
+    this.check(call.id, data);
+  }
+
+  /**
+   * Compare a response with the baseline of its RPC and report new drift
+   *
+   * @returns The differences (empty when the shape matches or the RPC has no baseline)
+   */
+  check(rpcId: string, data: unknown): SchemaDrift[] {
+    const signature = this.baseline[rpcId];
+    if (!signature) {
+      return [];
+    }
+    const drift = compareShape(signature, data);
+    const key = `${rpcId}:${drift.map(d => `${d.change} ${d.path}`).join(',')}`;
+    if (drift.length > 0 && !this.reported.has(key)) {
+      this.reported.add(key);
+      const paths = drift.slice(0, 5).map(d => d.path).join(', ') + (drift.length > 5 ? ', ...' : '');
+      this.onDrift(new SchemaDriftWarning(
+        `Response of ${rpcId} no longer matches its recorded shape (${drift.length} difference${drift.length === 1 ? '' : 's'}: ${paths})`,
+        rpcId,
+        drift
+      ));
+    }
+    return drift;
+  }
+}
+
+function parseData(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function kindOf(value: unknown): ShapeKind {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'object' ? 'object' : (typeof value as ShapeKind);
+}
+
+/**
+ * An array is a list when it has at least two non-null elements, all of one type
+ */
+function isList(value: unknown[]): boolean {
+  const kinds = new Set(value.map(kindOf).filter(kind => kind !== 'null'));
+  return kinds.size === 1 && value.filter(item => item !== null && item !== undefined).length > 1;
+}
+
+function collect(values: unknown[], at: string, shape: Map<string, Set<ShapeKind>>, depth: number): void {
+  const kinds = shape.get(at) ?? new Set<ShapeKind>();
+  values.forEach(value => kinds.add(kindOf(value)));
+  shape.set(at, kinds);
+  if (depth >= MAX_DEPTH) {
+    return;
+  }
+
+  const arrays = values.filter((value): value is unknown[] => Array.isArray(value));
+  if (arrays.length > 0) {
+    // Decided over all responses, so one response can't turn a list into a record
+    if (arrays.some(isList) && arrays.every(array => isList(array) || array.length <= 1)) {
+      collect(arrays.flat(), `${at}[*]`, shape, depth + 1);
+    } else {
+      const length = Math.max(...arrays.map(array => array.length));
+      for (let i = 0; i < length; i++) {
+        collect(arrays.map(array => array[i]), `${at}[${i}]`, shape, depth + 1);
+      }
+    }
+  }
+
+  const objects = values.filter((value): value is Record<string, unknown> => kindOf(value) === 'object');
+  const keys = new Set(objects.flatMap(object => Object.keys(object)));
+  for (const key of [...keys].sort()) {
+    collect(objects.map(object => object[key]), `${at}.${key}`, shape, depth + 1);
+  }
+}
+
+function compare(signature: ShapeSignature, value: unknown, at: string, drift: SchemaDrift[], depth: number): void {
+  const expected = signature[at];
+  const kind = kindOf(value);
+  if (!expected) {
+    if (kind !== 'null') {
+      drift.push({ path: at, change: 'added', actual: kind });
+    }
+    return;
+  }
+  if (expected.length === 1 && expected[0] === 'null') {
+    // Never seen set, so nothing is known about it
+    return;
+  }
+  if (kind === 'null') {
+    if (!expected.includes('null')) {
+      drift.push({ path: at, change: 'removed', expected });
+    }
+    return;
+  }
+  if (!expected.includes(kind)) {
+    drift.push({ path: at, change: 'changed', expected, actual: kind });
+    return;
+  }
+  if (depth >= MAX_DEPTH) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (signature[`${at}[*]`]) {
+      value.forEach(item => compare(signature, item, `${at}[*]`, drift, depth + 1));
+      return;
+    }
+    const length = Math.max(value.length, countChildren(signature, at, /^\[(\d+)\]$/));
+    for (let i = 0; i < length; i++) {
+      compare(signature, value[i], `${at}[${i}]`, drift, depth + 1);
+    }
+  } else if (kind === 'object') {
+    const object = value as Record<string, unknown>;
+    const keys = new Set([...Object.keys(object), ...childKeys(signature, at)]);
+    for (const key of keys) {
+      compare(signature, object[key], `${at}.${key}`, drift, depth + 1);
+    }
+  }
+}
+
+function countChildren(signature: ShapeSignature, at: string, pattern: RegExp): number {
+  let count = 0;
+  for (const key of Object.keys(signature)) {
+    const match = key.startsWith(at) ? pattern.exec(key.slice(at.length)) : null;
+    if (match) {
+      count = Math.max(count, Number(match[1]) + 1);
+    }
+  }
+  return count;
+}
+
+function childKeys(signature: ShapeSignature, at: string): string[] {
+  return Object.keys(signature)
+    .filter(key => key.startsWith(`${at}.`))
+    .map(key => key.slice(at.length + 1))
+    .filter(key => !/[.[]/.test(key));
+}
+
+async function listFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of paths) {
+    const stat = await fs.stat(entry);
+    if (stat.isDirectory()) {
+      const children = (await fs.readdir(entry)).sort().map(child => path.join(entry, child));
+      files.push(...await listFiles(children));
+    } else if (/\.(json|jsonl|har)$/.test(entry)) {
+      files.push(entry);
+    }
+  }
+  return files;
+}
+
+/**
+ * Successful batchexecute response bodies in a fixture, HAR or JSONL capture
+ */
+function recordedBodies(file: string, content: string): string[] {
+  if (file.endsWith('.jsonl')) {
+    return content.split('\n').filter(line => line.trim()).flatMap(line => {
+      const entry = JSON.parse(line);
+      return entry.kind === 'batchexecute' && entry.response?.status === 200 && !entry.response.truncated && entry.response.body
+        ? [entry.response.body as string]
+        : [];
+    });
+  }
+
+  const parsed = JSON.parse(content);
+  if (parsed?.log?.entries) {
+    return (parsed.log.entries as any[])
+      .filter(entry => (entry._kind ?? (String(entry.request?.url).includes('/batchexecute') ? 'batchexecute' : '')) === 'batchexecute')
+      .filter(entry => entry.response?.status === 200 && typeof entry.response.content?.text === 'string')
+      .map(entry => entry.response.content.text as string);
+  }
+  if (parsed?.kind === 'batchexecute' && Array.isArray(parsed.responses)) {
+    return (parsed.responses as any[])
+      .filter(response => response.status === 200)
+      .map(response => (response.chunks as string[]).join(''));
+  }
+  return [];
+}
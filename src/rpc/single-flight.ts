@@ -0,0 +1,149 @@
+/**
+ * In-flight request deduplication
+ * Concurrent identical read RPCs share one request instead of each sending their own
+ */
+
+import { createHash } from 'node:crypto';
+import type { RPCCall } from '../types/common.js';
+import { toAbortError } from '../utils/abort.js';
+import type { Span } from '../utils/tracing.js';
+import { cacheBypassed, isReadRpc, scopeOf, SHARED_SCOPE } from './response-cache.js';
+
+interface Flight {
+  promise: Promise<any>;
+  controller: AbortController;
+  callers: number;
+  /** Notebook scope, as used by the response cache */
+  scope: string;
+}
+
+/**
+ * Single-flight deduplication of read RPCs
+ *
+ * While a read is in flight, calls with the same RPC id, args and notebook id join it
+ * and get a copy of its response (or its error) instead of sending their own request.
+ * Mutations always go out on their own. Once one completes, reads of its notebook (and
+ * those that belong to no notebook) that were in flight can't be joined anymore, so later
+ * calls see the change; a mutation without a notebook id closes every flight. Calls inside
+ * `withoutCache()` never join - they start a fresh flight. A caller whose signal fires
+ * leaves the flight without cancelling it for the others; the request is cancelled once
+ * every caller left.
+ *
+ * Calls are matched after middleware rewrote them, and every joined call still runs its
+ * own `onResponse` hooks.
+ *
+ * @example
+ * ```typescript
+ * // One RPC_GET_PROJECT request for all three callers
+ * await Promise.all([
+ *   sdk.sources.list(notebookId),
+ *   sdk.sources.list(notebookId),
+ *   sdk.sources.list(notebookId),
+ * ]);
+ * ```
+ */
+export class SingleFlight {
+  private flights = new Map<string, Flight>();
+
+  /**
+   * Join the in-flight request for an identical read, or start one
+   *
+   * @param call - Call about to be sent
+   * @param signal - Caller's signal (leaving the flight, not cancelling it)
+   * @param load - Sends the call; gets a signal that fires once every caller left
+   * @param span - Gets a `notebooklm.deduplicated` attribute when the call joined a flight
+   */
+  do(
+    call: RPCCall,
+    signal: AbortSignal | undefined,
+    load: (signal?: AbortSignal) => Promise<any>,
+    span?: Span
+  ): Promise<any> {
+    if (!isReadRpc(call.id)) {
+      // The mutation may have gone through even if the call failed
+      return load(signal).finally(() => this.retire(call.notebookId));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+
+    const key = flightKey(call);
+    let flight = cacheBypassed() ? undefined : this.flights.get(key);
+    const joined = !!flight;
+    if (!flight) {
+      const controller = new AbortController();
+      const started: Flight = { controller, callers: 0, promise: Promise.resolve(), scope: scopeOf(call.notebookId) };
+      started.promise = load(controller.signal).finally(() => this.land(key, started));
+      this.flights.set(key, started);
+      flight = started;
+    } else {
+      span?.setAttribute('notebooklm.deduplicated', true);
+    }
+
+    const current = flight;
+    current.callers++;
+
+    return new Promise((resolve, reject) => {
+      let left = false;
+      const onAbort = () => {
+        left = true;
+        reject(toAbortError(signal!));
+        if (--current.callers === 0) {
+          this.land(key, current);
+          current.controller.abort(signal!.reason);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      current.promise.then(
+        data => {
+          signal?.removeEventListener('abort', onAbort);
+          if (!left) {
+            resolve(joined ? structuredClone(data) : data);
+          }
+        },
+        error => {
+          signal?.removeEventListener('abort', onAbort);
+          if (!left) {
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Number of reads in flight
+   */
+  get size(): number {
+    return this.flights.size;
+  }
+
+  /**
+   * Stop new callers from joining the flights a mutation of `notebookId` may have made stale
+   * Callers already waiting still get their response.
+   */
+  private retire(notebookId?: string): void {
+    const scopes = notebookId ? [scopeOf(notebookId), SHARED_SCOPE] : undefined;
+    for (const [key, flight] of this.flights) {
+      if (!scopes || scopes.includes(flight.scope)) {
+        this.flights.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Stop new callers from joining a flight
+   */
+  private land(key: string, flight: Flight): void {
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+  }
+}
+
+function flightKey(call: RPCCall): string {
+  return createHash('sha256')
+    .update(JSON.stringify([call.id, call.args, call.notebookId ?? null]))
+    .digest('hex');
+}
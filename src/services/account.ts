@@ -0,0 +1,92 @@
+/**
+ * Account service
+ * Handles account info and settings (plan, output language)
+ */
+
+import { RPCClient } from '../rpc/rpc-client.js';
+import { RPCCodecs } from '../rpc/codecs.js';
+import type { Account, UpdateAccountOptions } from '../types/account.js';
+import type { QuotaManager, NotebookLMPlan } from '../utils/quota.js';
+import type { RequestOptions } from '../types/common.js';
+import { APIError } from '../utils/errors.js';
+import { withSignal } from '../utils/abort.js';
+
+/**
+ * Service for account operations
+ */
+export class AccountService {
+  constructor(
+    private rpc: RPCClient,
+    private quota?: QuotaManager
+  ) {}
+
+  /**
+   * Get the signed-in account
+   *
+   * @example
+   * ```typescript
+   * const account = await client.account.get();
+   * console.log(account.email, account.plan); // 'user@example.com', 'pro'
+   * ```
+   */
+  async get(options: RequestOptions = {}): Promise<Account> {
+    return withSignal(options.signal, () => this.getInternal());
+  }
+
+  private async getInternal(): Promise<Account> {
+    return this.rpc.callCodec(RPCCodecs.RPC_GET_OR_CREATE_ACCOUNT, {});
+  }
+
+  /**
+   * Update account settings
+   *
+   * @param options - Settings to update
+   * @returns The updated account
+   *
+   * @example
+   * ```typescript
+   * const account = await client.account.update({ language: 'de' });
+   * console.log(account.language); // 'de'
+   * ```
+   */
+  async update(options: UpdateAccountOptions): Promise<Account> {
+    return withSignal(options.signal, () => this.updateInternal(options));
+  }
+
+  private async updateInternal(options: UpdateAccountOptions): Promise<Account> {
+    if (options.language === undefined) {
+      throw new APIError('No account settings to update', undefined, 400);
+    }
+    if (!options.language || typeof options.language !== 'string') {
+      throw new APIError('Invalid language code. Must be a non-empty string.', undefined, 400);
+    }
+
+    const updated = await this.rpc.callCodec(RPCCodecs.RPC_MUTATE_ACCOUNT, {
+      language: options.language.toLowerCase(),
+    });
+
+    // Some responses don't echo the account - fetch it instead
+    return updated ?? this.get();
+  }
+
+  /**
+   * Detect the account's plan and apply it to quota limits
+   *
+   * @returns The detected plan
+   *
+   * @example
+   * ```typescript
+   * const plan = await client.account.detectPlan();
+   * console.log(`Quota limits set for ${plan}`);
+   * ```
+   */
+  async detectPlan(options: RequestOptions = {}): Promise<NotebookLMPlan> {
+    return withSignal(options.signal, () => this.detectPlanInternal());
+  }
+
+  private async detectPlanInternal(): Promise<NotebookLMPlan> {
+    const { plan } = await this.get();
+    this.quota?.setPlan(plan);
+    return plan;
+  }
+}
@@ -5,9 +5,20 @@
 
 import { RPCClient } from '../rpc/rpc-client.js';
 import * as RPC from '../rpc/rpc-methods.js';
-import { NotebookLMError } from '../types/common.js';
+import { RPCCodecs } from '../rpc/codecs.js';
+import { NotebookLMError, type RequestOptions } from '../types/common.js';
+import { currentSignal, withSignal } from '../utils/abort.js';
+import { endSpan, withSpan, type Span } from '../utils/tracing.js';
 import { APIError } from '../utils/errors.js';
+import { networkFetch, type Network } from '../utils/network.js';
+import type { WireCapture } from '../utils/capture.js';
 import { ArtifactType, ArtifactState } from '../types/artifact.js';
+import type {
+  ReportSuggestion,
+  SuggestReportsOptions,
+  UpdateArtifactPatch,
+  UpdateArtifactResult,
+} from '../types/artifact.js';
 import { NotebookLanguageService } from './notebook-language.js';
 import * as https from 'https';
 import * as http from 'http';
@@ -61,14 +72,14 @@ export interface VideoOverview {
   createdAt?: string;
 }
 
-export interface CreateAudioOverviewOptions {
+export interface CreateAudioOverviewOptions extends RequestOptions {
   title?: string;
   instructions?: string;
   sourceIds?: string[];
   customization?: AudioCustomization;
 }
 
-export interface CreateVideoOverviewOptions {
+export interface CreateVideoOverviewOptions extends RequestOptions {
   title?: string;
   instructions?: string;
   sourceIds?: string[];
@@ -81,7 +92,24 @@ export interface ShareAudioResult {
   isPublic: boolean;
 }
 
-export interface ShareArtifactOptions {
+export interface ShareAudioOptions extends RequestOptions {
+  /** Anyone with the link can listen (default: true). Set false to turn the link off. */
+  isPublic?: boolean;
+}
+
+export interface ArtifactSharingDetails {
+  notebookId: string;
+  artifactId?: string;
+  /** Whether a public link is enabled */
+  isPublic: boolean;
+  /** Public link (artifact-level shares only) */
+  shareUrl?: string;
+  shareId?: string;
+  /** Users with access: 1=owner, 2=editor, 3=viewer */
+  users: Array<{ email: string; role: number }>;
+}
+
+export interface ShareArtifactOptions extends RequestOptions {
   users?: Array<{
     email: string;
     role: 2 | 3 | 4;
@@ -140,11 +168,13 @@ export interface VideoCustomization {
   customStyleDescription?: string;
 }
 
-export interface CreateArtifactOptions {
+export interface CreateArtifactOptions extends RequestOptions {
   title?: string;
   instructions?: string;
   sourceIds?: string[];
   customization?: QuizCustomization | FlashcardCustomization | SlideDeckCustomization | InfographicCustomization | AudioCustomization | VideoCustomization;
+  /** Report template from report.suggest() (Report only) */
+  reportSuggestion?: ReportSuggestion;
 }
 
 export interface QuizQuestion {
@@ -248,6 +278,7 @@ class VideoService {
       instructions: options.instructions,
       sourceIds: options.sourceIds,
       customization: options.customization,
+      signal: options.signal,
     });
     return {
       projectId: notebookId,
@@ -261,7 +292,10 @@ class VideoService {
 }
 
 class AudioService {
-  constructor(private artifactsService: ArtifactsService) {}
+  constructor(
+    private artifactsService: ArtifactsService,
+    private rpc: RPCClient
+  ) {}
   
   async create(notebookId: string, options: CreateAudioOverviewOptions = {}): Promise<AudioOverview> {
     const artifact = await this.artifactsService.create(notebookId, ArtifactType.AUDIO, {
@@ -269,6 +303,7 @@ class AudioService {
       instructions: options.instructions,
       sourceIds: options.sourceIds,
       customization: options.customization,
+      signal: options.signal,
     });
     return {
       projectId: notebookId,
@@ -280,6 +315,62 @@ class AudioService {
       duration: artifact.duration,
     };
   }
+  
+  /**
+   * Share a single audio overview without sharing the notebook
+   * 
+   * @param notebookId - The notebook ID
+   * @param audioId - The audio artifact ID
+   * @param options - Share options (public link by default)
+   * 
+   * @example
+   * ```typescript
+   * const { shareUrl } = await sdk.artifacts.audio.share('notebook-id', 'audio-id');
+   * console.log(`Listen at: ${shareUrl}`);
+   * 
+   * // Turn the public link off again
+   * await sdk.artifacts.audio.share('notebook-id', 'audio-id', { isPublic: false });
+   * ```
+   */
+  async share(notebookId: string, audioId: string, options: ShareAudioOptions = {}): Promise<ShareAudioResult> {
+    return withSignal(options.signal, () => this.shareInternal(notebookId, audioId, options));
+  }
+
+  private async shareInternal(notebookId: string, audioId: string, options: ShareAudioOptions): Promise<ShareAudioResult> {
+    if (!notebookId || typeof notebookId !== 'string') {
+      throw new APIError('Invalid notebook ID format', undefined, 400);
+    }
+    if (!audioId || typeof audioId !== 'string') {
+      throw new APIError('Invalid audio ID format', undefined, 400);
+    }
+    
+    const isPublic = options.isPublic !== false;
+    const shared = await this.rpc.callCodec(
+      RPCCodecs.RPC_SHARE_AUDIO,
+      {
+        notebookId,
+        audioId,
+        shareOptions: [isPublic ? ShareOption.PUBLIC : ShareOption.PRIVATE],
+      },
+      notebookId
+    );
+    
+    if (isPublic && !shared.shareUrl) {
+      // Link not echoed - read it back from the sharing details
+      const details = await this.artifactsService.getSharingDetails(notebookId, audioId);
+      return {
+        shareUrl: details.shareUrl ?? '',
+        shareId: details.shareId ?? shared.shareId ?? '',
+        isPublic: details.isPublic,
+      };
+    }
+    
+    return {
+      shareUrl: isPublic ? shared.shareUrl ?? '' : '',
+      shareId: shared.shareId ?? '',
+      isPublic,
+    };
+  }
 }
 
 class InfographicService {
@@ -299,11 +390,48 @@ class MindMapService {
 }
 
 class ReportService {
-  constructor(private artifactsService: ArtifactsService) {}
+  constructor(
+    private artifactsService: ArtifactsService,
+    private rpc: RPCClient
+  ) {}
   
   async create(notebookId: string, options: CreateArtifactOptions = {}): Promise<Artifact> {
     return this.artifactsService.create(notebookId, ArtifactType.REPORT, options);
   }
+  
+  /**
+   * Get report formats suggested for the notebook's sources
+   * 
+   * A suggestion can be passed as `reportSuggestion` to `create()`.
+   * 
+   * @example
+   * ```typescript
+   * const suggestions = await client.artifacts.report.suggest('notebook-id', {
+   *   sourceIds: ['source-id-1'],
+   * });
+   * suggestions.forEach(s => console.log(`${s.title}: ${s.description}`));
+   * 
+   * const report = await client.artifacts.create('notebook-id', ArtifactType.REPORT, {
+   *   sourceIds: ['source-id-1'],
+   *   reportSuggestion: suggestions[0],
+   * });
+   * ```
+   */
+  async suggest(notebookId: string, options: SuggestReportsOptions = {}): Promise<ReportSuggestion[]> {
+    return withSignal(options.signal, () => this.suggestInternal(notebookId, options));
+  }
+
+  private async suggestInternal(notebookId: string, options: SuggestReportsOptions): Promise<ReportSuggestion[]> {
+    if (!notebookId || typeof notebookId !== 'string') {
+      throw new NotebookLMError('Invalid notebook ID format');
+    }
+    
+    return this.rpc.callCodec(
+      RPCCodecs.RPC_GENERATE_REPORT_SUGGESTIONS,
+      { notebookId, sourceIds: options.sourceIds ?? [] },
+      notebookId
+    );
+  }
 }
 
 class FlashcardService {
@@ -344,17 +472,19 @@ export class ArtifactsService {
   
   constructor(
     private rpc: RPCClient,
-    private quota?: import('../utils/quota.js').QuotaManager
+    private quota?: import('../utils/quota.js').QuotaManager,
+    notebookLanguage?: NotebookLanguageService
   ) {
     this.video = new VideoService(this);
-    this.audio = new AudioService(this);
+    this.audio = new AudioService(this, this.rpc);
     this.infographic = new InfographicService(this);
     this.mindmap = new MindMapService(this);
-    this.report = new ReportService(this);
+    this.report = new ReportService(this, this.rpc);
     this.flashcard = new FlashcardService(this);
     this.quiz = new QuizService(this);
     this.slide = new SlideService(this);
-    this.notebookLanguageService = new NotebookLanguageService(this.rpc);
+    // Shared with the client, so languages set through sdk.notebookLanguage apply here too
+    this.notebookLanguageService = notebookLanguage ?? new NotebookLanguageService(this.rpc);
   }
   
   /**
@@ -369,11 +499,27 @@ export class ArtifactsService {
       return await this.notebookLanguageService.get(notebookId);
     } catch (error) {
       // If we can't get the notebook language, default to 'en'
-      console.warn(`Failed to get notebook language for ${notebookId}, defaulting to 'en':`, error);
+      this.rpc.getLogger().warn("Failed to get notebook language, defaulting to 'en'", { notebookId, error });
       return 'en';
     }
   }
   
+  /**
+   * Run a file download inside a `notebooklm.download` span
+   */
+  private traceDownload<T>(
+    kind: string,
+    artifactId: string,
+    notebookId: string | undefined,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    return withSpan(this.rpc.getTracer(), 'notebooklm.download', {
+      'notebooklm.download.kind': kind,
+      'notebooklm.artifact_id': artifactId,
+      'notebooklm.notebook_id': notebookId,
+    }, fn);
+  }
+  
   /**
    * List all artifacts for a notebook
    * 
@@ -420,17 +566,17 @@ export class ArtifactsService {
    * });
    * ```
    */
-  async list(notebookId: string, options?: { type?: ArtifactType; state?: ArtifactState }): Promise<Artifact[]> {
-    const response = await this.rpc.call(
-      RPC.RPC_LIST_ARTIFACTS,
-      [
-        [2], // filter parameter - 2 for all artifacts
-        notebookId,
-      ],
-      notebookId
-    );
+  async list(notebookId: string, options?: { type?: ArtifactType; state?: ArtifactState } & RequestOptions): Promise<Artifact[]> {
+    return withSignal(options?.signal, () => this.listInternal(notebookId, options));
+  }
+
+  private async listInternal(
+    notebookId: string,
+    options?: { type?: ArtifactType; state?: ArtifactState } & RequestOptions
+  ): Promise<Artifact[]> {
+    const records = await this.rpc.callCodec(RPCCodecs.RPC_LIST_ARTIFACTS, { notebookId }, notebookId);
     
-    let artifacts = this.parseListResponse(response);
+    let artifacts = this.parseListResponse([records.map(record => record.raw)]);
     
     // Apply filters if provided
     if (options) {
@@ -465,6 +611,7 @@ export class ArtifactsService {
    * 
    * @param artifactId - The artifact ID (from create() or list())
    * @param newTitle - New title
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -477,7 +624,11 @@ export class ArtifactsService {
    * const renamed = await client.artifacts.rename(audio.audioId, 'My Audio Overview');
    * ```
    */
-  async rename(artifactId: string, newTitle: string): Promise<Artifact> {
+  async rename(artifactId: string, newTitle: string, options: RequestOptions = {}): Promise<Artifact> {
+    return withSignal(options.signal, () => this.renameInternal(artifactId, newTitle));
+  }
+
+  private async renameInternal(artifactId: string, newTitle: string): Promise<Artifact> {
     const response = await this.rpc.call(
       RPC.RPC_RENAME_ARTIFACT,
       [
@@ -489,6 +640,135 @@ export class ArtifactsService {
     return this.parseArtifactResponse(response);
   }
   
+  /**
+   * Update an existing artifact in place
+   * 
+   * **What it does:** Changes an artifact's instructions, source selection or customization, and can 
+   * regenerate its content. The artifact keeps its ID, so references to it stay valid (unlike 
+   * delete-and-recreate).
+   * 
+   * **Input:**
+   * - `notebookId` (string, required): The notebook containing the artifact
+   * - `artifactId` (string, required): The artifact to update
+   * - `patch` (object, required): Changes to apply - only fields that are set are sent:
+   *   - `instructions` (string, optional): New custom instructions
+   *   - `sourceIds` (string[], optional): New source selection (empty array = all sources)
+   *   - `customization` (object, optional): New customization, must match the artifact type
+   *   - `regenerate` (boolean, optional): Regenerate the content
+   * 
+   * **Output:** Returns an `UpdateArtifactResult` containing:
+   * - `artifact`: The updated artifact
+   * - `regenerationQueued`: Whether the server queued a regeneration - poll `get()` until `READY`
+   * - `updatedFields`: Fields sent in the update mask
+   * 
+   * **Note:**
+   * - Supported for Quiz, Flashcards, Slide Deck, Infographic, Report, Audio and Video
+   * - Customization is not supported for Reports (same as `create()`)
+   * - Regeneration counts against the same quota as creating the artifact
+   * 
+   * @param notebookId - The notebook ID
+   * @param artifactId - The artifact ID
+   * @param patch - Changes to apply
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * // Regenerate a quiz after the notebook's sources changed
+   * const { regenerationQueued } = await client.artifacts.update('notebook-id', 'quiz-id', {
+   *   sourceIds: [],
+   *   regenerate: true,
+   * });
+   * 
+   * // Change instructions and difficulty
+   * await client.artifacts.update('notebook-id', 'quiz-id', {
+   *   instructions: 'Focus on chapter 3',
+   *   customization: { numberOfQuestions: 2, difficulty: 3 },
+   *   regenerate: true,
+   * });
+   * ```
+   */
+  async update(notebookId: string, artifactId: string, patch: UpdateArtifactPatch, options: RequestOptions = {}): Promise<UpdateArtifactResult> {
+    return withSignal(options.signal, () => this.updateInternal(notebookId, artifactId, patch));
+  }
+
+  private async updateInternal(notebookId: string, artifactId: string, patch: UpdateArtifactPatch): Promise<UpdateArtifactResult> {
+    if (!notebookId || typeof notebookId !== 'string') {
+      throw new APIError('Invalid notebook ID format', undefined, 400);
+    }
+    if (!artifactId || typeof artifactId !== 'string') {
+      throw new APIError('Invalid artifact ID format', undefined, 400);
+    }
+    
+    const updateMask: string[] = [];
+    if (patch.instructions !== undefined) updateMask.push('instructions');
+    if (patch.sourceIds !== undefined) updateMask.push('source_ids');
+    if (patch.customization !== undefined) updateMask.push('customization');
+    
+    if (updateMask.length === 0 && !patch.regenerate) {
+      throw new APIError('No artifact changes to update', undefined, 400);
+    }
+    
+    const current = (await this.list(notebookId)).find(a => a.artifactId === artifactId);
+    if (!current || current.type === undefined) {
+      throw new APIError(`Artifact ${artifactId} not found in notebook ${notebookId}`, undefined, 404);
+    }
+    
+    const type = current.type;
+    const updatableTypes = [
+      ArtifactType.QUIZ,
+      ArtifactType.FLASHCARDS,
+      ArtifactType.SLIDE_DECK,
+      ArtifactType.INFOGRAPHIC,
+      ArtifactType.REPORT,
+      ArtifactType.AUDIO,
+      ArtifactType.VIDEO,
+    ];
+    if (!updatableTypes.includes(type)) {
+      throw new NotebookLMError(
+        `Updating is not supported for artifact type ${type}. ` +
+        `Updates are only supported for: Quiz, Flashcards, Slide Deck, Infographic, Report, Audio, Video.`
+      );
+    }
+    if (patch.customization && type === ArtifactType.REPORT) {
+      throw new NotebookLMError(`Customization is not supported for artifact type ${type}.`);
+    }
+    
+    // Keep the current source selection unless it is being changed
+    let sourceIds = patch.sourceIds ?? current.sourceIds ?? [];
+    if (sourceIds.length === 0) {
+      sourceIds = await this.getAllSourceIds(notebookId);
+    }
+    
+    const quotaType = patch.regenerate ? this.getQuotaType(type) : null;
+    if (quotaType) {
+      this.quota?.checkQuota(quotaType);
+    }
+    
+    const artifactData = await this.buildR7cb6cArtifact(notebookId, type, {
+      title: current.title,
+      instructions: patch.instructions,
+      sourceIds,
+      customization: patch.customization,
+    });
+    artifactData[0] = artifactId;
+    artifactData[1] = current.title ?? null;
+    
+    const result = await this.rpc.callCodec(
+      RPCCodecs.RPC_UPDATE_ARTIFACT,
+      { notebookId, artifact: artifactData, updateMask, regenerate: patch.regenerate === true },
+      notebookId
+    );
+    
+    const artifact = this.parseArtifactData(result.artifact.raw) ?? current;
+    const regenerationQueued = result.regenerationQueued ?? artifact.state === ArtifactState.CREATING;
+    
+    if (quotaType && regenerationQueued) {
+      this.quota?.recordUsage(quotaType);
+    }
+    
+    return { artifact, regenerationQueued, updatedFields: updateMask };
+  }
+  
   /**
    * Delete an artifact
    * 
@@ -512,6 +792,7 @@ export class ArtifactsService {
    * 
    * @param artifactId - The artifact ID (from create() or list())
    * @param notebookId - Optional notebook ID (helpful for audio/video if get() needs it)
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -522,7 +803,11 @@ export class ArtifactsService {
    * await client.artifacts.delete('artifact-id', 'notebook-id');
    * ```
    */
-  async delete(artifactId: string, notebookId?: string): Promise<void> {
+  async delete(artifactId: string, notebookId?: string, options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.deleteInternal(artifactId, notebookId));
+  }
+
+  private async deleteInternal(artifactId: string, notebookId?: string): Promise<void> {
     // Audio and Video artifacts use V5N4be RPC with [[2], artifactId] structure
     // Other artifacts use WxBZtb RPC with [artifactId] structure
     // We need to check the artifact type to determine which RPC to use
@@ -590,6 +875,7 @@ export class ArtifactsService {
    * 
    * **Note:**
    * - Artifacts are shared at the notebook level - sharing an artifact shares the entire notebook
+   * - To share a single audio overview without the notebook, use `audio.share()`
    * - Must provide either `users` array or `accessType=1` (anyone with link)
    * - User roles: 2=editor, 3=viewer, 4=remove (removes user access)
    * 
@@ -621,6 +907,10 @@ export class ArtifactsService {
    * ```
    */
   async share(notebookId: string, options: ShareArtifactOptions = {}): Promise<ShareArtifactResult> {
+    return withSignal(options.signal, () => this.shareInternal(notebookId, options));
+  }
+
+  private async shareInternal(notebookId: string, options: ShareArtifactOptions): Promise<ShareArtifactResult> {
     if (!notebookId || typeof notebookId !== 'string') {
       throw new APIError('Invalid notebook ID format', undefined, 400);
     }
@@ -721,6 +1011,52 @@ export class ArtifactsService {
     };
   }
   
+  /**
+   * Get sharing details for a notebook or a single artifact
+   * 
+   * Pass `artifactId` to read the artifact's own share state (e.g. an audio overview shared with
+   * `audio.share()`), which is independent of notebook-level sharing.
+   * 
+   * @param notebookId - The notebook ID
+   * @param artifactId - Optional artifact ID (omit for notebook-level sharing)
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * const details = await client.artifacts.getSharingDetails('notebook-id', 'audio-id');
+   * if (details.isPublic) {
+   *   console.log(`Public link: ${details.shareUrl}`);
+   * }
+   * ```
+   */
+  async getSharingDetails(notebookId: string, artifactId?: string, options: RequestOptions = {}): Promise<ArtifactSharingDetails> {
+    return withSignal(options.signal, () => this.getSharingDetailsInternal(notebookId, artifactId));
+  }
+
+  private async getSharingDetailsInternal(notebookId: string, artifactId?: string): Promise<ArtifactSharingDetails> {
+    if (!notebookId || typeof notebookId !== 'string') {
+      throw new APIError('Invalid notebook ID format', undefined, 400);
+    }
+    if (artifactId !== undefined && (!artifactId || typeof artifactId !== 'string')) {
+      throw new APIError('Invalid artifact ID format', undefined, 400);
+    }
+    
+    const sharing = await this.rpc.callCodec(
+      RPCCodecs.RPC_GET_SHARING_DETAILS,
+      { notebookId, artifactId },
+      notebookId
+    );
+    
+    return {
+      notebookId,
+      artifactId,
+      isPublic: sharing.isPublic,
+      shareUrl: sharing.shareUrl,
+      shareId: sharing.shareId,
+      users: sharing.users,
+    };
+  }
+  
   /**
    * Get artifact details
    * 
@@ -795,7 +1131,15 @@ export class ArtifactsService {
    * console.log('Video saved to:', video.downloadPath);
    * ```
    */
-  async get(artifactId: string, notebookId?: string, options?: { exportToDocs?: boolean; exportToSheets?: boolean } & GetSlideOptions & GetVideoOptions): Promise<Artifact | QuizData | FlashcardData | AudioArtifact | VideoArtifact | any> {
+  async get(artifactId: string, notebookId?: string, options?: { exportToDocs?: boolean; exportToSheets?: boolean } & GetSlideOptions & GetVideoOptions & RequestOptions): Promise<Artifact | QuizData | FlashcardData | AudioArtifact | VideoArtifact | any> {
+    return withSignal(options?.signal, () => this.getInternal(artifactId, notebookId, options));
+  }
+
+  private async getInternal(
+    artifactId: string,
+    notebookId?: string,
+    options?: { exportToDocs?: boolean; exportToSheets?: boolean } & GetSlideOptions & GetVideoOptions & RequestOptions
+  ): Promise<Artifact | QuizData | FlashcardData | AudioArtifact | VideoArtifact | any> {
     let artifact: Artifact;
     
     if (notebookId && artifactId === notebookId) {
@@ -896,7 +1240,11 @@ export class ArtifactsService {
           }
           
           // Download video using Playwright
-          const videoBuffer = await downloadVideoWithPlaywright(videoUrl, rpcCookies);
+          const videoBuffer = await this.traceDownload('video', artifactId, notebookId, async (span) => {
+            const buffer = await downloadVideoWithPlaywright(videoUrl!, rpcCookies, downloadSettings(this.rpc));
+            span.setAttribute('notebooklm.download.size', buffer.length);
+            return buffer;
+          });
           
           // Save video
           const fsModule: any = await import('fs/promises').catch(() => null);
@@ -940,7 +1288,14 @@ export class ArtifactsService {
           }
           
           // Download images using Playwright
-          const images = await downloadSlideImages(imageUrls, rpcCookies);
+          const images = await this.traceDownload('slide_images', artifactId, notebookId, async (span) => {
+            const buffers = await downloadSlideImages(imageUrls, rpcCookies, downloadSettings(this.rpc));
+            span.setAttributes({
+              'notebooklm.download.size': buffers.reduce((total, buffer) => total + buffer.length, 0),
+              'notebooklm.download.files': buffers.length,
+            });
+            return buffers;
+          });
           
           // Save as PDF (default) or PNG
           const downloadFormat = slideOptions.downloadAs || 'pdf';
@@ -1250,6 +1605,10 @@ export class ArtifactsService {
     type: ArtifactType,
     options: CreateArtifactOptions = {}
   ): Promise<Artifact> {
+    return withSignal(options.signal, () => this.createInternal(notebookId, type, options));
+  }
+
+  private async createInternal(notebookId: string, type: ArtifactType, options: CreateArtifactOptions): Promise<Artifact> {
     // Validate that customization is only provided for supported types
     const supportedCustomizationTypes = [
       ArtifactType.QUIZ,
@@ -1384,6 +1743,7 @@ export class ArtifactsService {
    * @param artifactId - The artifact ID
    * @param folderPath - Folder path where to save the file
    * @param notebookId - Optional notebook ID (for audio artifacts)
+   * @param options - Optional `signal` to cancel the call
    * @returns Object with filePath and data
    * 
    * @example
@@ -1433,7 +1793,16 @@ export class ArtifactsService {
     artifactId: string, 
     folderPath: string,
     notebookId?: string,
-    artifactType?: ArtifactType
+    artifactType?: ArtifactType,
+    options: RequestOptions = {}
+  ): Promise<{ filePath: string; data: QuizData | FlashcardData | AudioArtifact | VideoArtifact | any }> {
+    return withSignal(options.signal, () => this.downloadInternal(artifactId, folderPath, notebookId));
+  }
+
+  private async downloadInternal(
+    artifactId: string,
+    folderPath: string,
+    notebookId?: string
   ): Promise<{ filePath: string; data: QuizData | FlashcardData | AudioArtifact | VideoArtifact | any }> {
     if (!notebookId) {
       throw new NotebookLMError('notebookId is required for download');
@@ -1513,7 +1882,14 @@ export class ArtifactsService {
       }
       
       // Download images using Playwright
-      const images = await downloadSlideImages(imageUrls, rpcCookies);
+      const images = await this.traceDownload('slide_images', artifactId, notebookId, async (span) => {
+        const buffers = await downloadSlideImages(imageUrls, rpcCookies, downloadSettings(this.rpc));
+        span.setAttributes({
+          'notebooklm.download.size': buffers.reduce((total, buffer) => total + buffer.length, 0),
+          'notebooklm.download.files': buffers.length,
+        });
+        return buffers;
+      });
       
       // Save as PDF by default
       const result = await saveSlideImages(
@@ -1828,6 +2204,26 @@ export class ArtifactsService {
     artifactType: ArtifactType,
     options: CreateArtifactOptions
   ): Promise<Artifact> {
+    const artifactData = await this.buildR7cb6cArtifact(notebookId, artifactType, options);
+    
+    const response = await this.rpc.call(
+      RPC.RPC_CREATE_VIDEO_OVERVIEW, // R7cb6c is the same constant
+      [[2], notebookId, artifactData],
+      notebookId
+    );
+    
+    return this.parseArtifactResponse(response);
+  }
+  
+  /**
+   * Build the artifact payload shared by R7cb6c (create) and DJezBc (update)
+   * Structure: [artifactId, title, type, sourceIds, ...nulls, customization]
+   */
+  private async buildR7cb6cArtifact(
+    notebookId: string,
+    artifactType: ArtifactType,
+    options: CreateArtifactOptions
+  ): Promise<any[]> {
     const { instructions = '', sourceIds = [], customization } = options;
     const apiType = this.getApiTypeNumber(artifactType);
     
@@ -1938,14 +2334,8 @@ export class ArtifactsService {
         ];
       }
       
-      // Make RPC call immediately - NO language logic touched
-      const response = await this.rpc.call(
-        RPC.RPC_CREATE_VIDEO_OVERVIEW,
-        args,
-        notebookId
-      );
-      
-      return this.parseArtifactResponse(response);
+      // Return immediately - NO language logic touched
+      return args[2];
     }
     
     // For all other artifact types, handle language logic
@@ -2071,9 +2461,10 @@ export class ArtifactsService {
         // Note: sourceIds in customization are DOUBLE-nested [["id"]], not triple-nested
         // Note: Reports use index 7, NOT index 8! Array should be length 8 (0-7), not extended
         // ALWAYS set customization array, even if no customization object provided
-        const reportTitle = options.title || 'Report';
-        const reportDescription = 'Create a comprehensive report'; // Default description
-        const instructionsText = instructions || null;
+        const suggestion = options.reportSuggestion;
+        const reportTitle = options.title || suggestion?.title || 'Report';
+        const reportDescription = suggestion?.description || 'Create a comprehensive report'; // Default description
+        const instructionsText = instructions || suggestion?.prompt || null;
         const language = defaultLanguage; // Default language (notebook's default)
         
         // Format: 2 = "Create Your Own" (default format for custom reports)
@@ -2151,14 +2542,7 @@ export class ArtifactsService {
       }
     }
     
-    // For all other artifact types (not Quiz/Flashcards), make the RPC call here
-    const response = await this.rpc.call(
-      RPC.RPC_CREATE_VIDEO_OVERVIEW, // R7cb6c is the same constant
-      args,
-      notebookId
-    );
-    
-    return this.parseArtifactResponse(response);
+    return args[2];
   }
   
   /**
@@ -2412,62 +2796,9 @@ export class ArtifactsService {
    * Used when sourceIds is omitted/empty - automatically uses all sources
    */
   private async getAllSourceIds(notebookId: string): Promise<string[]> {
-    try {
-      // Call RPC_GET_PROJECT to get notebook data (includes sources)
-      // Same RPC call that SourcesService.list() uses
-      const response = await this.rpc.call(
-        RPC.RPC_GET_PROJECT,
-        [notebookId, null, [2], null, 0],
-        notebookId
-      );
-      
-      // Parse response to extract source IDs
-      let parsedResponse = response;
-      if (typeof response === 'string') {
-        parsedResponse = JSON.parse(response);
-      }
-      
-      if (!Array.isArray(parsedResponse) || parsedResponse.length === 0) {
-        return [];
-      }
-      
-      let data = parsedResponse;
-      
-      // Handle nested array structure
-      if (Array.isArray(parsedResponse[0])) {
-        data = parsedResponse[0];
-      }
-      
-      // Sources are in data[1]
-      if (!Array.isArray(data[1])) {
-        return [];
-      }
-      
-      const sourceIds: string[] = [];
-      
-      for (const sourceData of data[1]) {
-        if (!Array.isArray(sourceData) || sourceData.length === 0) {
-          continue;
-        }
-        
-        // Extract source ID from [0][0] or [0]
-        let sourceId: string | undefined;
-        if (Array.isArray(sourceData[0]) && sourceData[0].length > 0) {
-          sourceId = sourceData[0][0];
-        } else if (typeof sourceData[0] === 'string') {
-          sourceId = sourceData[0];
-        }
-        
-        if (sourceId && typeof sourceId === 'string') {
-          sourceIds.push(sourceId);
-        }
-      }
-      
-      return sourceIds;
-    } catch (error) {
-      // If we can't fetch sources, return empty array (will throw error in create())
-      return [];
-    }
+    // Same RPC call that SourcesService.list() uses (project data includes sources)
+    const project = await this.rpc.callCodec(RPCCodecs.RPC_GET_PROJECT, { notebookId }, notebookId);
+    return project.sources.map(source => source.sourceId);
   }
   
   // ========================================================================
@@ -3232,6 +3563,13 @@ export async function downloadAudioFile(
   if (!audioId) {
     throw new NotebookLMError('Audio ID is required');
   }
+  const span = rpc.getTracer().startSpan('notebooklm.download', {
+    attributes: {
+      'notebooklm.download.kind': 'audio',
+      'notebooklm.artifact_id': audioId,
+      'notebooklm.notebook_id': notebookId,
+    },
+  });
   try {
     let audioData: Uint8Array | null = null;
     let audioUrl: string | null = null;
@@ -3305,9 +3643,9 @@ export async function downloadAudioFile(
         audioUrl = parseAudioDownloadResponse(response, audioId);
         if (audioUrl) {
           try {
-            audioData = await downloadAudioFromUrl(audioUrl, rpc.getCookies());
+            audioData = await downloadAudioFromUrl(audioUrl, rpc.getCookies(), downloadSettings(rpc));
           } catch (urlError: any) {
-            console.warn(`URL download failed, trying base64 extraction: ${urlError.message}`);
+            rpc.getLogger().warn('Audio URL download failed, trying base64 extraction', { audioId, notebookId, error: urlError });
             const base64Data = extractBase64AudioData(response);
             if (base64Data) {
               audioData = decodeBase64ToUint8Array(base64Data);
@@ -3328,6 +3666,11 @@ export async function downloadAudioFile(
     if (!audioData) {
       throw new NotebookLMError(`Failed to extract audio data. Audio may not be ready yet.`);
     }
+    span.setAttributes({
+      'notebooklm.download.size': audioData.length,
+      'notebooklm.download.source': audioUrl ? 'url' : 'inline',
+    });
+    endSpan(span);
     return {
       audioData,
       audioUrl,
@@ -3357,6 +3700,7 @@ export async function downloadAudioFile(
       },
     };
   } catch (error: any) {
+    endSpan(span, error);
     throw new NotebookLMError(
       `Failed to download audio file for audio ID ${audioId}: ${error.message}`
     );
@@ -3443,27 +3787,26 @@ function parseAudioDownloadResponse(response: any, audioId?: string): string | n
   return findUrl(response);
 }
 
-function downloadAudioFromUrl(url: string, cookies: string): Promise<Uint8Array> {
+function downloadAudioFromUrl(url: string, cookies: string, settings: DownloadSettings = {}): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
     const isHttps = urlObj.protocol === 'https:';
-    const httpModule = isHttps ? https : http;
-    const options: any = {
+    const req = requestDownload(urlObj, {
       hostname: urlObj.hostname,
       port: urlObj.port || (isHttps ? 443 : 80),
       path: urlObj.pathname + urlObj.search,
       method: 'GET',
+      signal: currentSignal(),
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
         'Cookie': cookies,
         'Accept': '*/*',
         'Accept-Language': 'en-US,en;q=0.9',
       },
-    };
-    const req = httpModule.request(options, (res) => {
+    }, settings, (res) => {
       if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
         if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-          return downloadAudioFromUrl(res.headers.location, cookies)
+          return downloadAudioFromUrl(res.headers.location, cookies, settings)
             .then(resolve)
             .catch(reject);
         }
@@ -4346,7 +4689,7 @@ export async function fetchInfographic(
       imageUrl = urlObj.toString();
     }
   } catch (urlError) {
-    console.warn(`Warning: Could not parse image URL: ${imageUrl}`);
+    rpc.getLogger().warn('Could not parse infographic image URL', { artifactId: infographicId, notebookId, imageUrl });
   }
   const dimensions = parseDimensionsFromUrl(imageUrl);
   const result: InfographicImageData = { imageUrl, mimeType: 'image/png', ...dimensions };
@@ -4355,7 +4698,7 @@ export async function fetchInfographic(
     if (!cookies || !cookies.trim()) {
       throw new NotebookLMError('Cookies are required for downloading infographic images. Please provide cookies in the options or ensure the RPC client has cookies configured.');
     }
-    const imageData = await downloadImageFromUrl(imageUrl, cookies);
+    const imageData = await downloadImageFromUrl(imageUrl, cookies, downloadSettings(rpc));
     result.imageData = imageData;
   }
   return result;
@@ -4442,11 +4785,11 @@ function parseDimensionsFromUrl(url: string): { width?: number; height?: number
   return dimensions;
 }
 
-async function downloadImageFromUrl(url: string, cookies: string): Promise<Uint8Array | ArrayBuffer> {
+async function downloadImageFromUrl(url: string, cookies: string, settings: DownloadSettings = {}): Promise<Uint8Array | ArrayBuffer> {
   // Pre-authenticate if cookies available
   if (cookies && cookies.trim()) {
     try {
-      await preAuthenticateForDownload(cookies);
+      await preAuthenticateForDownload(cookies, settings);
     } catch {
       // Don't fail if pre-auth fails
     }
@@ -4454,16 +4797,15 @@ async function downloadImageFromUrl(url: string, cookies: string): Promise<Uint8
   
   const isNode = typeof process !== 'undefined' && process.versions?.node;
   if (isNode) {
-    return downloadWithNodeHttp(url, cookies);
+    return downloadWithNodeHttp(url, cookies, settings);
   } else {
-    return downloadWithFetch(url, cookies);
+    return downloadWithFetch(url, cookies, settings);
   }
 }
 
-async function downloadWithNodeHttp(url: string, cookies?: string): Promise<Uint8Array | ArrayBuffer> {
+async function downloadWithNodeHttp(url: string, cookies?: string, settings: DownloadSettings = {}): Promise<Uint8Array | ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
-    const client = urlObj.protocol === 'https:' ? https : http;
     const headers: Record<string, string> = {
       'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
       'Accept-Language': 'en-IN,en-GB;q=0.9,en;q=0.8,en-US;q=0.7',
@@ -4477,17 +4819,17 @@ async function downloadWithNodeHttp(url: string, cookies?: string): Promise<Uint
       headers['Cookie'] = cookies;
       headers['sec-fetch-storage-access'] = 'active';
     }
-    const options = {
+    const req = requestDownload(urlObj, {
       hostname: urlObj.hostname,
       port: urlObj.port || (urlObj.protocol === 'https:' ? 443 : 80),
       path: urlObj.pathname + urlObj.search,
       method: 'GET',
+      signal: currentSignal(),
       headers,
-    };
-    const req = client.request(options, (res: any) => {
+    }, settings, (res: any) => {
       if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
         if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-          return downloadImageFromUrl(res.headers.location, cookies || '').then(resolve).catch(reject);
+          return downloadImageFromUrl(res.headers.location, cookies || '', settings).then(resolve).catch(reject);
         }
         reject(new NotebookLMError(`Failed to download image: HTTP ${res.statusCode}`));
         return;
@@ -4506,7 +4848,7 @@ async function downloadWithNodeHttp(url: string, cookies?: string): Promise<Uint
   });
 }
 
-async function downloadWithFetch(url: string, cookies?: string): Promise<Uint8Array | ArrayBuffer> {
+async function downloadWithFetch(url: string, cookies?: string, settings: DownloadSettings = {}): Promise<Uint8Array | ArrayBuffer> {
   const headers: Record<string, string> = {
     'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
     'Accept-Language': 'en-IN,en-GB;q=0.9,en;q=0.8,en-US;q=0.7',
@@ -4523,7 +4865,7 @@ async function downloadWithFetch(url: string, cookies?: string): Promise<Uint8Ar
     headers['Cookie'] = cookies;
     headers['sec-fetch-storage-access'] = 'active';
   }
-  const response = await fetch(url, { method: 'GET', headers, redirect: 'follow' });
+  const response = await fetchDownload(url, { method: 'GET', headers, redirect: 'follow', signal: currentSignal() }, settings);
   if (!response.ok) {
     let errorMessage = `HTTP ${response.status} ${response.statusText}`;
     if (response.status === 403) {
@@ -4550,6 +4892,13 @@ export async function downloadSlidesFile(
 }> {
   if (!slideId) throw new NotebookLMError('Slide ID is required');
   if (!notebookId) throw new NotebookLMError('Notebook ID is required');
+  const span = rpc.getTracer().startSpan('notebooklm.download', {
+    attributes: {
+      'notebooklm.download.kind': 'slides',
+      'notebooklm.artifact_id': slideId,
+      'notebooklm.notebook_id': notebookId,
+    },
+  });
   try {
     const artifactsService = new ArtifactsService(rpc);
     const artifacts = await artifactsService.list(notebookId);
@@ -4610,7 +4959,9 @@ export async function downloadSlidesFile(
     if (!finalCookies || !finalCookies.trim()) {
       throw new NotebookLMError('Cookies are required for downloading PDF. Please ensure the RPC client has cookies configured or provide googleDomainCookies in options.');
     }
-    const slidesData = await downloadPdfFromUrl(pdfUrl, finalCookies);
+    const slidesData = await downloadPdfFromUrl(pdfUrl, finalCookies, downloadSettings(rpc));
+    span.setAttribute('notebooklm.download.size', slidesData.length);
+    endSpan(span);
     return {
       slidesData,
       pdfUrl,
@@ -4640,6 +4991,7 @@ export async function downloadSlidesFile(
       },
     };
   } catch (error: any) {
+    endSpan(span, error);
     throw new NotebookLMError(`Failed to download slide deck file for slide ID ${slideId}: ${error.message}`);
   }
 }
@@ -4782,12 +5134,14 @@ function parseCookies(cookieString: string, domain: string = 'notebooklm.google.
 /**
  * Download video using Playwright
  */
-async function downloadVideoWithPlaywright(videoUrl: string, cookies: string): Promise<Buffer> {
-  const browser = await chromium.launch({ headless: true });
+async function downloadVideoWithPlaywright(videoUrl: string, cookies: string, settings: DownloadSettings = {}): Promise<Buffer> {
+  const browser = await chromium.launch({ headless: true, ...settings.network?.browserLaunchOptions() });
+  const detachAbort = closeBrowserOnAbort(browser);
   const context = await browser.newContext({
-    userAgent: USER_AGENT,
+    userAgent: settings.network?.userAgent ?? USER_AGENT,
     viewport: { width: 1280, height: 800 }
   });
+  recordBrowserDownloads(context, settings.capture);
   
   try {
     // Set cookies
@@ -4828,19 +5182,42 @@ async function downloadVideoWithPlaywright(videoUrl: string, cookies: string): P
     
     return Buffer.from(videoBuffer);
   } finally {
+    detachAbort();
     await browser.close();
   }
 }
 
+/**
+ * Close the browser as soon as the current call is aborted (pending page operations then reject)
+ * Returns a function that detaches the listener
+ */
+function closeBrowserOnAbort(browser: Browser): () => void {
+  const signal = currentSignal();
+  if (!signal) {
+    return () => {};
+  }
+  
+  const onAbort = () => {
+    browser.close().catch(() => {});
+  };
+  if (signal.aborted) {
+    onAbort();
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
 /**
  * Download slide images using Playwright
  */
-async function downloadSlideImages(imageUrls: string[], cookies: string): Promise<Buffer[]> {
-  const browser = await chromium.launch({ headless: true });
+async function downloadSlideImages(imageUrls: string[], cookies: string, settings: DownloadSettings = {}): Promise<Buffer[]> {
+  const browser = await chromium.launch({ headless: true, ...settings.network?.browserLaunchOptions() });
+  const detachAbort = closeBrowserOnAbort(browser);
   const context = await browser.newContext({
-    userAgent: USER_AGENT,
+    userAgent: settings.network?.userAgent ?? USER_AGENT,
     viewport: { width: 1280, height: 800 }
   });
+  recordBrowserDownloads(context, settings.capture);
   
   try {
     // Set cookies
@@ -4861,6 +5238,7 @@ async function downloadSlideImages(imageUrls: string[], cookies: string): Promis
     
     return images;
   } finally {
+    detachAbort();
     await browser.close();
   }
 }
@@ -5028,16 +5406,16 @@ function extractPdfUrl(artifact: any): string | null {
   return searchForPdfUrl(artifact);
 }
 
-function downloadPdfFromUrl(url: string, cookies: string): Promise<Uint8Array> {
+function downloadPdfFromUrl(url: string, cookies: string, settings: DownloadSettings = {}): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
     const isHttps = urlObj.protocol === 'https:';
-    const httpModule = isHttps ? https : http;
-    const options: any = {
+    const req = requestDownload(urlObj, {
       hostname: urlObj.hostname,
       port: urlObj.port || (isHttps ? 443 : 80),
       path: urlObj.pathname + urlObj.search,
       method: 'GET',
+      signal: currentSignal(),
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36 Edg/143.0.0.0',
         'Cookie': cookies,
@@ -5047,12 +5425,11 @@ function downloadPdfFromUrl(url: string, cookies: string): Promise<Uint8Array> {
         'Referer': 'https://notebooklm.google.com/',
         'Origin': 'https://notebooklm.google.com',
       },
-    };
-    const req = httpModule.request(options, (res) => {
+    }, settings, (res) => {
       if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
         const location = res.headers.location;
         const redirectUrl = location.startsWith('http') ? location : `${urlObj.protocol}//${urlObj.hostname}${location}`;
-        return downloadPdfFromUrl(redirectUrl, cookies).then(resolve).catch(reject);
+        return downloadPdfFromUrl(redirectUrl, cookies, settings).then(resolve).catch(reject);
       }
       if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
         if (res.statusCode === 400 || res.statusCode === 401 || res.statusCode === 403) {
@@ -5488,7 +5865,14 @@ async function getVideoUrl(
     );
   }
   
-  return followRedirectsToFinalUrl(downloadUrl, finalCookies);
+  const attributes = {
+    'notebooklm.download.kind': 'video_url',
+    'notebooklm.notebook_id': notebookId,
+    'notebooklm.artifact_id': videoArtifact.artifactId,
+  };
+  return withSpan(rpc.getTracer(), 'notebooklm.download', attributes, (span) =>
+    followRedirectsToFinalUrl(downloadUrl, finalCookies, span, downloadSettings(rpc))
+  );
 }
 
 /**
@@ -5590,11 +5974,12 @@ function normalizeRedirectUrl(location: string, baseUrl: string): string {
  */
 async function followRedirectsToFinalUrl(
   url: string,
-  cookies: string
+  cookies: string,
+  span?: Span,
+  settings: DownloadSettings = {}
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
-    const client = urlObj.protocol === 'https:' ? https : http;
     
     const headers: Record<string, string> = {
       'Accept': '*/*',
@@ -5622,6 +6007,7 @@ async function followRedirectsToFinalUrl(
     let accumulatedCookies = cookies || '';
     
     const followRedirects = (currentUrl: string, redirectCount: number = 0): void => {
+      span?.setAttribute('notebooklm.download.redirects', redirectCount);
       if (currentUrl.includes('googlevideo.com/videoplayback')) {
         resolve(currentUrl);
         return;
@@ -5633,7 +6019,6 @@ async function followRedirectsToFinalUrl(
       }
       
       const reqUrl = new URL(currentUrl);
-      const reqClient = reqUrl.protocol === 'https:' ? https : http;
       
       const stepHeaders: Record<string, string> = { ...headers };
       
@@ -5671,15 +6056,14 @@ async function followRedirectsToFinalUrl(
         stepHeaders['range'] = 'bytes=0-';
       }
       
-      const reqOptions = {
+      const req = requestDownload(reqUrl, {
         hostname: reqUrl.hostname,
         port: reqUrl.port || (reqUrl.protocol === 'https:' ? 443 : 80),
         path: reqUrl.pathname + reqUrl.search,
         method: 'GET',
+        signal: currentSignal(),
         headers: stepHeaders,
-      };
-      
-      const req = reqClient.request(reqOptions, (res) => {
+      }, settings, (res) => {
         const setCookieHeaders = res.headers['set-cookie'];
         if (setCookieHeaders) {
           const setCookieArray = Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders];
@@ -5823,12 +6207,12 @@ function extractVideoUrlFromArtifacts(artifactsResponse: any): string | null {
 function downloadVideoFromUrl(
   url: string,
   cookies: string,
-  googleDomainCookies?: string
+  googleDomainCookies?: string,
+  settings: DownloadSettings = {}
 ): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
     const isHttps = urlObj.protocol === 'https:';
-    const httpModule = isHttps ? https : http;
     
     let finalCookies = cookies;
     if (googleDomainCookies) {
@@ -5853,11 +6237,12 @@ function downloadVideoFromUrl(
         .join('; ');
     }
     
-    const options: any = {
+    const req = requestDownload(urlObj, {
       hostname: urlObj.hostname,
       port: urlObj.port || (isHttps ? 443 : 80),
       path: urlObj.pathname + urlObj.search,
       method: 'GET',
+      signal: currentSignal(),
       headers: {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
         'Cookie': finalCookies,
@@ -5865,12 +6250,10 @@ function downloadVideoFromUrl(
         'Accept-Language': 'en-US,en;q=0.9',
         'Range': 'bytes=0-',
       },
-    };
-    
-    const req = httpModule.request(options, (res) => {
+    }, settings, (res) => {
       if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
         if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-          return downloadVideoFromUrl(res.headers.location, cookies, googleDomainCookies)
+          return downloadVideoFromUrl(res.headers.location, cookies, googleDomainCookies, settings)
             .then(resolve)
             .catch(reject);
         }
@@ -5930,10 +6313,86 @@ function generateSAPISIDHASH(sapisid: string, timestamp: number): string {
   return hash.digest('hex');
 }
 
+/**
+ * Client settings the download helpers need (they run outside the transport)
+ */
+interface DownloadSettings {
+  network?: Network;
+  capture?: WireCapture;
+}
+
+function downloadSettings(rpc: RPCClient): DownloadSettings {
+  return { network: rpc.getNetwork(), capture: rpc.getCapture() };
+}
+
+/**
+ * Send a raw http(s) download request through the client's network settings (proxy/CA agent,
+ * user agent) and record it into the running wire capture
+ */
+function requestDownload(
+  url: URL,
+  options: http.RequestOptions & { headers: Record<string, string> },
+  settings: DownloadSettings,
+  callback: (res: http.IncomingMessage) => void
+): http.ClientRequest {
+  const { network, capture } = settings;
+  const requestOptions = network
+    ? { ...options, agent: network.agentFor(url), headers: network.applyUserAgent(options.headers) }
+    : options;
+  const record = capture?.download(options.method ?? 'GET', url.toString(), requestOptions.headers);
+  const client = url.protocol === 'https:' ? https : http;
+  const req = client.request(requestOptions, (res) => {
+    if (record) {
+      let size = 0;
+      record.response(res.statusCode ?? 0, res.statusMessage, res.headers);
+      res.on('data', (chunk: Buffer) => { size += chunk.length; });
+      res.on('end', () => record.finish(size));
+    }
+    callback(res);
+  });
+  if (record) {
+    req.on('error', (error) => record.fail(error));
+  }
+  return req;
+}
+
+/**
+ * Fetch a download through the client's network settings and record it into the running wire capture
+ */
+async function fetchDownload(
+  url: string,
+  init: Parameters<typeof networkFetch>[2] & { headers: Record<string, string> },
+  settings: DownloadSettings
+): Promise<Response> {
+  const record = settings.capture?.download(init.method ?? 'GET', url, init.headers);
+  try {
+    const response = await networkFetch(settings.network, url, init);
+    record?.response(response.status, response.statusText, response.headers);
+    return response;
+  } catch (error) {
+    record?.fail(error);
+    throw error;
+  }
+}
+
+/**
+ * Record the responses a browser context receives into the running wire capture
+ */
+function recordBrowserDownloads(context: BrowserContext, capture?: WireCapture): void {
+  if (!capture) {
+    return;
+  }
+  context.on('response', (response) => {
+    const request = response.request();
+    capture.download(request.method(), response.url(), request.headers())
+      .response(response.status(), response.statusText(), response.headers());
+  });
+}
+
 /**
  * Pre-authenticate by calling play.google.com/log
  */
-async function preAuthenticateForDownload(cookies: string): Promise<void> {
+async function preAuthenticateForDownload(cookies: string, settings: DownloadSettings = {}): Promise<void> {
   const sapisid = extractSAPISID(cookies);
   if (!sapisid) {
     return;
@@ -5955,7 +6414,7 @@ async function preAuthenticateForDownload(cookies: string): Promise<void> {
       const requestBody = `[[1,null,null,null,null,null,null,null,null,null,[null,null,null,null,"en",null,"boq_labs-tailwind-frontend_20250129.00_p0",null,[[["Microsoft Edge","143"],["Chromium","143"],["Not A(Brand","24"]],0,"macOS","15.2.0","arm","","143.0.3650.96"],[3,1]]],2090,[["${currentTimestamp}",null,null,null,null,null,null,null,null,null,null,null,null,null,-19800,[null,[""]],null,null,null,null,1,null,null,"[[[${currentTimestampSec},0,0],1],null,null,[1,null,3,null,null,null,null,null,null,null,null,null,null,[[1]],[{}]],null,null,null,null,[]]"]],"${currentTimestamp}",null,null,null,null,null,null,null,null,null,null,null,null,null,[[null,[null,null,null,null,null,null,null,null,null,null,null,null,96797242]],9]]]`;
       
       await new Promise<void>((resolve) => {
-        const req = https.request({
+        const req = requestDownload(urlObj, {
           hostname: urlObj.hostname,
           path: urlObj.pathname + urlObj.search,
           method: 'POST',
@@ -5968,7 +6427,7 @@ async function preAuthenticateForDownload(cookies: string): Promise<void> {
             'Referer': 'https://notebooklm.google.com/',
             'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36 Edg/143.0.0.0',
           },
-        }, (res: any) => {
+        }, settings, (res) => {
           res.on('end', () => resolve());
         });
         
@@ -5983,7 +6442,7 @@ async function preAuthenticateForDownload(cookies: string): Promise<void> {
       });
     } else {
       try {
-        await fetch(logUrl, {
+        await fetchDownload(logUrl, {
           method: 'POST',
           headers: {
             'Accept': '*/*',
@@ -5995,7 +6454,7 @@ async function preAuthenticateForDownload(cookies: string): Promise<void> {
           },
           body: '[]',
           signal: AbortSignal.timeout(5000),
-        });
+        }, settings);
       } catch {
         // Don't fail if pre-auth fails
       }
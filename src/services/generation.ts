@@ -1,6 +1,6 @@
 /**
  * Generation service
- * Handles generation operations (guides, chat)
+ * Handles generation operations (guides, outlines, drafted sections, chat)
  * 
  * CRITICAL FIXES VERIFIED:
  * ========================
@@ -20,8 +20,19 @@
 
 import { RPCClient } from '../rpc/rpc-client.js';
 import * as RPC from '../rpc/rpc-methods.js';
-import { NotebookLMError, type ChatConfig, ChatGoalType, ChatResponseLength, type ChatResponseData } from '../types/common.js';
+import { RPCCodecs } from '../rpc/codecs.js';
+import { NotebookLMError, NotebookLMAbortError, type ChatConfig, ChatGoalType, ChatResponseLength, type ChatResponseData, type RequestOptions } from '../types/common.js';
 import { StreamingClient, type StreamChunk, type StreamingOptions } from '../utils/streaming-client.js';
+import { withSignal } from '../utils/abort.js';
+import { withDefaultPriority } from '../rpc/rate-limiter.js';
+import type {
+  NotebookGuide,
+  NotebookOutline,
+  OutlineNode,
+  DraftSection,
+  DraftDocument,
+  DraftDocumentOptions,
+} from '../types/generation.js';
 
 /**
  * Service for generation operations
@@ -33,11 +44,8 @@ export class GenerationService {
     private rpc: RPCClient,
     private quota?: import('../utils/quota.js').QuotaManager
   ) {
-    // Initialize streaming client with RPC config
-    const rpcConfig = this.rpc.getConfig();
-    // Add batch client reference for f.sid access
-    (rpcConfig as any).batchClient = this.rpc.getBatchClient();
-    this.streamingClient = new StreamingClient(rpcConfig);
+    // Session parameters are read from the RPC client per request, so refreshes reach chat too
+    this.streamingClient = new StreamingClient(this.rpc.getConfig(), this.rpc.getMiddleware(), this.rpc);
   }
 
   /**
@@ -48,6 +56,7 @@ export class GenerationService {
    * @param config.type - Configuration type: 'default' | 'custom' | 'learning-guide'
    * @param config.customText - Custom prompt text (required if type is 'custom')
    * @param config.responseLength - Response length: 'default' | 'shorter' | 'longer'
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -67,8 +76,13 @@ export class GenerationService {
    */
   async setChatConfig(
     notebookId: string,
-    config: ChatConfig
+    config: ChatConfig,
+    options: RequestOptions = {}
   ): Promise<any> {
+    return withSignal(options.signal, () => this.setChatConfigInternal(notebookId, config));
+  }
+
+  private async setChatConfigInternal(notebookId: string, config: ChatConfig): Promise<any> {
     // Validate config
     if (config.type === 'custom' && !config.customText) {
       throw new NotebookLMError('customText is required when type is "custom"');
@@ -128,6 +142,176 @@ export class GenerationService {
     return response;
   }
 
+  // ========================================================================
+  // Guide, outline and drafting
+  // ========================================================================
+
+  /**
+   * Generate the notebook guide (summary of the sources + suggested questions)
+   * 
+   * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * const guide = await client.generation.generateNotebookGuide('notebook-id');
+   * console.log(guide.summary);
+   * guide.suggestedQuestions.forEach(q => console.log(`- ${q.question}`));
+   * ```
+   */
+  async generateNotebookGuide(notebookId: string, options: RequestOptions = {}): Promise<NotebookGuide> {
+    return withSignal(options.signal, () => this.generateNotebookGuideInternal(notebookId));
+  }
+
+  private async generateNotebookGuideInternal(notebookId: string): Promise<NotebookGuide> {
+    this.validateNotebookId(notebookId);
+    return this.rpc.callCodec(RPCCodecs.RPC_GENERATE_NOTEBOOK_GUIDE, { notebookId }, notebookId);
+  }
+
+  /**
+   * Generate an outline grounded in the notebook's sources
+   * 
+   * Returns the outline text plus a tree built from its headings and (nested) bullets.
+   * 
+   * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * const outline = await client.generation.generateOutline('notebook-id');
+   * for (const section of outline.sections) {
+   *   console.log(section.title);
+   *   section.children.forEach(child => console.log(`  - ${child.title}`));
+   * }
+   * ```
+   */
+  async generateOutline(notebookId: string, options: RequestOptions = {}): Promise<NotebookOutline> {
+    return withSignal(options.signal, () => this.generateOutlineInternal(notebookId));
+  }
+
+  private async generateOutlineInternal(notebookId: string): Promise<NotebookOutline> {
+    this.validateNotebookId(notebookId);
+    const content = await this.rpc.callCodec(RPCCodecs.RPC_GENERATE_OUTLINE, { notebookId }, notebookId);
+    return {
+      content,
+      sections: this.parseOutlineTree(content),
+    };
+  }
+
+  /**
+   * Draft the content of a section, grounded in the notebook's sources
+   * 
+   * @param notebookId - The notebook ID
+   * @param title - Section heading (e.g. from an outline node)
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * const section = await client.generation.generateSection('notebook-id', 'Background');
+   * console.log(section.content);
+   * ```
+   */
+  async generateSection(notebookId: string, title: string, options: RequestOptions = {}): Promise<DraftSection> {
+    return withSignal(options.signal, () => this.generateSectionInternal(notebookId, title));
+  }
+
+  private async generateSectionInternal(notebookId: string, title: string): Promise<DraftSection> {
+    this.validateNotebookId(notebookId);
+    this.validateSectionTitle(title);
+    const content = await this.rpc.callCodec(RPCCodecs.RPC_GENERATE_SECTION, { notebookId, title }, notebookId);
+    return { title, content };
+  }
+
+  /**
+   * Start a new draft document from the notebook's sources
+   * 
+   * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
+   * @returns The draft's opening text
+   * 
+   * @example
+   * ```typescript
+   * const intro = await client.generation.startDraft('notebook-id');
+   * ```
+   */
+  async startDraft(notebookId: string, options: RequestOptions = {}): Promise<string> {
+    return withSignal(options.signal, () => this.startDraftInternal(notebookId));
+  }
+
+  private async startDraftInternal(notebookId: string): Promise<string> {
+    this.validateNotebookId(notebookId);
+    return this.rpc.callCodec(RPCCodecs.RPC_START_DRAFT, { notebookId }, notebookId);
+  }
+
+  /**
+   * Start a new section in the current draft
+   * 
+   * @param notebookId - The notebook ID
+   * @param title - Section heading
+   * @param options - Optional `signal` to cancel the call
+   * @returns The section with its opening text
+   * 
+   * @example
+   * ```typescript
+   * await client.generation.startDraft('notebook-id');
+   * const section = await client.generation.startSection('notebook-id', 'Methods');
+   * ```
+   */
+  async startSection(notebookId: string, title: string, options: RequestOptions = {}): Promise<DraftSection> {
+    return withSignal(options.signal, () => this.startSectionInternal(notebookId, title));
+  }
+
+  private async startSectionInternal(notebookId: string, title: string): Promise<DraftSection> {
+    this.validateNotebookId(notebookId);
+    this.validateSectionTitle(title);
+    const content = await this.rpc.callCodec(RPCCodecs.RPC_START_SECTION, { notebookId, title }, notebookId);
+    return { title, content };
+  }
+
+  /**
+   * Draft a document section by section
+   * 
+   * Generates an outline (unless one is provided), then drafts each top-level
+   * outline section in order with `generateSection()`. When the outline has a single
+   * root (the document title), its children are drafted instead.
+   * 
+   * @param notebookId - The notebook ID
+   * @param options - Outline to draft from and per-section progress callback
+   * 
+   * @example
+   * ```typescript
+   * const doc = await client.generation.draftDocument('notebook-id', {
+   *   onSection: (section, i, total) => console.log(`Drafted ${i + 1}/${total}: ${section.title}`),
+   * });
+   * const markdown = doc.sections.map(s => `## ${s.title}\n\n${s.content}`).join('\n\n');
+   * ```
+   */
+  async draftDocument(notebookId: string, options: DraftDocumentOptions = {}): Promise<DraftDocument> {
+    return withSignal(options.signal, () => this.draftDocumentInternal(notebookId, options));
+  }
+
+  private async draftDocumentInternal(notebookId: string, options: DraftDocumentOptions): Promise<DraftDocument> {
+    const outline = options.outline ?? await this.generateOutline(notebookId);
+
+    // A single top-level node is the document title - draft its children instead
+    const nodes = outline.sections.length === 1 && outline.sections[0].children.length > 0
+      ? outline.sections[0].children
+      : outline.sections;
+
+    if (nodes.length === 0) {
+      throw new NotebookLMError('Outline has no sections to draft');
+    }
+
+    const sections: DraftSection[] = [];
+    for (const [index, node] of nodes.entries()) {
+      const section = await this.generateSection(notebookId, node.title);
+      sections.push(section);
+      options.onSection?.(section, index, nodes.length);
+    }
+
+    return { outline, sections };
+  }
+
   /**
    * Chat with notebook (non-streaming - returns full response data)
    * For streaming, use chatStream() method instead
@@ -144,6 +328,9 @@ export class GenerationService {
    * and pass them via the conversationId parameter context. The conversationHistory
    * parameter is for reference only - message IDs must be extracted from responses.
    * 
+   * With rate limiting configured, chat requests use the `interactive` lane and start
+   * ahead of queued bulk work.
+   * 
    * @example
    * ```typescript
    * // Non-streaming: Get complete response
@@ -154,6 +341,13 @@ export class GenerationService {
    * const response = await client.generation.chat('notebook-id', 'Summarize these sources', {
    *   sourceIds: ['source-id-1', 'source-id-2']
    * });
+   * 
+   * // Cancel when the user navigates away (throws NotebookLMAbortError)
+   * const controller = new AbortController();
+   * req.on('close', () => controller.abort());
+   * const response = await client.generation.chat('notebook-id', 'Explain this', {
+   *   signal: controller.signal,
+   * });
    * ```
    */
   async chat(
@@ -163,6 +357,20 @@ export class GenerationService {
       sourceIds?: string[];
       conversationHistory?: Array<{ message: string; role: 'user' | 'assistant' }>;
       conversationId?: string;
+      signal?: AbortSignal;
+    }
+  ): Promise<ChatResponseData> {
+    return withSignal(options?.signal, () => withDefaultPriority('interactive', () => this.chatInternal(notebookId, prompt, options)));
+  }
+
+  private async chatInternal(
+    notebookId: string,
+    prompt: string,
+    options?: {
+      sourceIds?: string[];
+      conversationHistory?: Array<{ message: string; role: 'user' | 'assistant' }>;
+      conversationId?: string;
+      signal?: AbortSignal;
     }
   ): Promise<ChatResponseData> {
     // Check quota before chat
@@ -186,6 +394,10 @@ export class GenerationService {
         // Parse sources from response (similar to SourcesService.parseSourcesFromResponse)
         sourceIds = this.extractSourceIdsFromResponse(projectResponse);
       } catch (error) {
+        // Cancelled or timed out - don't fall through to "no sources"
+        if (error instanceof NotebookLMAbortError) {
+          throw error;
+        }
         // If fetching sources fails, continue with empty array
         sourceIds = [];
       }
@@ -354,6 +566,7 @@ export class GenerationService {
    * @param options.conversationId - Optional conversation ID for continuing a conversation (auto-generated if not provided)
    * @param options.onChunk - Optional callback for each chunk
    * @param options.showThinking - Whether to include thinking process in output
+   * @param options.signal - Cancels the request and stops the stream (throws NotebookLMAbortError)
    * 
    * Note: For continuing conversations, extract messageIds from previous responses' metadata
    * and pass them via the conversationId context. The conversationHistory parameter is for
@@ -385,6 +598,7 @@ export class GenerationService {
       conversationId?: string;
       onChunk?: (chunk: StreamChunk) => void;
       showThinking?: boolean;
+      signal?: AbortSignal;
     }
   ): AsyncGenerator<StreamChunk, void, unknown> {
     // Check quota before chat
@@ -401,13 +615,17 @@ export class GenerationService {
         const projectResponse = await this.rpc.call(
           RPC.RPC_GET_PROJECT,
           [notebookId, null, [2], null, 0],
-          notebookId
+          notebookId,
+          { signal: options?.signal }
         );
         
         // Parse sources from response
         sourceIds = this.extractSourceIdsFromResponse(projectResponse);
       } catch (error) {
-        console.error('\n❌ Failed to fetch sources from notebook:', error);
+        if (error instanceof NotebookLMAbortError) {
+          throw error;
+        }
+        this.rpc.getLogger().error('Failed to fetch sources from notebook', { notebookId, error });
         sourceIds = [];
       }
     }
@@ -446,6 +664,7 @@ export class GenerationService {
     const streamOptions: StreamingOptions = {
       onChunk: options?.onChunk,
       showThinking: options?.showThinking,
+      signal: options?.signal,
     };
 
     for await (const chunk of this.streamingClient.streamChat(
@@ -532,6 +751,66 @@ export class GenerationService {
   // ========================================================================
   // Response parsers
   // ========================================================================
+
+  /**
+   * Build an outline tree from markdown headings and (indented) bullet/numbered items
+   * Headings set the base level; list items nest below the closest heading by indentation.
+   */
+  private parseOutlineTree(content: string): OutlineNode[] {
+    const roots: OutlineNode[] = [];
+    const stack: OutlineNode[] = [];
+    let headingLevel = 0;
+    let minHeading = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let level: number;
+      let title: string;
+
+      const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+      const item = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+
+      if (heading) {
+        const depth = heading[1].length;
+        minHeading = minHeading === 0 ? depth : Math.min(minHeading, depth);
+        level = depth - minHeading + 1;
+        headingLevel = level;
+        title = heading[2];
+      } else if (item) {
+        const indent = item[1].replace(/\t/g, '  ').length;
+        level = headingLevel + Math.floor(indent / 2) + 1;
+        title = item[2];
+      } else {
+        continue;
+      }
+
+      const node: OutlineNode = { title: title.replace(/\*\*/g, '').trim(), level, children: [] };
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      if (stack.length === 0) {
+        roots.push(node);
+      } else {
+        stack[stack.length - 1].children.push(node);
+      }
+      stack.push(node);
+    }
+
+    return roots;
+  }
+
+  private validateNotebookId(notebookId: string): void {
+    if (!notebookId || typeof notebookId !== 'string') {
+      throw new NotebookLMError('Invalid notebook ID format');
+    }
+  }
+
+  private validateSectionTitle(title: string): void {
+    if (!title || title.trim() === '') {
+      throw new NotebookLMError('Section title cannot be empty');
+    }
+  }
   
   private parseChatResponse(response: any): string {
     try {
@@ -0,0 +1,196 @@
+/**
+ * Guidebooks service
+ * Handles guidebook operations (published, learner-facing notebooks)
+ */
+
+import { RPCClient } from '../rpc/rpc-client.js';
+import { RPCCodecs } from '../rpc/codecs.js';
+import type {
+  Guidebook,
+  GuidebookDetails,
+  GuidebookAnswer,
+  PublishGuidebookOptions,
+  PublishGuidebookResult,
+  ShareGuidebookOptions,
+  ShareGuidebookResult,
+  AskGuidebookOptions,
+} from '../types/guidebook.js';
+import type { RequestOptions } from '../types/common.js';
+import { APIError } from '../utils/errors.js';
+import { withSignal } from '../utils/abort.js';
+
+/**
+ * Service for guidebook operations
+ */
+export class GuidebooksService {
+  constructor(private rpc: RPCClient) {}
+
+  /**
+   * List recently viewed guidebooks
+   *
+   * @example
+   * ```typescript
+   * const guidebooks = await client.guidebooks.list();
+   * guidebooks.forEach(g => console.log(g.title, GuidebookStatus[g.status]));
+   * ```
+   */
+  async list(options: RequestOptions = {}): Promise<Guidebook[]> {
+    return withSignal(options.signal, () => this.listInternal());
+  }
+
+  private async listInternal(): Promise<Guidebook[]> {
+    return this.rpc.callCodec(RPCCodecs.RPC_LIST_RECENTLY_VIEWED_GUIDEBOOKS, {});
+  }
+
+  /**
+   * Get a guidebook
+   *
+   * @param guidebookId - The guidebook ID
+   * @param options - Set `details: true` to include sections
+   *
+   * @example
+   * ```typescript
+   * const guidebook = await client.guidebooks.get('guidebook-id');
+   *
+   * // Include sections
+   * const details = await client.guidebooks.get('guidebook-id', { details: true });
+   * details.sections.forEach(s => console.log(s.title));
+   * ```
+   */
+  async get(guidebookId: string, options?: RequestOptions & { details?: false }): Promise<Guidebook>;
+  async get(guidebookId: string, options: RequestOptions & { details: true }): Promise<GuidebookDetails>;
+  async get(guidebookId: string, options?: RequestOptions & { details?: boolean }): Promise<Guidebook | GuidebookDetails>;
+  async get(guidebookId: string, options?: RequestOptions & { details?: boolean }): Promise<Guidebook | GuidebookDetails> {
+    return withSignal(options?.signal, () => this.getInternal(guidebookId, options));
+  }
+
+  private async getInternal(guidebookId: string, options?: RequestOptions & { details?: boolean }): Promise<Guidebook | GuidebookDetails> {
+    this.validateId(guidebookId);
+
+    if (options?.details) {
+      return this.rpc.callCodec(RPCCodecs.RPC_GET_GUIDEBOOK_DETAILS, { guidebookId });
+    }
+    return this.rpc.callCodec(RPCCodecs.RPC_GET_GUIDEBOOK, { guidebookId });
+  }
+
+  /**
+   * Publish a guidebook so learners can open it
+   *
+   * @param guidebookId - The guidebook ID
+   * @param options - Publish options (public by default)
+   *
+   * @example
+   * ```typescript
+   * const { guidebook, publicUrl } = await client.guidebooks.publish('guidebook-id', {
+   *   tags: ['biology', 'intro'],
+   * });
+   * console.log(`Published: ${publicUrl}`);
+   * ```
+   */
+  async publish(guidebookId: string, options: PublishGuidebookOptions = {}): Promise<PublishGuidebookResult> {
+    return withSignal(options.signal, () => this.publishInternal(guidebookId, options));
+  }
+
+  private async publishInternal(guidebookId: string, options: PublishGuidebookOptions): Promise<PublishGuidebookResult> {
+    this.validateId(guidebookId);
+
+    return this.rpc.callCodec(RPCCodecs.RPC_PUBLISH_GUIDEBOOK, { guidebookId, ...options });
+  }
+
+  /**
+   * Share a guidebook with specific people or by link
+   *
+   * @param guidebookId - The guidebook ID
+   * @param options - Share options
+   *
+   * @example
+   * ```typescript
+   * const { shareUrl } = await client.guidebooks.share('guidebook-id', {
+   *   emails: ['student@example.com'],
+   *   allowComments: true,
+   * });
+   * ```
+   */
+  async share(guidebookId: string, options: ShareGuidebookOptions = {}): Promise<ShareGuidebookResult> {
+    return withSignal(options.signal, () => this.shareInternal(guidebookId, options));
+  }
+
+  private async shareInternal(guidebookId: string, options: ShareGuidebookOptions): Promise<ShareGuidebookResult> {
+    this.validateId(guidebookId);
+
+    if (options.emails) {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      for (const email of options.emails) {
+        if (!emailRegex.test(email)) {
+          throw new APIError(`Invalid email address: ${email}`, undefined, 400);
+        }
+      }
+    }
+
+    return this.rpc.callCodec(RPCCodecs.RPC_SHARE_GUIDEBOOK, { guidebookId, ...options });
+  }
+
+  /**
+   * Delete one or more guidebooks
+   *
+   * @param guidebookIds - Single guidebook ID or array of IDs
+   * @param options - Optional `signal` to cancel the call
+   *
+   * @example
+   * ```typescript
+   * await client.guidebooks.delete('guidebook-id');
+   * await client.guidebooks.delete(['guidebook-1', 'guidebook-2']);
+   * ```
+   */
+  async delete(guidebookIds: string | string[], options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.deleteInternal(guidebookIds));
+  }
+
+  private async deleteInternal(guidebookIds: string | string[]): Promise<void> {
+    const ids = Array.isArray(guidebookIds) ? guidebookIds : [guidebookIds];
+    ids.forEach(id => this.validateId(id));
+
+    // One guidebook per call
+    for (const guidebookId of ids) {
+      await this.rpc.callCodec(RPCCodecs.RPC_DELETE_GUIDEBOOK, { guidebookId });
+    }
+  }
+
+  /**
+   * Ask a question against a guidebook
+   *
+   * @param guidebookId - The guidebook ID
+   * @param question - The question to answer
+   * @param options - Answer options
+   *
+   * @example
+   * ```typescript
+   * const { answer, sources } = await client.guidebooks.ask('guidebook-id', 'What is osmosis?');
+   * console.log(answer);
+   * console.log(`Based on ${sources.length} source(s)`);
+   * ```
+   */
+  async ask(guidebookId: string, question: string, options: AskGuidebookOptions = {}): Promise<GuidebookAnswer> {
+    return withSignal(options.signal, () => this.askInternal(guidebookId, question, options));
+  }
+
+  private async askInternal(guidebookId: string, question: string, options: AskGuidebookOptions): Promise<GuidebookAnswer> {
+    this.validateId(guidebookId);
+
+    if (!question || question.trim() === '') {
+      throw new APIError('Question cannot be empty', undefined, 400);
+    }
+
+    return this.rpc.callCodec(RPCCodecs.RPC_GUIDEBOOK_GENERATE_ANSWER, {
+      guidebookId,
+      question,
+      ...options,
+    });
+  }
+
+  private validateId(guidebookId: string): void {
+    if (!guidebookId || typeof guidebookId !== 'string') {
+      throw new APIError('Invalid guidebook ID format', undefined, 400);
+    }
+  }
+}
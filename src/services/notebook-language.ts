@@ -13,6 +13,8 @@
 import { RPCClient } from '../rpc/rpc-client.js';
 import * as RPC from '../rpc/rpc-methods.js';
 import { APIError } from '../utils/errors.js';
+import type { RequestOptions } from '../types/common.js';
+import { withSignal } from '../utils/abort.js';
 import { NotebookLMLanguage, isLanguageSupported } from '../types/languages.js';
 
 export interface NotebookLanguageInfo {
@@ -34,7 +36,8 @@ export class NotebookLanguageService {
   private languageCache: Map<string, string> = new Map();
   
   constructor(
-    private rpc: RPCClient
+    private rpc: RPCClient,
+    private defaultLanguage: string = 'en'
   ) {}
   
   /**
@@ -51,7 +54,7 @@ export class NotebookLanguageService {
    * 
    * **Note:**
    * - Returns cached language if available (set via `set()` method)
-   * - If not cached, defaults to 'en' (English)
+   * - If not cached, defaults to the client's `language` option ('en' unless configured)
    * - The language is cached when set via `set()` method
    * 
    * @param notebookId - The notebook ID
@@ -69,11 +72,10 @@ export class NotebookLanguageService {
       return this.languageCache.get(notebookId)!;
     }
     
-    // If not cached, default to 'en'
+    // If not cached, use the configured default
     // The language will be cached when set via set() method
-    const defaultLanguage = 'en';
-    this.languageCache.set(notebookId, defaultLanguage);
-    return defaultLanguage;
+    this.languageCache.set(notebookId, this.defaultLanguage);
+    return this.defaultLanguage;
   }
   
   /**
@@ -98,6 +100,7 @@ export class NotebookLanguageService {
    * 
    * @param notebookId - The notebook ID
    * @param language - Language code to set
+   * @param options - Optional `signal` to cancel the call
    * @returns The updated language code
    * 
    * @example
@@ -114,7 +117,11 @@ export class NotebookLanguageService {
    * await sdk.notebookLanguage.set('notebook-id', 'de');
    * ```
    */
-  async set(notebookId: string, language: string): Promise<string> {
+  async set(notebookId: string, language: string, options: RequestOptions = {}): Promise<string> {
+    return withSignal(options.signal, () => this.setInternal(notebookId, language));
+  }
+
+  private async setInternal(notebookId: string, language: string): Promise<string> {
     // Validate language code
     if (!language || typeof language !== 'string') {
       throw new APIError('Invalid language code. Must be a non-empty string.', undefined, 400);
@@ -125,7 +132,7 @@ export class NotebookLanguageService {
     
     // Validate that it's a supported language (optional check)
     if (!isLanguageSupported(normalizedLang)) {
-      console.warn(`Language code '${normalizedLang}' may not be supported. Proceeding anyway.`);
+      this.rpc.getLogger().warn('Language code may not be supported, proceeding anyway', { notebookId, language: normalizedLang });
     }
     
     try {
@@ -184,7 +191,7 @@ export class NotebookLanguageService {
         );
       } catch (error) {
         // ozz5Z call is optional, don't fail if it errors
-        console.warn('Optional ozz5Z RPC call failed (non-critical):', error);
+        this.rpc.getLogger().debug('Optional RPC call failed (non-critical)', { rpcId: 'ozz5Z', notebookId, error });
       }
       
       // Update cache
@@ -1,9 +1,11 @@
 import { RPCClient } from '../rpc/rpc-client.js';
 import * as RPC from '../rpc/rpc-methods.js';
+import { RPCCodecs, type ProjectRecord, type SharingRecord } from '../rpc/codecs.js';
 import type { Notebook, CreateNotebookOptions, UpdateNotebookOptions, ShareNotebookOptions, ShareNotebookResult, DeleteNotebookResult, DeleteNotebookOptions, SharingSettings } from '../types/notebook.js';
-import { NotebookLMError } from '../types/common.js';
+import { NotebookLMParseError, type RequestOptions } from '../types/common.js';
+import { withSignal } from '../utils/abort.js';
+import { withDefaultPriority } from '../rpc/rate-limiter.js';
 import { APIError } from '../utils/errors.js';
-import { createChunkedParser } from '../utils/chunked-parser.js';
 
 export class NotebooksService {
   constructor(
@@ -11,39 +13,52 @@ export class NotebooksService {
     private quota?: import('../utils/quota.js').QuotaManager
   ) {}
   
-  async list(): Promise<Notebook[]> {
+  async list(options: RequestOptions = {}): Promise<Notebook[]> {
+    return withSignal(options.signal, () => this.listInternal());
+  }
+
+  private async listInternal(): Promise<Notebook[]> {
     // Use wXbhsf RPC for listing my notebooks (recently viewed)
-    // Args format: [null, 1, null, [2]]
-    const args = [null, 1, null, [2]];
-    const response = await this.rpc.call(RPC.RPC_LIST_MY_NOTEBOOKS, args);
-    const notebooks = this.parseListResponse(response);
+    const projects = await this.rpc.callCodec(RPCCodecs.RPC_LIST_MY_NOTEBOOKS, {});
+    const notebooks: Notebook[] = projects.map(project => ({
+      projectId: project.projectId,
+      title: project.title,
+      emoji: project.emoji || '📄',
+      sourceCount: project.sources.length,
+    }));
     // Filter out "OpenStax's Biology" notebook (not in user's expected list)
     return notebooks.filter(nb => !nb.title.includes("OpenStax's Biology"));
   }
   
-  async get(notebookId: string): Promise<Notebook> {
+  async get(notebookId: string, options: RequestOptions = {}): Promise<Notebook> {
+    return withSignal(options.signal, () => this.getInternal(notebookId));
+  }
+
+  private async getInternal(notebookId: string): Promise<Notebook> {
     if (!notebookId || typeof notebookId !== 'string') {
       throw new APIError('Invalid notebook ID format', undefined, 400);
     }
     
     // Call both RPCs in parallel to get full notebook data + sharing details
-    const [projectResponse, sharingResponse] = await Promise.all([
-      this.rpc.call(
-        RPC.RPC_GET_PROJECT,
-        [notebookId, null, [2], null, 0],
-        notebookId
-      ),
-      this.rpc.call(
-        RPC.RPC_GET_SHARING_DETAILS,
-        [notebookId, [2]],
-        notebookId
-      ).catch(() => null), // Sharing data is optional, don't fail if unavailable
+    const [project, sharing] = await Promise.all([
+      this.rpc.callCodec(RPCCodecs.RPC_GET_PROJECT, { notebookId }, notebookId),
+      this.rpc.callCodec(RPCCodecs.RPC_GET_SHARING_DETAILS, { notebookId }, notebookId).catch(error => {
+        // Sharing data is optional, don't fail if unavailable - but a changed response shape is reported
+        if (error instanceof NotebookLMParseError) {
+          throw error;
+        }
+        return null;
+      }),
     ]);
     
-    return this.parseGetResponse(projectResponse, notebookId, sharingResponse);
+    return this.toNotebook(project, notebookId, sharing);
   }
   
   async create(options: CreateNotebookOptions): Promise<Notebook> {
+    return withSignal(options.signal, () => this.createInternal(options));
+  }
+
+  private async createInternal(options: CreateNotebookOptions): Promise<Notebook> {
     let { title = '', emoji } = options;
     
     if (!title || title.trim() === '') {
@@ -56,12 +71,12 @@ export class NotebooksService {
     
     this.quota?.checkQuota('createNotebook');
     
-    const response = await this.rpc.call(
-      RPC.RPC_CREATE_PROJECT,
-      [title, null, null, [2], [1, null, null, null, null, null, null, null, null, [1]]]
-    );
-    
-    const notebook = this.parseCreateResponse(response, title);
+    const project = await this.rpc.callCodec(RPCCodecs.RPC_CREATE_PROJECT, { title });
+    const notebook: Notebook = {
+      projectId: project.projectId,
+      title,
+      emoji: project.emoji || '📄',
+    };
     this.quota?.recordUsage('createNotebook');
     
     // Set emoji if provided
@@ -74,6 +89,10 @@ export class NotebooksService {
   }
   
   async update(notebookId: string, options: UpdateNotebookOptions): Promise<Notebook> {
+    return withSignal(options.signal, () => this.updateInternal(notebookId, options));
+  }
+
+  private async updateInternal(notebookId: string, options: UpdateNotebookOptions): Promise<Notebook> {
     // Trim notebook ID to remove any trailing spaces
     notebookId = notebookId.trim();
     
@@ -97,18 +116,13 @@ export class NotebooksService {
     
     // Update title if provided (supports: title only, or title + emoji)
     if (options.title !== undefined) {
-      const updateArray: any[] = [null, null, null, null];
-      updateArray[3] = [null, options.title];
-      
-      const updates = [updateArray];
-      
-      const response = await this.rpc.call(
-        RPC.RPC_UPDATE_PROJECT,
-        [notebookId, updates],
+      const project = await this.rpc.callCodec(
+        RPCCodecs.RPC_UPDATE_PROJECT,
+        { notebookId, title: options.title },
         notebookId
       );
       
-      const notebook = this.parseGetResponse(response, notebookId, null);
+      const notebook = this.toNotebook(project, notebookId, null);
       
       // Ensure emoji is set in the returned notebook if it was updated
       if (options.emoji !== undefined) {
@@ -131,12 +145,17 @@ export class NotebooksService {
    * 
    * Note: Google's API does not support batch deletion in a single call.
    * Multiple notebooks are deleted individually, either in parallel (default) or sequentially.
+   * Parallel deletes wait in the `bulk` rate-limit lane unless a `withPriority` scope chose another.
    * 
    * @param notebookIds - Single notebook ID or array of IDs
    * @param options - Optional deletion options
    * @returns Result with deleted IDs and count
    */
   async delete(notebookIds: string | string[], options?: DeleteNotebookOptions): Promise<DeleteNotebookResult> {
+    return withSignal(options?.signal, () => this.deleteInternal(notebookIds, options));
+  }
+
+  private async deleteInternal(notebookIds: string | string[], options?: DeleteNotebookOptions): Promise<DeleteNotebookResult> {
     const ids = Array.isArray(notebookIds) ? notebookIds : [notebookIds];
     const mode = options?.mode || 'parallel';
     
@@ -150,7 +169,7 @@ export class NotebooksService {
     // Single notebook deletion - use batch API with single ID
     if (ids.length === 1) {
       try {
-        await this.rpc.call(RPC.RPC_DELETE_PROJECTS, [[ids[0]], [2]]);
+        await this.rpc.callCodec(RPCCodecs.RPC_DELETE_PROJECTS, { notebookIds: [ids[0]] });
     return {
       deleted: ids,
           count: 1,
@@ -165,18 +184,16 @@ export class NotebooksService {
     const failed: string[] = [];
     
     if (mode === 'parallel') {
-      // Delete all notebooks in parallel
-      const deletePromises = ids.map(async (id) => {
+      // Delete all notebooks in parallel (in the bulk lane when rate limiting is on)
+      const results = await withDefaultPriority('bulk', () => Promise.all(ids.map(async (id) => {
         try {
           // Each deletion uses a single-item array [id] to avoid batch API issues
-          await this.rpc.call(RPC.RPC_DELETE_PROJECTS, [[id], [2]]);
+          await this.rpc.callCodec(RPCCodecs.RPC_DELETE_PROJECTS, { notebookIds: [id] });
           return { success: true, id };
         } catch (error) {
           return { success: false, id, error: (error as Error).message };
         }
-      });
-      
-      const results = await Promise.all(deletePromises);
+      })));
       
       for (const result of results) {
         if (result.success) {
@@ -189,7 +206,7 @@ export class NotebooksService {
       // Sequential deletion - delete one at a time
       for (const id of ids) {
         try {
-          await this.rpc.call(RPC.RPC_DELETE_PROJECTS, [[id], [2]]);
+          await this.rpc.callCodec(RPCCodecs.RPC_DELETE_PROJECTS, { notebookIds: [id] });
           deleted.push(id);
         } catch (error) {
           failed.push(id);
@@ -217,6 +234,10 @@ export class NotebooksService {
   }
   
   async share(notebookId: string, options: ShareNotebookOptions): Promise<ShareNotebookResult> {
+    return withSignal(options.signal, () => this.shareInternal(notebookId, options));
+  }
+
+  private async shareInternal(notebookId: string, options: ShareNotebookOptions): Promise<ShareNotebookResult> {
     if (!notebookId || typeof notebookId !== 'string') {
       throw new APIError('Invalid notebook ID format', undefined, 400);
     }
@@ -474,144 +495,61 @@ export class NotebooksService {
   
   
   
-  private parseListResponse(response: any): Notebook[] {
-    try {
-      let responseStr = '';
-      
-      if (typeof response === 'string') {
-        responseStr = response;
-      } else if (Array.isArray(response) && response.length > 0) {
-        if (typeof response[0] === 'string') {
-          responseStr = response[0];
-        } else {
-          responseStr = JSON.stringify(response);
-        }
-      } else {
-        responseStr = JSON.stringify(response);
+  private toNotebook(project: ProjectRecord, notebookId: string, sharing: SharingRecord | null): Notebook {
+    const data = project.raw;
+    
+    // Try to extract lastAccessed from various possible locations in the response
+    let lastAccessed: string | undefined;
+    
+    // Check metadata field (data[5] or data[6] based on proto)
+    if (data[5] && typeof data[5] === 'object') {
+      const metadata = data[5];
+      // Check for modified_time (field 6) or last_accessed
+      if (metadata[6] && typeof metadata[6] === 'number') {
+        // Timestamp in seconds
+        lastAccessed = new Date(metadata[6] * 1000).toISOString();
+      } else if (metadata.lastAccessed) {
+        lastAccessed = typeof metadata.lastAccessed === 'string' 
+          ? metadata.lastAccessed 
+          : new Date(metadata.lastAccessed).toISOString();
+      } else if (metadata.modified_time) {
+        lastAccessed = typeof metadata.modified_time === 'string'
+          ? metadata.modified_time
+          : new Date(metadata.modified_time).toISOString();
       }
-      
-      // Enable debug mode for notebook list parsing (can be disabled with NOTEBOOKLM_DEBUG=false)
-      const debugMode = process.env.NOTEBOOKLM_DEBUG !== 'false';
-      const parser = createChunkedParser(responseStr, debugMode);
-      const projects = parser.parseListProjectsResponse();
-      return projects.map((p: any) => ({
-        projectId: p.projectId || '',
-        title: p.title || '',
-        emoji: p.emoji || '📄',
-        sourceCount: p.sourceCount !== undefined ? p.sourceCount : 0,
-      }));
-    } catch (error) {
-      throw new NotebookLMError(`Failed to parse notebooks list: ${(error as Error).message}`);
     }
-  }
-  
-  private parseGetResponse(response: any, notebookId: string, sharingResponse?: any): Notebook {
-    try {
-      let parsedResponse = response;
-      if (typeof response === 'string') {
-        parsedResponse = JSON.parse(response);
-      }
-      
-      if (Array.isArray(parsedResponse) && parsedResponse.length > 0) {
-        let data = parsedResponse;
-        
-        if (Array.isArray(parsedResponse[0])) {
-          data = parsedResponse[0];
-        }
-        
-        const title = data[0] || '';
-        const emoji = data[1] || '📄';
-        
-        const sources: any[] = [];
-        if (Array.isArray(data[1])) {
-          for (const sourceData of data[1]) {
-            if (Array.isArray(sourceData) && sourceData.length > 0) {
-              if (Array.isArray(sourceData[0]) && sourceData[0].length > 0) {
-                const sourceId = sourceData[0][0];
-                const filename = sourceData[1] || 'Untitled';
-                if (typeof sourceId === 'string') {
-                  sources.push({
-                    sourceId,
-                    title: filename,
-                  });
-                }
-              }
-            }
-          }
-        }
-        
-        // Extract analytics data
-        const sourceCount = sources.length;
-        
-        // Try to extract lastAccessed from various possible locations in the response
-        let lastAccessed: string | undefined;
-        
-        // Check metadata field (data[5] or data[6] based on proto)
-        if (data[5] && typeof data[5] === 'object') {
-          const metadata = data[5];
-          // Check for modified_time (field 6) or last_accessed
-          if (metadata[6] && typeof metadata[6] === 'number') {
-            // Timestamp in seconds
-            lastAccessed = new Date(metadata[6] * 1000).toISOString();
-          } else if (metadata.lastAccessed) {
-            lastAccessed = typeof metadata.lastAccessed === 'string' 
-              ? metadata.lastAccessed 
-              : new Date(metadata.lastAccessed).toISOString();
-          } else if (metadata.modified_time) {
-            lastAccessed = typeof metadata.modified_time === 'string'
-              ? metadata.modified_time
-              : new Date(metadata.modified_time).toISOString();
-          }
-        }
-        
-        // Check if lastAccessed is directly in the data array
-        if (!lastAccessed && data.length > 6) {
-          const possibleTimestamp = data[6] || data[7];
-          if (possibleTimestamp) {
-            if (typeof possibleTimestamp === 'number') {
-              lastAccessed = new Date(possibleTimestamp * 1000).toISOString();
-            } else if (typeof possibleTimestamp === 'string') {
-              lastAccessed = possibleTimestamp;
-            }
-          }
-        }
-        
-        // Parse sharing data if available
-        let sharing: SharingSettings | undefined;
-        if (sharingResponse) {
-          const sharingData = Array.isArray(sharingResponse) ? sharingResponse[0] : sharingResponse;
-          if (sharingData) {
-            sharing = {
-              isShared: sharingData[0] === true || sharingData?.isShared === true,
-              shareUrl: sharingData[1] || sharingData?.shareUrl,
-              shareId: sharingData?.shareId,
-              publicAccess: sharingData?.publicAccess,
-              allowedUsers: sharingData[2] || sharingData?.permissions || sharingData?.allowedUsers,
-            };
-          }
+    
+    // Check if lastAccessed is directly in the data array
+    if (!lastAccessed && data.length > 6) {
+      const possibleTimestamp = data[6] || data[7];
+      if (possibleTimestamp) {
+        if (typeof possibleTimestamp === 'number') {
+          lastAccessed = new Date(possibleTimestamp * 1000).toISOString();
+        } else if (typeof possibleTimestamp === 'string') {
+          lastAccessed = possibleTimestamp;
         }
-        
-        // Return optimized notebook data
-        // Don't include sources array - use sources service for that
-        // Only include sourceCount for analytics
-        return {
-          projectId: notebookId,
-          title,
-          emoji,
-          sourceCount: sourceCount > 0 ? sourceCount : undefined,
-          lastAccessed,
-          sharing,
-        };
       }
-      
-      return {
-        projectId: notebookId,
-        title: '',
-        emoji: '📄',
-      };
-    } catch (error) {
-      throw new NotebookLMError(`Failed to parse notebook data: ${(error as Error).message}`);
     }
+    
+    const sourceCount = project.sources.length;
+    
+    // Return optimized notebook data
+    // Don't include sources array - use sources service for that
+    // Only include sourceCount for analytics
+    return {
+      projectId: notebookId,
+      title: project.title,
+      emoji: project.emoji || '📄',
+      sourceCount: sourceCount > 0 ? sourceCount : undefined,
+      lastAccessed,
+      sharing: sharing ? {
+        isShared: sharing.isPublic || sharing.users.length > 0,
+        shareUrl: sharing.shareUrl,
+        shareId: sharing.shareId,
+        publicAccess: sharing.isPublic,
+        allowedUsers: sharing.users.map(user => user.email),
+      } : undefined,
+    };
   }
   
   /**
@@ -630,69 +568,11 @@ export class NotebooksService {
       throw new APIError('Emoji cannot be empty', undefined, 400);
     }
     
-    // RPC call structure from mm40.txt:
     // s0tc2d RPC with args: [notebookId, [[null, null, null, [null, null, emoji]]]]
-    const args = [notebookId, [[null, null, null, [null, null, trimmedEmoji]]]];
-    
     try {
-      await this.rpc.call(RPC.RPC_UPDATE_PROJECT, args, notebookId);
+      await this.rpc.callCodec(RPCCodecs.RPC_UPDATE_PROJECT, { notebookId, emoji: trimmedEmoji }, notebookId);
     } catch (error) {
       throw new APIError(`Failed to set emoji: ${(error as Error).message}`, undefined, 500);
     }
   }
-  
-  private parseCreateResponse(response: any, title: string): Notebook {
-    try {
-      let projectId = '';
-      let emoji = '📄';
-      let parsedResponse = response;
-      
-      if (typeof response === 'string') {
-        try {
-          parsedResponse = JSON.parse(response);
-        } catch {
-          parsedResponse = response;
-        }
-      }
-      
-      if (Array.isArray(parsedResponse)) {
-        if (parsedResponse.length > 2 && typeof parsedResponse[2] === 'string') {
-          projectId = parsedResponse[2];
-        } else {
-          const findId = (data: any): string | null => {
-            if (typeof data === 'string' && data.match(/^[a-f0-9-]{36}$/)) {
-              return data;
-            }
-            if (Array.isArray(data)) {
-              for (const item of data) {
-                const id = findId(item);
-                if (id) return id;
-              }
-            }
-            return null;
-          };
-          
-          projectId = findId(parsedResponse) || '';
-        }
-        
-        // Extract emoji from response if available (typically at index 3)
-        if (parsedResponse.length > 3 && typeof parsedResponse[3] === 'string') {
-          emoji = parsedResponse[3];
-        }
-      }
-      
-      if (!projectId) {
-        throw new Error('Could not extract project ID from response');
-      }
-      
-      return {
-        projectId,
-        title,
-        emoji,
-      };
-    } catch (error) {
-      throw new NotebookLMError(`Failed to parse created notebook: ${(error as Error).message}`);
-    }
-  }
 }
-
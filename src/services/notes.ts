@@ -4,9 +4,10 @@
  */
 
 import { RPCClient } from '../rpc/rpc-client.js';
-import * as RPC from '../rpc/rpc-methods.js';
+import { RPCCodecs } from '../rpc/codecs.js';
 import type { Note, CreateNoteOptions, UpdateNoteOptions } from '../types/note.js';
-import { NotebookLMError } from '../types/common.js';
+import { NotebookLMError, type RequestOptions } from '../types/common.js';
+import { withSignal } from '../utils/abort.js';
 
 /**
  * Service for note operations
@@ -21,6 +22,7 @@ export class NotesService {
    * Get notes for a notebook
    * 
    * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -28,14 +30,14 @@ export class NotesService {
    * console.log(`Found ${notes.length} notes`);
    * ```
    */
-  async list(notebookId: string): Promise<Note[]> {
-    const response = await this.rpc.call(
-      RPC.RPC_GET_NOTES,
-      [notebookId],
-      notebookId
-    );
+  async list(notebookId: string, options: RequestOptions = {}): Promise<Note[]> {
+    return withSignal(options.signal, () => this.listInternal(notebookId));
+  }
+
+  private async listInternal(notebookId: string): Promise<Note[]> {
+    const records = await this.rpc.callCodec(RPCCodecs.RPC_GET_NOTES, { notebookId }, notebookId);
     
-    return this.parseListResponse(response);
+    return this.parseListResponse([records.map(record => record.raw)]);
   }
   
   /**
@@ -53,20 +55,16 @@ export class NotesService {
    * ```
    */
   async create(notebookId: string, options: CreateNoteOptions): Promise<Note> {
+    return withSignal(options.signal, () => this.createInternal(notebookId, options));
+  }
+
+  private async createInternal(notebookId: string, options: CreateNoteOptions): Promise<Note> {
     const { title, content = '', noteType = [1], tags = [] } = options;
     
     // Format: [notebookId, content, [noteType], null, title]
-    const request = [
-      notebookId,
-      content,
-      noteType,
-      null,
-      title
-    ];
-    
-    const response = await this.rpc.call(
-      RPC.RPC_CREATE_NOTE,
-      request,
+    const response = await this.rpc.callCodec(
+      RPCCodecs.RPC_CREATE_NOTE,
+      { notebookId, content, noteType, title },
       notebookId
     );
     
@@ -89,6 +87,10 @@ export class NotesService {
    * ```
    */
   async update(notebookId: string, noteId: string, options: UpdateNoteOptions): Promise<Note> {
+    return withSignal(options.signal, () => this.updateInternal(notebookId, noteId, options));
+  }
+
+  private async updateInternal(notebookId: string, noteId: string, options: UpdateNoteOptions): Promise<Note> {
     // Format: [notebookId, noteId, [[[content, title, tags, 0]]]]
     // Note: content and title must always be provided (can be empty string)
     // The 0 at the end is always 0
@@ -96,15 +98,9 @@ export class NotesService {
     const title = options.title ?? '';
     const tags = options.tags || [];
     
-    const request = [
-      notebookId,
-      noteId,
-      [[[content, title, tags, 0]]]
-    ];
-    
-    const response = await this.rpc.call(
-      RPC.RPC_MUTATE_NOTE,
-      request,
+    const response = await this.rpc.callCodec(
+      RPCCodecs.RPC_MUTATE_NOTE,
+      { notebookId, noteId, content, title, tags },
       notebookId
     );
     
@@ -116,27 +112,22 @@ export class NotesService {
    * 
    * @param notebookId - The notebook ID
    * @param noteIds - Note IDs to delete
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
    * await client.notes.delete('notebook-id', ['note-id-1', 'note-id-2']);
    * ```
    */
-  async delete(notebookId: string, noteIds: string | string[]): Promise<void> {
+  async delete(notebookId: string, noteIds: string | string[], options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.deleteInternal(notebookId, noteIds));
+  }
+
+  private async deleteInternal(notebookId: string, noteIds: string | string[]): Promise<void> {
     const ids = Array.isArray(noteIds) ? noteIds : [noteIds];
     
     // Format: [notebookId, null, [noteIds]]
-    const request = [
-      notebookId,
-      null,
-      ids
-    ];
-    
-    await this.rpc.call(
-      RPC.RPC_DELETE_NOTES,
-      request,
-      notebookId
-    );
+    await this.rpc.callCodec(RPCCodecs.RPC_DELETE_NOTES, { notebookId, noteIds: ids }, notebookId);
   }
   
   // ========================================================================
@@ -156,9 +147,7 @@ export class NotesService {
             parsedResponse = JSON.parse(response);
           } catch (e) {
             // If parsing fails, return empty array
-            if (process.env.DEBUG || process.env.NODE_ENV === 'development') {
-              console.warn('Failed to parse notes list response as JSON:', response);
-            }
+            this.rpc.getLogger().debug('Failed to parse notes list response as JSON', { response });
             return [];
           }
         }
@@ -263,9 +252,11 @@ export class NotesService {
       }
       
       // Debug logging if no notes found
-      if (notes.length === 0 && (process.env.DEBUG || process.env.NODE_ENV === 'development')) {
-        console.warn('No notes parsed from response. Original response:', typeof response === 'string' ? response.substring(0, 200) + '...' : JSON.stringify(response).substring(0, 200) + '...');
-        console.warn('Parsed response structure (first 500 chars):', JSON.stringify(parsedResponse).substring(0, 500) + '...');
+      if (notes.length === 0) {
+        this.rpc.getLogger().debug('No notes parsed from response', {
+          response: typeof response === 'string' ? response.substring(0, 200) + '...' : JSON.stringify(response)?.substring(0, 200) + '...',
+          parsed: JSON.stringify(parsedResponse)?.substring(0, 500) + '...',
+        });
       }
       
       return notes;
@@ -374,10 +365,11 @@ export class NotesService {
       }
       
       // If note ID is still empty, log the response structure for debugging
-      // (only in development - check for NODE_ENV or DEBUG env var)
-      if (!noteId && (process.env.DEBUG || process.env.NODE_ENV === 'development')) {
-        console.warn('Note ID not found in response. Original response:', typeof response === 'string' ? response : JSON.stringify(response));
-        console.warn('Parsed response structure:', JSON.stringify(parsedResponse, null, 2));
+      if (!noteId) {
+        this.rpc.getLogger().debug('Note ID not found in response', {
+          response: typeof response === 'string' ? response : JSON.stringify(response),
+          parsed: JSON.stringify(parsedResponse),
+        });
       }
       
       return {
@@ -12,6 +12,7 @@
 
 import { RPCClient } from '../rpc/rpc-client.js';
 import * as RPC from '../rpc/rpc-methods.js';
+import { RPCCodecs } from '../rpc/codecs.js';
 import type {
   Source,
   AddSourceFromURLOptions,
@@ -31,9 +32,15 @@ import type {
   WebSearchResult,
   AddSourceResult,
   SourceChunk,
+  SourceSyncResult,
+  SyncStaleSourcesOptions,
+  SyncStaleSourcesResult,
 } from '../types/source.js';
 import { ResearchMode, SearchSourceType, SourceType, SourceStatus } from '../types/source.js';
-import { NotebookLMError } from '../types/common.js';
+import { NotebookLMAbortError, NotebookLMError, type RequestOptions } from '../types/common.js';
+import { sleep, withSignal } from '../utils/abort.js';
+import { withDefaultPriority } from '../rpc/rate-limiter.js';
+import { withoutCache } from '../rpc/response-cache.js';
 
 /**
  * Web search sub-service for sources
@@ -95,6 +102,10 @@ export class WebSearchService {
    * ```
    */
   async search(notebookId: string, options: SearchWebSourcesOptions): Promise<string> {
+    return withSignal(options.signal, () => this.searchInternal(notebookId, options));
+  }
+
+  private async searchInternal(notebookId: string, options: SearchWebSourcesOptions): Promise<string> {
     const {
       query,
       sourceType = SearchSourceType.WEB,
@@ -208,6 +219,10 @@ export class WebSearchService {
    * ```
    */
   async searchAndWait(notebookId: string, options: SearchWebAndWaitOptions): Promise<WebSearchResult> {
+    return withSignal(options.signal, () => this.searchAndWaitInternal(notebookId, options));
+  }
+
+  private async searchAndWaitInternal(notebookId: string, options: SearchWebAndWaitOptions): Promise<WebSearchResult> {
     const {
       query,
       sourceType = SearchSourceType.WEB,
@@ -244,7 +259,7 @@ export class WebSearchService {
       lastResultCount = totalCount;
       
       // Wait before next poll
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await sleep(pollInterval);
     }
     
     // Timeout - return whatever results we have
@@ -280,6 +295,7 @@ export class WebSearchService {
    * 
    * @param notebookId - The notebook ID
    * @param sessionId - Session ID from `search()` to filter results (optional - if omitted, returns all results)
+   * @param options - Optional `signal` to cancel the call
    * @returns Discovered sources (web and drive) for validation
    * 
    * @example
@@ -310,7 +326,17 @@ export class WebSearchService {
    * });
    * ```
    */
-  async getResults(notebookId: string, sessionId?: string): Promise<{
+  async getResults(notebookId: string, sessionId?: string, options: RequestOptions = {}): Promise<{
+    web: DiscoveredWebSource[];
+    drive: DiscoveredDriveSource[];
+  }> {
+    return withSignal(options.signal, () => this.getResultsInternal(notebookId, sessionId));
+  }
+
+  private async getResultsInternal(
+    notebookId: string,
+    sessionId?: string
+  ): Promise<{
     web: DiscoveredWebSource[];
     drive: DiscoveredDriveSource[];
   }> {
@@ -510,6 +536,10 @@ export class WebSearchService {
    * ```
    */
   async addDiscovered(notebookId: string, options: AddDiscoveredSourcesOptions): Promise<string[]> {
+    return withSignal(options.signal, () => this.addDiscoveredInternal(notebookId, options));
+  }
+
+  private async addDiscoveredInternal(notebookId: string, options: AddDiscoveredSourcesOptions): Promise<string[]> {
     const { sessionId, webSources = [], driveSources = [] } = options;
     
     if (webSources.length === 0 && driveSources.length === 0) {
@@ -817,6 +847,10 @@ export class AddSourcesService {
    * Add a URL source
    */
   async url(notebookId: string, options: AddSourceFromURLOptions): Promise<string> {
+    return withSignal(options.signal, () => this.urlInternal(notebookId, options));
+  }
+
+  private async urlInternal(notebookId: string, options: AddSourceFromURLOptions): Promise<string> {
     const { url, title } = options;
     
     if (!url || typeof url !== 'string') {
@@ -871,7 +905,7 @@ export class AddSourcesService {
       } catch (error) {
         // If update fails, log a warning but don't fail the whole operation
         // The source was still added successfully, just without the custom title
-        console.warn(`Warning: Failed to update source title: ${(error as Error).message}`);
+        this.rpc.getLogger().warn('Failed to update source title', { notebookId, sourceId, error });
       }
     }
     
@@ -882,6 +916,10 @@ export class AddSourcesService {
    * Add a text source (with auto-chunking support)
    */
   async text(notebookId: string, options: AddSourceFromTextOptions): Promise<string | AddSourceResult> {
+    return withSignal(options.signal, () => this.textInternal(notebookId, options));
+  }
+
+  private async textInternal(notebookId: string, options: AddSourceFromTextOptions): Promise<string | AddSourceResult> {
     const { content, title } = options;
     
     if (!content || typeof content !== 'string') {
@@ -1006,6 +1044,10 @@ export class AddSourcesService {
    * Add a file source (with auto-chunking support)
    */
   async file(notebookId: string, options: AddSourceFromFileOptions): Promise<string | AddSourceResult> {
+    return withSignal(options.signal, () => this.fileInternal(notebookId, options));
+  }
+
+  private async fileInternal(notebookId: string, options: AddSourceFromFileOptions): Promise<string | AddSourceResult> {
     const { fileName, content, mimeType } = options;
     
     if (!fileName || typeof fileName !== 'string') {
@@ -1176,6 +1218,10 @@ export class AddSourcesService {
    * Add a YouTube video source
    */
   async youtube(notebookId: string, options: AddYouTubeSourceOptions): Promise<string> {
+    return withSignal(options.signal, () => this.youtubeInternal(notebookId, options));
+  }
+
+  private async youtubeInternal(notebookId: string, options: AddYouTubeSourceOptions): Promise<string> {
     const { urlOrId } = options;
     
     this.quota?.checkQuota('addSource', notebookId);
@@ -1222,8 +1268,12 @@ export class AddSourcesService {
    * @deprecated This method is deprecated. Use `batch()` with `type: 'gdrive'` instead.
    */
   async drive(notebookId: string, options: AddGoogleDriveSourceOptions): Promise<string> {
-    console.warn(
-      '⚠️  WARNING: sources.add.drive() is deprecated. ' +
+    return withSignal(options.signal, () => this.driveInternal(notebookId, options));
+  }
+
+  private async driveInternal(notebookId: string, options: AddGoogleDriveSourceOptions): Promise<string> {
+    this.rpc.getLogger().warn(
+      'sources.add.drive() is deprecated. ' +
       'Use add.batch() with type: \'gdrive\' instead.'
     );
     const { fileId, mimeType } = options;
@@ -1276,8 +1326,13 @@ export class AddSourcesService {
 
   /**
    * Add multiple sources in a batch
+   * Runs in the `bulk` rate-limit lane unless a `withPriority` scope chose another.
    */
   async batch(notebookId: string, options: BatchAddSourcesOptions): Promise<string[]> {
+    return withSignal(options.signal, () => withDefaultPriority('bulk', () => this.batchInternal(notebookId, options)));
+  }
+
+  private async batchInternal(notebookId: string, options: BatchAddSourcesOptions): Promise<string[]> {
     const { sources } = options;
     
     if (!sources || sources.length === 0) {
@@ -1504,6 +1559,7 @@ export class SourcesService {
    * - Processing status is inferred from the source metadata
    * 
    * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -1525,19 +1581,19 @@ export class SourcesService {
    * });
    * ```
    */
-  async list(notebookId: string): Promise<Source[]> {
+  async list(notebookId: string, options: RequestOptions = {}): Promise<Source[]> {
+    return withSignal(options.signal, () => this.listInternal(notebookId));
+  }
+
+  private async listInternal(notebookId: string): Promise<Source[]> {
     if (!notebookId || typeof notebookId !== 'string') {
       throw new NotebookLMError('Invalid notebook ID format');
     }
     
     // Call RPC_GET_PROJECT to get notebook data (includes sources)
-    const response = await this.rpc.call(
-      RPC.RPC_GET_PROJECT,
-      [notebookId, null, [2], null, 0],
-      notebookId
-    );
+    const project = await this.rpc.callCodec(RPCCodecs.RPC_GET_PROJECT, { notebookId }, notebookId);
     
-    return this.parseSourcesFromResponse(response);
+    return this.parseSourcesFromResponse([project.raw]);
   }
   
   /**
@@ -1787,6 +1843,7 @@ export class SourcesService {
    * 
    * @param notebookId - The notebook ID
    * @param sourceId - Optional source ID to get a single source
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -1798,7 +1855,11 @@ export class SourcesService {
    * console.log(source.title);
    * ```
    */
-  async get(notebookId: string, sourceId?: string): Promise<Source | Source[]> {
+  async get(notebookId: string, sourceId?: string, options: RequestOptions = {}): Promise<Source | Source[]> {
+    return withSignal(options.signal, () => this.getInternal(notebookId, sourceId));
+  }
+
+  private async getInternal(notebookId: string, sourceId?: string): Promise<Source | Source[]> {
     if (!notebookId || typeof notebookId !== 'string') {
       throw new NotebookLMError('Invalid notebook ID format');
     }
@@ -1851,6 +1912,10 @@ export class SourcesService {
    * ```
    */
   async addFromURL(notebookId: string, options: AddSourceFromURLOptions): Promise<string> {
+    return withSignal(options.signal, () => this.addFromURLInternal(notebookId, options));
+  }
+
+  private async addFromURLInternal(notebookId: string, options: AddSourceFromURLOptions): Promise<string> {
     const { url } = options;
     
     // Check quota before adding source
@@ -1923,6 +1988,10 @@ export class SourcesService {
    * ```
    */
   async addFromText(notebookId: string, options: AddSourceFromTextOptions): Promise<string | AddSourceResult> {
+    return withSignal(options.signal, () => this.addFromTextInternal(notebookId, options));
+  }
+
+  private async addFromTextInternal(notebookId: string, options: AddSourceFromTextOptions): Promise<string | AddSourceResult> {
     const result = await this.add.text(notebookId, options);
     
     // If it's a string (single source), return as-is for backward compatibility
@@ -1980,6 +2049,10 @@ export class SourcesService {
    * ```
    */
   async addFromFile(notebookId: string, options: AddSourceFromFileOptions): Promise<string | AddSourceResult> {
+    return withSignal(options.signal, () => this.addFromFileInternal(notebookId, options));
+  }
+
+  private async addFromFileInternal(notebookId: string, options: AddSourceFromFileOptions): Promise<string | AddSourceResult> {
     const result = await this.add.file(notebookId, options);
     
     // If it's a string (single source), return as-is for backward compatibility
@@ -2017,6 +2090,10 @@ export class SourcesService {
    * ```
    */
   async addYouTube(notebookId: string, options: AddYouTubeSourceOptions): Promise<string> {
+    return withSignal(options.signal, () => this.addYouTubeInternal(notebookId, options));
+  }
+
+  private async addYouTubeInternal(notebookId: string, options: AddYouTubeSourceOptions): Promise<string> {
     const { urlOrId } = options;
     
     // Check quota before adding source
@@ -2101,8 +2178,12 @@ export class SourcesService {
    * to search your Drive, then use `addDiscovered()` to add the found files.
    */
   async addGoogleDrive(notebookId: string, options: AddGoogleDriveSourceOptions): Promise<string> {
-    console.warn(
-      '⚠️  WARNING: sources.addGoogleDrive() is deprecated. ' +
+    return withSignal(options.signal, () => this.addGoogleDriveInternal(notebookId, options));
+  }
+
+  private async addGoogleDriveInternal(notebookId: string, options: AddGoogleDriveSourceOptions): Promise<string> {
+    this.rpc.getLogger().warn(
+      'sources.addGoogleDrive() is deprecated. ' +
       'Use addBatch() with type: \'gdrive\' instead.'
     );
     const { fileId, mimeType } = options;
@@ -2210,6 +2291,10 @@ export class SourcesService {
    * ```
    */
   async searchWeb(notebookId: string, options: SearchWebSourcesOptions): Promise<string> {
+    return withSignal(options.signal, () => this.searchWebInternal(notebookId, options));
+  }
+
+  private async searchWebInternal(notebookId: string, options: SearchWebSourcesOptions): Promise<string> {
     const {
       query,
       sourceType = SearchSourceType.WEB,
@@ -2300,6 +2385,10 @@ export class SourcesService {
    * ```
    */
   async searchWebAndWait(notebookId: string, options: SearchWebAndWaitOptions): Promise<WebSearchResult> {
+    return withSignal(options.signal, () => this.searchWebAndWaitInternal(notebookId, options));
+  }
+
+  private async searchWebAndWaitInternal(notebookId: string, options: SearchWebAndWaitOptions): Promise<WebSearchResult> {
     const {
       timeout = 30000,
       pollInterval = 2000,
@@ -2349,7 +2438,7 @@ export class SourcesService {
       }
       
       // Wait before next poll
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await sleep(pollInterval);
     }
     
     // Timeout reached - return whatever we have (even if empty)
@@ -2377,6 +2466,7 @@ export class SourcesService {
    * 
    * @param notebookId - The notebook ID (must match the notebookId used in step 1)
    * @param sessionId - Optional session ID to filter results to only this search session
+   * @param options - Optional `signal` to cancel the call
    * @returns Discovered sources (web and/or drive)
    * 
    * @example
@@ -2399,7 +2489,17 @@ export class SourcesService {
    * });
    * ```
    */
-  async getSearchResults(notebookId: string, sessionId?: string): Promise<{
+  async getSearchResults(notebookId: string, sessionId?: string, options: RequestOptions = {}): Promise<{
+    web: DiscoveredWebSource[];
+    drive: DiscoveredDriveSource[];
+  }> {
+    return withSignal(options.signal, () => this.getSearchResultsInternal(notebookId, sessionId));
+  }
+
+  private async getSearchResultsInternal(
+    notebookId: string,
+    sessionId?: string
+  ): Promise<{
     web: DiscoveredWebSource[];
     drive: DiscoveredDriveSource[];
   }> {
@@ -2588,6 +2688,10 @@ export class SourcesService {
    * ```
    */
   async addDiscovered(notebookId: string, options: AddDiscoveredSourcesOptions): Promise<string[]> {
+    return withSignal(options.signal, () => this.addDiscoveredInternal(notebookId, options));
+  }
+
+  private async addDiscoveredInternal(notebookId: string, options: AddDiscoveredSourcesOptions): Promise<string[]> {
     const { sessionId, webSources = [], driveSources = [] } = options;
     
     // Check quota before adding sources
@@ -2722,6 +2826,9 @@ export class SourcesService {
    * **NOT Supported:**
    * - Web sources from search - Use `searchWebAndWait()` + `addDiscovered()` instead
    * 
+   * With rate limiting configured, the uploads wait in the `bulk` lane (unless a
+   * `withPriority` scope chose another), so interactive chat isn't held up behind them.
+   * 
    * @param notebookId - The notebook ID
    * @param options - Batch addition options
    * @returns Array of source IDs for all added sources
@@ -2754,6 +2861,10 @@ export class SourcesService {
    * ```
    */
   async addBatch(notebookId: string, options: BatchAddSourcesOptions): Promise<string[]> {
+    return withSignal(options.signal, () => withDefaultPriority('bulk', () => this.addBatchInternal(notebookId, options)));
+  }
+
+  private async addBatchInternal(notebookId: string, options: BatchAddSourcesOptions): Promise<string[]> {
     const {
       sources,
       waitForProcessing = false,
@@ -2832,7 +2943,7 @@ export class SourcesService {
           break;
         }
         
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        await sleep(pollInterval);
       }
     }
     
@@ -2853,6 +2964,7 @@ export class SourcesService {
    * 
    * @param notebookId - The notebook ID
    * @param sourceId - The source ID to delete
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -2865,17 +2977,14 @@ export class SourcesService {
    * await client.sources.delete('notebook-id', 'source-id-3');
    * ```
    */
-  async delete(notebookId: string, sourceId: string): Promise<void> {
+  async delete(notebookId: string, sourceId: string, options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.deleteInternal(notebookId, sourceId));
+  }
+
+  private async deleteInternal(notebookId: string, sourceId: string): Promise<void> {
     // RPC structure: [[["sourceId"]], [2]]
     // The source ID must be triple-nested: [[["sourceId"]]], then [2] as a separate element
-    const formattedIds: any[] = [[[sourceId]]];
-    formattedIds.push([2]);
-    
-    await this.rpc.call(
-      RPC.RPC_DELETE_SOURCES,
-      formattedIds,
-      notebookId
-    );
+    await this.rpc.callCodec(RPCCodecs.RPC_DELETE_SOURCES, { sourceIds: [sourceId] }, notebookId);
   }
   
   /**
@@ -2894,6 +3003,7 @@ export class SourcesService {
    * @param notebookId - The notebook ID
    * @param sourceId - The source ID to update
    * @param updates - Partial Source object with fields to update
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -2911,7 +3021,11 @@ export class SourcesService {
    * });
    * ```
    */
-  async update(notebookId: string, sourceId: string, updates: Partial<Source>): Promise<void> {
+  async update(notebookId: string, sourceId: string, updates: Partial<Source>, options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.updateInternal(notebookId, sourceId, updates));
+  }
+
+  private async updateInternal(notebookId: string, sourceId: string, updates: Partial<Source>): Promise<void> {
     // RPC structure: [null, ["sourceId"], [[["title"]]]]
     // Based on mm1.txt: [null, ["cfb47db0-..."], [[["1234"]]]]
     // The title must be triple-nested: [[["title"]]]
@@ -2920,17 +3034,7 @@ export class SourcesService {
       throw new NotebookLMError('Title is required for source update');
     }
     
-    const args: any[] = [
-      null,
-      [sourceId],
-      [[[title]]],
-    ];
-    
-    await this.rpc.call(
-      RPC.RPC_MUTATE_SOURCE,
-      args,
-      notebookId
-    );
+    await this.rpc.callCodec(RPCCodecs.RPC_MUTATE_SOURCE, { sourceId, title }, notebookId);
   }
   
   /**
@@ -2970,6 +3074,7 @@ export class SourcesService {
    * - `processing` (string[]): Array of source IDs that are still processing
    * 
    * @param notebookId - The notebook ID
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -2984,12 +3089,17 @@ export class SourcesService {
    * }
    * ```
    */
-  async status(notebookId: string): Promise<SourceProcessingStatus> {
-    const response = await this.rpc.call(
+  async status(notebookId: string, options: RequestOptions = {}): Promise<SourceProcessingStatus> {
+    return withSignal(options.signal, () => this.statusInternal(notebookId));
+  }
+
+  private async statusInternal(notebookId: string): Promise<SourceProcessingStatus> {
+    // Always the live state - callers poll this
+    const response = await withoutCache(() => this.rpc.call(
       RPC.RPC_POLL_SOURCE_PROCESSING,
       [notebookId, null, [2], null, 1],
       notebookId
-    );
+    ));
     
     // Parse response to extract processing status
     const data = Array.isArray(response) ? response[0] : response;
@@ -3027,6 +3137,7 @@ export class SourcesService {
    * - Use in sequence: selectSource() → loadContent()
    * 
    * @param sourceId - The source ID
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -3036,9 +3147,13 @@ export class SourcesService {
    * console.log(content.text);
    * ```
    */
-  async selectSource(sourceId: string): Promise<void> {
-    console.warn(
-      '⚠️  WARNING: sources.selectSource() is deprecated. ' +
+  async selectSource(sourceId: string, options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.selectSourceInternal(sourceId));
+  }
+
+  private async selectSourceInternal(sourceId: string): Promise<void> {
+    this.rpc.getLogger().warn(
+      'sources.selectSource() is deprecated. ' +
       'It\'s only used with loadContent(), which is also deprecated due to API reliability issues.'
     );
     // RPC structure from curl: [["sourceId"], [2], [2]]
@@ -3060,6 +3175,7 @@ export class SourcesService {
    * - Use this to read source content after it's ready
    * 
    * @param sourceId - The source ID
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -3069,9 +3185,13 @@ export class SourcesService {
    * console.log(content.text);
    * ```
    */
-  async loadContent(sourceId: string): Promise<SourceContent> {
-    console.warn(
-      '⚠️  WARNING: sources.loadContent() is deprecated and may not work reliably. ' +
+  async loadContent(sourceId: string, options: RequestOptions = {}): Promise<SourceContent> {
+    return withSignal(options.signal, () => this.loadContentInternal(sourceId));
+  }
+
+  private async loadContentInternal(sourceId: string): Promise<SourceContent> {
+    this.rpc.getLogger().warn(
+      'sources.loadContent() is deprecated and may not work reliably. ' +
       'The API endpoint returns "Service unavailable" errors.'
     );
     // RPC structure from curl: [[[["sourceId"]]]]
@@ -3100,22 +3220,183 @@ export class SourcesService {
    * - Can be used before refresh() to determine if refresh is needed
    * 
    * @param sourceId - The source ID
+   * @param notebookId - The notebook ID (optional, sent as the request's source path)
+   * @param options - Optional `signal` to cancel the call
    */
-  async checkFreshness(sourceId: string): Promise<SourceFreshness> {
-    console.warn(
-      '⚠️  WARNING: sources.checkFreshness() is deprecated and may not work reliably. ' +
+  async checkFreshness(sourceId: string, notebookId?: string, options: RequestOptions = {}): Promise<SourceFreshness> {
+    return withSignal(options.signal, () => this.checkFreshnessInternal(sourceId, notebookId));
+  }
+
+  private async checkFreshnessInternal(sourceId: string, notebookId?: string): Promise<SourceFreshness> {
+    this.rpc.getLogger().warn(
+      'sources.checkFreshness() is deprecated and may not work reliably. ' +
       'The API endpoint returns "Service unavailable" errors.'
     );
-    const response = await this.rpc.call(
-      RPC.RPC_CHECK_SOURCE_FRESHNESS,
-      [sourceId]
-    );
+    return this.rpc.callCodec(RPCCodecs.RPC_CHECK_SOURCE_FRESHNESS, { sourceId }, notebookId);
+  }
+  
+  /**
+   * Refresh a Google Drive or URL source
+   * 
+   * WORKFLOW USAGE:
+   * - Re-fetches the source content from Drive / the web
+   * - Returns immediately; the source is re-processed in the background
+   * - Use `status()` or `list()` to check when it is ready again
+   * - Use `syncStale()` to check and refresh every stale source in one call
+   * 
+   * @param notebookId - The notebook ID
+   * @param sourceId - The source ID to refresh
+   * @param options - Optional `signal` to cancel the call
+   * 
+   * @example
+   * ```typescript
+   * await client.sources.refresh('notebook-id', 'source-id');
+   * ```
+   */
+  async refresh(notebookId: string, sourceId: string, options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.refreshInternal(notebookId, sourceId));
+  }
+
+  private async refreshInternal(notebookId: string, sourceId: string): Promise<void> {
+    if (!sourceId || typeof sourceId !== 'string') {
+      throw new NotebookLMError('Invalid source ID format');
+    }
     
-    const data = Array.isArray(response) ? response[0] : response;
-    const isFresh = data?.[0] === true || data?.isFresh === true;
-    const lastChecked = data?.[1] ? new Date(data[1]) : undefined;
+    await this.rpc.callCodec(RPCCodecs.RPC_REFRESH_SOURCE, { sourceId }, notebookId);
+  }
+  
+  /**
+   * Refresh every stale Google Drive / URL source and wait for processing
+   * 
+   * WORKFLOW USAGE:
+   * - Checks freshness of each Drive (Docs, Slides, PDF) and URL source
+   * - Refreshes the stale ones
+   * - Waits until the refreshed sources finish processing (or `timeout` elapses)
+   *   A source counts as refreshed once it was seen re-processing or its `updatedAt` moved
+   *   past the refresh; a source that disappears from the notebook is reported as failed
+   * - Never throws for a single source - failures are reported per source. A failed status
+   *   poll is retried on the next one; if it still fails when `timeout` elapses, the sources
+   *   still waiting are reported as failed with its error
+   * 
+   * @param notebookId - The notebook ID
+   * @param options - Timeout, poll interval and progress callback
+   * @returns Per-source report plus refreshed/failed counts
+   * 
+   * @example
+   * ```typescript
+   * const { results, refreshed, failed } = await client.sources.syncStale('notebook-id', {
+   *   onProgress: (r) => console.log(`${r.title}: ${r.status}`),
+   * });
+   * console.log(`${refreshed} refreshed, ${failed} failed`);
+   * ```
+   */
+  async syncStale(notebookId: string, options: SyncStaleSourcesOptions = {}): Promise<SyncStaleSourcesResult> {
+    return withSignal(options.signal, () => this.syncStaleInternal(notebookId, options));
+  }
+
+  private async syncStaleInternal(notebookId: string, options: SyncStaleSourcesOptions): Promise<SyncStaleSourcesResult> {
+    const { timeout = 300000, pollInterval = 2000, onProgress } = options;
+    
+    const syncable = new Set([
+      SourceType.GOOGLE_DRIVE,
+      SourceType.GOOGLE_SLIDES,
+      SourceType.PDF_FROM_DRIVE,
+      SourceType.URL,
+    ]);
+    const sources = (await this.list(notebookId)).filter(source => source.type !== undefined && syncable.has(source.type));
+    
+    const results: SourceSyncResult[] = [];
+    // Refreshed sources still being waited for, with when refresh() was sent and whether
+    // re-processing was observed (a READY status right after refresh() is still the old content)
+    const pending = new Map<string, { result: SourceSyncResult; refreshedAt: number; seenProcessing: boolean }>();
+    
+    const report = (result: SourceSyncResult) => {
+      results.push(result);
+      onProgress?.(result);
+    };
     
-    return { isFresh, lastChecked };
+    for (const source of sources) {
+      const result: SourceSyncResult = {
+        sourceId: source.sourceId,
+        title: source.title,
+        type: source.type,
+        status: 'fresh',
+      };
+      
+      try {
+        const freshness = await this.rpc.callCodec(
+          RPCCodecs.RPC_CHECK_SOURCE_FRESHNESS,
+          { sourceId: source.sourceId },
+          notebookId
+        );
+        if (freshness.isFresh) {
+          report(result);
+          continue;
+        }
+      } catch (error) {
+        report({ ...result, status: 'failed', error: `Freshness check failed: ${(error as Error).message}` });
+        continue;
+      }
+      
+      try {
+        const refreshedAt = Date.now();
+        await this.refresh(notebookId, source.sourceId);
+        pending.set(source.sourceId, { result, refreshedAt, seenProcessing: false });
+      } catch (error) {
+        report({ ...result, status: 'failed', error: `Refresh failed: ${(error as Error).message}` });
+      }
+    }
+    
+    // Wait for refreshed sources to finish processing
+    const startTime = Date.now();
+    // Error of the last poll, if it failed - a failed poll is retried on the next one
+    let pollError: unknown;
+    while (pending.size > 0) {
+      let current: Map<string, Source> | undefined;
+      try {
+        current = new Map((await withoutCache(() => this.list(notebookId))).map(source => [source.sourceId, source]));
+        pollError = undefined;
+      } catch (error) {
+        if (error instanceof NotebookLMAbortError) {
+          throw error;
+        }
+        pollError = error;
+      }
+      if (current) {
+        for (const [sourceId, entry] of pending) {
+          const source = current.get(sourceId);
+          if (!source) {
+            pending.delete(sourceId);
+            report({ ...entry.result, status: 'failed', error: 'Source disappeared from the notebook after refresh' });
+          } else if (source.status === SourceStatus.FAILED) {
+            pending.delete(sourceId);
+            report({ ...entry.result, status: 'failed', error: 'Processing failed after refresh' });
+          } else if (source.status !== SourceStatus.READY) {
+            entry.seenProcessing = true;
+          } else if (entry.seenProcessing || (source.updatedAt !== undefined && Date.parse(source.updatedAt) >= entry.refreshedAt)) {
+            pending.delete(sourceId);
+            report({ ...entry.result, status: 'refreshed' });
+          }
+        }
+      }
+      
+      if (pending.size === 0 || Date.now() - startTime >= timeout) {
+        break;
+      }
+      await sleep(pollInterval);
+    }
+    
+    for (const { result } of pending.values()) {
+      report(pollError
+        ? { ...result, status: 'failed', error: `Status check failed: ${(pollError as Error).message}` }
+        : { ...result, status: 'timeout' });
+    }
+    
+    return {
+      results,
+      refreshed: results.filter(r => r.status === 'refreshed').length,
+      failed: results.filter(r => r.status === 'failed' || r.status === 'timeout').length,
+    };
   }
   
   /**
@@ -3146,6 +3427,7 @@ export class SourcesService {
    * 
    * @param notebookId - The notebook ID
    * @param query - Research query/question (what you want researched)
+   * @param options - Optional `signal` to cancel the call
    * @returns Source ID of the generated research report
    * 
    * @example
@@ -3168,9 +3450,13 @@ export class SourcesService {
    * console.log(`Research report ready! Source ID: ${sourceId}`);
    * ```
    */
-  async addDeepResearch(notebookId: string, query: string): Promise<string> {
-    console.warn(
-      '⚠️  WARNING: sources.addDeepResearch() is deprecated and may not work reliably. ' +
+  async addDeepResearch(notebookId: string, query: string, options: RequestOptions = {}): Promise<string> {
+    return withSignal(options.signal, () => this.addDeepResearchInternal(notebookId, query));
+  }
+
+  private async addDeepResearchInternal(notebookId: string, query: string): Promise<string> {
+    this.rpc.getLogger().warn(
+      'sources.addDeepResearch() is deprecated and may not work reliably. ' +
       'The API endpoint may return "Service unavailable" errors.'
     );
     // Check monthly quota
@@ -3211,6 +3497,7 @@ export class SourcesService {
    * @param notebookId - The notebook ID
    * @param action - Action to perform (see supported actions below)
    * @param sourceIds - Array of source IDs to act on
+   * @param options - Optional `signal` to cancel the call
    * 
    * @example
    * ```typescript
@@ -3240,9 +3527,13 @@ export class SourcesService {
    * - `timeline` - Create timeline from sources
    * - `table_of_contents` - Generate table of contents from sources
    */
-  async actOn(notebookId: string, action: string, sourceIds: string[]): Promise<void> {
-    console.warn(
-      '⚠️  WARNING: sources.actOn() is deprecated and may not work reliably. ' +
+  async actOn(notebookId: string, action: string, sourceIds: string[], options: RequestOptions = {}): Promise<void> {
+    return withSignal(options.signal, () => this.actOnInternal(notebookId, action, sourceIds));
+  }
+
+  private async actOnInternal(notebookId: string, action: string, sourceIds: string[]): Promise<void> {
+    this.rpc.getLogger().warn(
+      'sources.actOn() is deprecated and may not work reliably. ' +
       'The API endpoint returns "Service unavailable" errors. ' +
       'Consider using artifact creation methods instead.'
     );
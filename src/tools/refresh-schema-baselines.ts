@@ -0,0 +1,90 @@
+/**
+ * Refresh the recorded RPC response shapes from captured fixtures (offline)
+ *
+ * Usage:
+ *   npm run schema:refresh -- <fixtures...> [--out <file>] [--replace]
+ *
+ * <fixtures>  RecordReplayTransport fixture files (.json), wire captures (.har, .jsonl)
+ *             or directories of them, recorded against a live account (FakeNotebookLMServer
+ *             traffic describes the fake server, not NotebookLM)
+ * --out       File to write (default: src/rpc/schema-baselines.ts, the baseline bundled with the SDK)
+ *             A `.json` file gets plain JSON for `SchemaDriftOptions.baseline`, so an installed
+ *             package can check against shapes recorded by its user:
+ *               npm run schema:refresh -- notebooklm.har --out baseline.json
+ *               new NotebookLMClient({ schemaDrift: { baseline: JSON.parse(fs.readFileSync('baseline.json', 'utf-8')) } })
+ * --replace   Drop RPCs without samples (default: they keep their bundled shape)
+ */
+
+import * as fs from 'fs/promises';
+import * as RPC from '../rpc/rpc-methods.js';
+import { SCHEMA_BASELINES } from '../rpc/schema-baselines.js';
+import { buildSchemaBaseline, loadSchemaSamples, type SchemaBaseline } from '../rpc/schema-drift.js';
+
+const DEFAULT_OUT = 'src/rpc/schema-baselines.ts';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const out = outIndex >= 0 ? args[outIndex + 1] : DEFAULT_OUT;
+  const replace = args.includes('--replace');
+  const inputs = args.filter((arg, i) => !arg.startsWith('--') && (outIndex < 0 || i !== outIndex + 1));
+
+  if (inputs.length === 0 || !out) {
+    console.error([
+      'Usage: npm run schema:refresh -- <fixtures...> [--out <file>] [--replace]',
+      '',
+      '  --out <file>  Module to write (default: src/rpc/schema-baselines.ts)',
+      '                With a .json file, writes plain JSON to pass as SchemaDriftOptions.baseline',
+      '                (schemaDrift: { baseline: JSON.parse(fs.readFileSync(file, \'utf-8\')) })',
+      '  --replace     Drop RPCs without samples (default: they keep their bundled shape)',
+    ].join('\n'));
+    process.exit(1);
+  }
+
+  const samples = await loadSchemaSamples(inputs);
+  if (samples.length === 0) {
+    console.error(`No batchexecute responses found in ${inputs.join(', ')}`);
+    process.exit(1);
+  }
+
+  const refreshed = buildSchemaBaseline(samples);
+  const baseline: SchemaBaseline = replace ? refreshed : { ...SCHEMA_BASELINES, ...refreshed };
+  await fs.writeFile(out, out.endsWith('.json') ? `${JSON.stringify(baseline, null, 2)}\n` : render(baseline), 'utf-8');
+
+  for (const rpcId of Object.keys(refreshed)) {
+    const count = samples.filter(sample => sample.rpcId === rpcId).length;
+    console.log(`${rpcId.padEnd(8)} ${rpcNames(rpcId).padEnd(48)} ${count} response${count === 1 ? '' : 's'}, ${Object.keys(refreshed[rpcId]).length} paths`);
+  }
+  const kept = Object.keys(baseline).length - Object.keys(refreshed).length;
+  console.log(`Wrote ${out} (${Object.keys(refreshed).length} refreshed${kept > 0 ? `, ${kept} kept` : ''})`);
+}
+
+function rpcNames(rpcId: string): string {
+  return Object.entries(RPC)
+    .filter(([, value]) => value === rpcId)
+    .map(([name]) => name)
+    .join(' / ') || '(unknown RPC)';
+}
+
+function render(baseline: SchemaBaseline): string {
+  const rpcs = Object.keys(baseline).sort().map(rpcId => {
+    const paths = Object.entries(baseline[rpcId])
+      .map(([path, kinds]) => `    ${JSON.stringify(path)}: ${JSON.stringify(kinds)},`)
+      .join('\n');
+    return `  // ${rpcNames(rpcId)}\n  ${JSON.stringify(rpcId)}: {\n${paths}\n  },`;
+  });
+  return `/**
+ * Recorded response shapes of NotebookLM RPCs
+ * Generated by \`npm run schema:refresh\` from captured fixtures - don't edit by hand.
+ */
+
+import type { SchemaBaseline } from './schema-drift.js';
+
+export const SCHEMA_BASELINES: SchemaBaseline = {${rpcs.length > 0 ? `\n${rpcs.join('\n')}\n` : ''}};
+`;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+/**
+ * Account types
+ */
+
+import type { NotebookLMPlan } from '../utils/quota.js';
+import type { RequestOptions } from './common.js';
+
+/**
+ * Subscription tier codes returned by the account RPCs
+ */
+export enum AccountTier {
+  UNSPECIFIED = 0,
+  STANDARD = 1,
+  PLUS = 2,
+  PRO = 3,
+  ULTRA = 4,
+}
+
+/**
+ * NotebookLM account info
+ */
+export interface Account {
+  email?: string; // Signed-in Google account
+  displayName?: string; // Account display name
+  plan: NotebookLMPlan; // Plan used for quota limits ('standard' if the tier is unknown)
+  tier: AccountTier | number; // Raw tier code as returned
+  language?: string; // Output language (e.g. 'en', 'de')
+}
+
+/**
+ * Options for updating account settings
+ */
+export interface UpdateAccountOptions extends RequestOptions {
+  language?: string; // Output language code (e.g. 'en', 'de')
+}
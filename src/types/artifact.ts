@@ -2,6 +2,8 @@
  * Artifact types
  */
 
+import type { RequestOptions } from './common.js';
+
 // Re-export language constants for artifact customization
 export { NotebookLMLanguage, getLanguageInfo, isLanguageSupported, COMMON_LANGUAGES } from './languages.js';
 
@@ -247,6 +249,57 @@ export interface CreateArtifactOptions {
    * Must match the artifact type being created
    */
   customization?: QuizCustomization | FlashcardCustomization | SlideDeckCustomization | InfographicCustomization | AudioCustomization | VideoCustomization;
+  
+  /**
+   * Report template from `artifacts.report.suggest()` (Report only)
+   * Fills the report title, description and instructions; explicit `title` / `instructions` take precedence.
+   */
+  reportSuggestion?: ReportSuggestion;
+}
+
+/**
+ * Changes to apply to an existing artifact with `artifacts.update()`
+ * 
+ * Only fields that are set are sent. Supported for artifacts created through R7cb6c
+ * (Quiz, Flashcards, Slide Deck, Infographic, Report, Audio, Video).
+ */
+export interface UpdateArtifactPatch {
+  /** New custom instructions */
+  instructions?: string;
+  
+  /** New source selection (empty array = all sources in the notebook) */
+  sourceIds?: string[];
+  
+  /** New customization - must match the artifact's type */
+  customization?: QuizCustomization | FlashcardCustomization | SlideDeckCustomization | InfographicCustomization | AudioCustomization | VideoCustomization;
+  
+  /** Regenerate the artifact's content (keeps the artifact ID) */
+  regenerate?: boolean;
+}
+
+/**
+ * Result of updating an artifact
+ */
+export interface UpdateArtifactResult {
+  artifact: Artifact; // Updated artifact
+  regenerationQueued: boolean; // Whether the server queued a regeneration (poll state until READY)
+  updatedFields: string[]; // Fields sent in the update mask (e.g. ['instructions', 'source_ids'])
+}
+
+/**
+ * Report format suggested for a notebook's sources
+ */
+export interface ReportSuggestion {
+  title: string; // Report format name (e.g. "Briefing Doc")
+  description: string; // What the report covers
+  prompt: string; // Instructions used to generate the report
+}
+
+/**
+ * Options for report suggestions
+ */
+export interface SuggestReportsOptions extends RequestOptions {
+  sourceIds?: string[]; // Sources to tailor suggestions to (default: all sources)
 }
 
 /**
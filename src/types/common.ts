@@ -13,6 +13,17 @@
  */
 
 import { StreamChunk } from '../utils/streaming-client.js';
+import type { Transport } from '../utils/transport.js';
+import type { BatchingOptions } from '../rpc/batch-scheduler.js';
+import type { RPCMiddleware } from '../rpc/middleware.js';
+import type { Tracer } from '../utils/tracing.js';
+import type { Logger } from '../utils/logger.js';
+import type { RateLimiter, RateLimitOptions, RequestPriority } from '../rpc/rate-limiter.js';
+import type { BootstrapOptions } from '../rpc/bootstrap.js';
+import type { NetworkOptions } from '../utils/network.js';
+import type { CacheOptions, ResponseCache } from '../rpc/response-cache.js';
+import type { SchemaDriftDetector, SchemaDriftOptions } from '../rpc/schema-drift.js';
+import type { CredentialStore } from '../auth/credential-store.js';
 
 /**
  * Configuration for the NotebookLM client
@@ -24,9 +35,14 @@ export interface NotebookLMConfig {
   /** Cookie string from NotebookLM session (optional - can be provided via env, saved credentials, or auto-login) */
   cookies?: string;
   
-  /** Enable debug logging */
+  /** Enable debug logging to stderr (ignored when `logger` is set) */
   debug?: boolean;
   
+  /** Receives every message the SDK logs, with structured fields (rpcId, notebookId, attempt, ...)
+   * Default: nothing is logged (or debug-level logs to stderr when `debug` is on)
+   */
+  logger?: Logger;
+  
   /** Google account user index (0, 1, 2, etc.) - for multi-account support 
    * Default: '0' 
    * Use '1' or '2' if you have multiple Google accounts signed in
@@ -48,7 +64,9 @@ export interface NotebookLMConfig {
   /** Maximum delay between retries (ms) */
   retryMaxDelay?: number;
   
-  /** Request timeout (ms) */
+  /** Timeout for each HTTP request (ms) - RPC attempts and streaming chats
+   * throw NotebookLMAbortError with reason 'timeout' when it elapses (default: none)
+   */
   timeout?: number;
   
   /** Auto-refresh credentials to keep session alive */
@@ -67,6 +85,11 @@ export interface NotebookLMConfig {
     gsessionId?: string;
   };
   
+  /** Where saved credentials are loaded from, auto-login saves to and refreshed cookies are written back
+   * Default: FileCredentialStore (`~/.config/notebooklm-kit/credentials.json`, or `$XDG_CONFIG_HOME`)
+   */
+  credentialStore?: CredentialStore;
+  
   /** Auto-login configuration (if credentials not provided) */
   auth?: {
     /** Google email for auto-login */
@@ -80,8 +103,85 @@ export interface NotebookLMConfig {
   /** Enable client-side quota tracking and enforcement (default: false) */
   enforceQuotas?: boolean;
   
-  /** NotebookLM plan for quota limits (default: 'standard') */
-  plan?: 'standard' | 'plus' | 'pro' | 'ultra';
+  /** NotebookLM plan for quota limits (default: 'standard')
+   * Use 'auto' to detect the plan from the account on connect() (falls back to 'standard')
+   */
+  plan?: 'standard' | 'plus' | 'pro' | 'ultra' | 'auto';
+  
+  /** Default output language for notebooks whose language wasn't set with `notebookLanguage.set()` (default: 'en')
+   * Used for artifact creation when no language is passed
+   */
+  language?: string;
+  
+  /** HTTP transport for RPC and streaming requests (default: FetchTransport using global fetch) */
+  transport?: Transport;
+  
+  /** Base URL of the NotebookLM service (default: 'https://notebooklm.google.com')
+   * Point this at a local server (e.g. FakeNotebookLMServer) for offline testing
+   */
+  baseUrl?: string;
+  
+  /** Coalesce RPC calls issued in the same tick into one batchexecute request (default: false)
+   * Pass `{ maxBatchSize, windowMs }` to tune how calls are grouped
+   */
+  batching?: boolean | BatchingOptions;
+  
+  /** Request/response interceptors for every RPC call and streaming chat, run in order
+   * Hooks can rewrite args, answer from a cache, retry or inject faults (see RPCMiddleware)
+   */
+  middleware?: RPCMiddleware[];
+  
+  /** OpenTelemetry-style tracer for RPC, streaming chat and download spans (default: no-op)
+   * e.g. `trace.getTracer('notebooklm-kit')` from @opentelemetry/api
+   */
+  tracer?: Tracer;
+  
+  /** Client-side concurrency caps, requests-per-second budget and priority lanes (default: no limits)
+   * Pass a RateLimiter instance to share one budget between several clients
+   */
+  rateLimit?: RateLimitOptions | RateLimiter;
+  
+  /** Cache read RPCs (notebook list, project, notes, artifacts, source content) for a TTL (default: off)
+   * Entries of a notebook are dropped when this client changes it. `true` uses an in-memory store and a 60s TTL
+   */
+  cache?: boolean | CacheOptions | ResponseCache;
+  
+  /** Let concurrent identical reads (same RPC, args and notebook) share one request (default: true)
+   * Mutations are never deduplicated
+   */
+  dedupe?: boolean;
+  
+  /** Warn (SchemaDriftWarning) when a response's structure differs from the recorded baseline (default: off)
+   * `true` compares against the shapes bundled with the SDK and emits process warnings
+   */
+  schemaDrift?: boolean | SchemaDriftOptions | SchemaDriftDetector;
+  
+  /** Read the current frontend build label, session id and auth token from the app page on connect()
+   * Values are re-read after `ttl` (default: 1 hour) and whenever the server rejects a request
+   * as stale (HTTP 400). Falls back to built-in values if the page can't be read. Default: true
+   */
+  bootstrap?: boolean | BootstrapOptions;
+  
+  /** Proxy (HTTP(S) or SOCKS5), NO_PROXY list, extra CA certificates and user agent
+   * Applied to RPC and streaming requests, downloads, credential refresh and Playwright browsers.
+   * `network: {}` picks up HTTPS_PROXY / NO_PROXY from the environment. Default: direct connections
+   */
+  network?: NetworkOptions;
+}
+
+/**
+ * Per-call options accepted by every service method
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 5000);
+ * const notebooks = await client.notebooks.list({ signal: controller.signal });
+ * ```
+ */
+export interface RequestOptions {
+  /** Cancels the call (in-flight requests, retries and polling) when aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -99,6 +199,9 @@ export interface RPCCall {
   
   /** Request-specific URL parameters */
   urlParams?: Record<string, string>;
+  
+  /** Rate limiter lane (default: the enclosing `withPriority` scope, else 'normal') */
+  priority?: RequestPriority;
 }
 
 /**
@@ -132,6 +235,17 @@ export interface BatchExecuteConfig {
   maxRetries?: number;
   retryDelay?: number;
   retryMaxDelay?: number;
+  /** Timeout for each request attempt (ms) */
+  timeout?: number;
+  transport?: Transport;
+  /** Base URL override (default: https://{host}) */
+  baseUrl?: string;
+  /** Receives a `notebooklm.batchexecute` span per HTTP attempt */
+  tracer?: Tracer;
+  /** Logger for retries and response decoding */
+  logger?: Logger;
+  /** Gates every HTTP attempt and is told about 429 / RESOURCE_EXHAUSTED responses */
+  rateLimiter?: RateLimiter;
 }
 
 /**
@@ -176,17 +290,77 @@ export class NotebookLMNetworkError extends NotebookLMError {
   }
 }
 
+/**
+ * Why a request was cancelled
+ * - `aborted`: The caller's `AbortSignal` fired
+ * - `timeout`: The configured `timeout` elapsed
+ */
+export type NotebookLMAbortReason = 'aborted' | 'timeout';
+
+/**
+ * Request cancelled by an AbortSignal or by the configured timeout
+ */
+export class NotebookLMAbortError extends NotebookLMError {
+  constructor(
+    message: string = 'The operation was aborted',
+    public readonly reason: NotebookLMAbortReason = 'aborted',
+    /** `signal.reason` passed to `AbortController.abort()`, if any */
+    public readonly abortReason?: unknown
+  ) {
+    super(message);
+    this.name = 'NotebookLMAbortError';
+    Object.setPrototypeOf(this, NotebookLMAbortError.prototype);
+  }
+}
+
 /**
  * Parse error
  */
 export class NotebookLMParseError extends NotebookLMError {
-  constructor(message: string, public readonly rawData?: string) {
+  constructor(
+    message: string,
+    public readonly rawData?: string,
+    /** JSON path of the unexpected value (e.g. `$[0][1][3][0]`), when known */
+    public readonly path?: string
+  ) {
     super(message);
     this.name = 'NotebookLMParseError';
     Object.setPrototypeOf(this, NotebookLMParseError.prototype);
   }
 }
 
+/**
+ * One difference between a response and the recorded shape of its RPC
+ * - `changed`: The value has a type the baseline never had at this path
+ * - `added`: The path isn't in the baseline
+ * - `removed`: The path was set in every recorded response and is now missing or null
+ */
+export interface SchemaDrift {
+  /** JSON path (`[*]` stands for every element of a list) */
+  path: string;
+  change: 'changed' | 'added' | 'removed';
+  /** Types recorded in the baseline */
+  expected?: string[];
+  /** Type found in the response */
+  actual?: string;
+}
+
+/**
+ * A response no longer matches the recorded shape of its RPC
+ * Emitted as a process warning (or passed to `onDrift`), never thrown.
+ */
+export class SchemaDriftWarning extends Error {
+  constructor(
+    message: string,
+    public readonly rpcId: string,
+    public readonly drift: SchemaDrift[]
+  ) {
+    super(message);
+    this.name = 'SchemaDriftWarning';
+    Object.setPrototypeOf(this, SchemaDriftWarning.prototype);
+  }
+}
+
 /**
  * Chat configuration options
  * Maps to NotebookLM API configuration codes
@@ -0,0 +1,62 @@
+/**
+ * Generation types (notebook guide, outlines and drafted sections)
+ */
+
+import type { RequestOptions } from './common.js';
+
+/**
+ * Question suggested by the notebook guide
+ */
+export interface SuggestedQuestion {
+  question: string; // Question shown to the user
+  prompt: string; // Full prompt sent to chat when the question is picked
+}
+
+/**
+ * Notebook guide (summary + suggested questions)
+ */
+export interface NotebookGuide {
+  summary: string; // Summary of the notebook's sources
+  suggestedQuestions: SuggestedQuestion[]; // Suggested questions to ask
+}
+
+/**
+ * Node in an outline tree
+ */
+export interface OutlineNode {
+  title: string; // Heading or bullet text
+  level: number; // Depth (1 = top-level section)
+  children: OutlineNode[]; // Nested subsections
+}
+
+/**
+ * Outline generated from the notebook's sources
+ */
+export interface NotebookOutline {
+  content: string; // Outline as returned (markdown)
+  sections: OutlineNode[]; // Outline as a tree of sections
+}
+
+/**
+ * Drafted section of a document
+ */
+export interface DraftSection {
+  title: string; // Section heading
+  content: string; // Drafted text (markdown)
+}
+
+/**
+ * Options for drafting a document section by section
+ */
+export interface DraftDocumentOptions extends RequestOptions {
+  outline?: NotebookOutline; // Outline to draft from (default: generated with generateOutline())
+  onSection?: (section: DraftSection, index: number, total: number) => void; // Called after each section is drafted
+}
+
+/**
+ * Document drafted section by section
+ */
+export interface DraftDocument {
+  outline: NotebookOutline; // Outline the document was drafted from
+  sections: DraftSection[]; // Drafted sections, in outline order
+}
@@ -0,0 +1,104 @@
+/**
+ * Guidebook types
+ *
+ * Guidebooks are published, learner-facing versions of a notebook.
+ */
+
+import type { RequestOptions } from './common.js';
+
+/**
+ * Guidebook publication status
+ */
+export enum GuidebookStatus {
+  UNSPECIFIED = 0,
+  DRAFT = 1,
+  PUBLISHED = 2,
+  ARCHIVED = 3,
+}
+
+/**
+ * Guidebook
+ */
+export interface Guidebook {
+  guidebookId: string; // Unique guidebook ID
+  title: string; // Guidebook title
+  content?: string; // Guidebook description/content
+  status: GuidebookStatus; // Publication status
+  publishedAt?: string; // Publish timestamp (ISO)
+}
+
+/**
+ * Section of a guidebook
+ */
+export interface GuidebookSection {
+  sectionId: string; // Unique section ID
+  title: string; // Section title
+  content?: string; // Section content
+  sourceIds: string[]; // Sources the section is based on
+}
+
+/**
+ * Guidebook with its sections
+ */
+export interface GuidebookDetails extends Guidebook {
+  sections: GuidebookSection[]; // Guidebook sections
+}
+
+/**
+ * Options for publishing a guidebook
+ */
+export interface PublishGuidebookOptions extends RequestOptions {
+  isPublic?: boolean; // Anyone with the link can view (default: true)
+  tags?: string[]; // Discovery tags
+}
+
+/**
+ * Result of publishing a guidebook
+ */
+export interface PublishGuidebookResult {
+  guidebook: Guidebook; // Published guidebook
+  publicUrl?: string; // Public link for learners
+}
+
+/**
+ * Options for sharing a guidebook
+ */
+export interface ShareGuidebookOptions extends RequestOptions {
+  isPublic?: boolean; // Anyone with the link can view (default: false)
+  emails?: string[]; // Email addresses to share with
+  allowComments?: boolean; // Viewers can comment (default: false)
+  allowDownloads?: boolean; // Viewers can download (default: false)
+}
+
+/**
+ * Result of sharing a guidebook
+ */
+export interface ShareGuidebookResult {
+  shareUrl?: string; // Share link
+  shareId?: string; // Share ID
+}
+
+/**
+ * Options for asking a guidebook a question
+ */
+export interface AskGuidebookOptions extends RequestOptions {
+  maxLength?: number; // Maximum answer length
+  includeSources?: boolean; // Include source references (default: true)
+}
+
+/**
+ * Source referenced by a guidebook answer
+ */
+export interface GuidebookSourceReference {
+  sourceId: string; // Source ID
+  title?: string; // Source title
+}
+
+/**
+ * Answer generated from a guidebook
+ */
+export interface GuidebookAnswer {
+  answer: string; // Answer text
+  sources: GuidebookSourceReference[]; // Sources used for the answer
+  confidence?: number; // Confidence score (0-1)
+}
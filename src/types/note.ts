@@ -2,6 +2,8 @@
  * Note types
  */
 
+import type { RequestOptions } from './common.js';
+
 /**
  * Note in a notebook
  */
@@ -27,7 +29,7 @@ export enum NoteType {
 /**
  * Options for creating a note
  */
-export interface CreateNoteOptions {
+export interface CreateNoteOptions extends RequestOptions {
   title: string; // Note title
   content?: string; // Initial content
   tags?: string[]; // Note tags
@@ -37,7 +39,7 @@ export interface CreateNoteOptions {
 /**
  * Options for updating a note
  */
-export interface UpdateNoteOptions {
+export interface UpdateNoteOptions extends RequestOptions {
   title?: string; // New title
   content?: string; // New content
   tags?: string[]; // New tags
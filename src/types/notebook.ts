@@ -3,6 +3,7 @@
  */
 
 import type { Source } from './source.js';
+import type { RequestOptions } from './common.js';
 
 /**
  * NotebookLM Project (Notebook)
@@ -35,7 +36,7 @@ export interface SharingSettings {
 /**
  * Options for creating a notebook
  */
-export interface CreateNotebookOptions {
+export interface CreateNotebookOptions extends RequestOptions {
   title?: string; /** Notebook title (optional, auto-generated if empty) */
   emoji?: string; /** Notebook emoji (optional) */
 }
@@ -43,7 +44,7 @@ export interface CreateNotebookOptions {
 /**
  * Options for updating a notebook
  */
-export interface UpdateNotebookOptions {
+export interface UpdateNotebookOptions extends RequestOptions {
   title?: string; /** New title */
   emoji?: string; /** New emoji */
   metadata?: Record<string, any>; /** Other metadata updates */
@@ -52,7 +53,7 @@ export interface UpdateNotebookOptions {
 /**
  * Options for sharing a notebook
  */
-export interface ShareNotebookOptions {
+export interface ShareNotebookOptions extends RequestOptions {
   users?: Array<{ /** Users to share with (supports multiple users) */
     email: string; /** User email */
     role: 2 | 3 | 4; /** User role: 2=editor, 3=viewer, 4=remove */
@@ -79,7 +80,7 @@ export interface ShareNotebookResult {
 /**
  * Options for deleting notebook(s)
  */
-export interface DeleteNotebookOptions {
+export interface DeleteNotebookOptions extends RequestOptions {
   /** Execution mode: 'parallel' (default) or 'sequential' */
   mode?: 'parallel' | 'sequential';
 }
@@ -2,6 +2,8 @@
  * Source types
  */
 
+import type { RequestOptions } from './common.js';
+
 /**
  * Source type enum
  * Maps to NotebookLM API type codes:
@@ -75,7 +77,7 @@ export interface SourceInput {
 /**
  * Options for adding a source from URL
  */
-export interface AddSourceFromURLOptions {
+export interface AddSourceFromURLOptions extends RequestOptions {
   url: string; // URL to add
   title?: string; // Optional custom title
 }
@@ -83,7 +85,7 @@ export interface AddSourceFromURLOptions {
 /**
  * Options for adding a source from text
  */
-export interface AddSourceFromTextOptions {
+export interface AddSourceFromTextOptions extends RequestOptions {
   content: string; // Text content
   title: string; // Source title
 }
@@ -91,7 +93,7 @@ export interface AddSourceFromTextOptions {
 /**
  * Options for adding a source from file
  */
-export interface AddSourceFromFileOptions {
+export interface AddSourceFromFileOptions extends RequestOptions {
   content: Buffer | string; // File content (as Buffer or base64 string)
   fileName: string; // File name
   mimeType?: string; // MIME type (optional, will be auto-detected if not provided)
@@ -121,6 +123,44 @@ export interface SourceFreshness {
   lastChecked?: Date; // Last checked timestamp
 }
 
+/**
+ * Outcome of syncing a single source
+ * - `fresh`: Source was up to date, nothing to do
+ * - `refreshed`: Source was stale, refreshed and finished processing
+ * - `timeout`: Source was refreshed but did not finish processing in time
+ * - `failed`: Freshness check or refresh failed (see `error`)
+ */
+export type SourceSyncStatus = 'fresh' | 'refreshed' | 'timeout' | 'failed';
+
+/**
+ * Per-source sync report
+ */
+export interface SourceSyncResult {
+  sourceId: string; // Source ID
+  title?: string; // Source title
+  type?: SourceType; // Source type
+  status: SourceSyncStatus; // Outcome
+  error?: string; // Error message (for `failed`)
+}
+
+/**
+ * Options for syncing stale sources
+ */
+export interface SyncStaleSourcesOptions extends RequestOptions {
+  timeout?: number; // Max wait for refreshed sources to finish processing in ms (default: 300000 = 5 minutes)
+  pollInterval?: number; // Poll interval in ms (default: 2000 = 2 seconds)
+  onProgress?: (result: SourceSyncResult) => void; // Called as each source's outcome is known
+}
+
+/**
+ * Result of syncing stale sources
+ */
+export interface SyncStaleSourcesResult {
+  results: SourceSyncResult[]; // Report for every Drive/URL source checked
+  refreshed: number; // Sources refreshed and ready
+  failed: number; // Sources that failed or timed out
+}
+
 /**
  * Research mode for source discovery
  */
@@ -174,7 +214,7 @@ export interface DiscoveredSource {
 /**
  * Options for searching web sources
  */
-export interface SearchWebSourcesOptions {
+export interface SearchWebSourcesOptions extends RequestOptions {
   query: string; // Search query
   sourceType?: SearchSourceType; // Source type (web or drive)
   mode?: ResearchMode; // Research mode (fast or deep)
@@ -183,7 +223,7 @@ export interface SearchWebSourcesOptions {
 /**
  * Options for adding discovered sources
  */
-export interface AddDiscoveredSourcesOptions {
+export interface AddDiscoveredSourcesOptions extends RequestOptions {
   sessionId: string; // Search session ID from searchWeb()
   webSources?: DiscoveredWebSource[]; // Web sources to add
   driveSources?: DiscoveredDriveSource[]; // Drive sources to add
@@ -192,7 +232,7 @@ export interface AddDiscoveredSourcesOptions {
 /**
  * Options for adding Google Drive source directly
  */
-export interface AddGoogleDriveSourceOptions {
+export interface AddGoogleDriveSourceOptions extends RequestOptions {
   fileId: string; // Google Drive file ID
   title?: string; // Optional custom title
   mimeType?: string; // MIME type (optional, will be inferred if not provided)
@@ -201,7 +241,7 @@ export interface AddGoogleDriveSourceOptions {
 /**
  * Options for adding YouTube source
  */
-export interface AddYouTubeSourceOptions {
+export interface AddYouTubeSourceOptions extends RequestOptions {
   urlOrId: string; // YouTube URL or video ID
   title?: string; // Optional custom title
 }
@@ -209,7 +249,7 @@ export interface AddYouTubeSourceOptions {
 /**
  * Options for batch source addition
  */
-export interface BatchAddSourcesOptions {
+export interface BatchAddSourcesOptions extends RequestOptions {
   sources: Array< // Array of source inputs (mixed types supported)
     | { type: 'url'; url: string; title?: string }
     | { type: 'text'; title: string; content: string }
@@ -0,0 +1,144 @@
+/**
+ * Cancellation helpers
+ *
+ * Public service methods run their body (a private `...Internal` method) inside an abort
+ * scope (`withSignal`). RPC calls, streaming chats and polling sleeps made anywhere inside
+ * the scope pick up the signal with `currentSignal()`, so private helpers don't need a
+ * signal parameter.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { NotebookLMAbortError } from '../types/common.js';
+
+const scope = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Signal of the enclosing abort scope, if any
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return scope.getStore();
+}
+
+/**
+ * Run `fn` with `signal` as the current abort scope
+ * Nested scopes are combined - aborting an outer scope also aborts the inner one.
+ * Any error thrown after the signal fired (fetch AbortError, closed browser, ...) is
+ * reported as NotebookLMAbortError.
+ *
+ * @example
+ * ```typescript
+ * async list(options: RequestOptions = {}) {
+ *   return withSignal(options.signal, () => this.listInternal());
+ * }
+ *
+ * private async listInternal() {
+ *   return this.rpc.callCodec(RPCCodecs.RPC_LIST_MY_NOTEBOOKS, {});
+ * }
+ * ```
+ */
+export async function withSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  const outer = scope.getStore();
+  const linked = signal && signal !== outer ? linkSignals([signal, outer]) : { signal: outer, dispose: () => {} };
+  const active = linked.signal;
+
+  try {
+    throwIfAborted(active);
+    return active && active !== outer ? await scope.run(active, fn) : await fn();
+  } catch (error) {
+    if (active?.aborted) {
+      throw toAbortError(active);
+    }
+    throw error;
+  } finally {
+    linked.dispose();
+  }
+}
+
+/**
+ * Combined signal plus a function that detaches its listeners
+ */
+export interface LinkedSignal {
+  signal?: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * Combine signals (and optionally a timeout) into one signal
+ * Aborts with the first source's reason; a timeout aborts with NotebookLMAbortError('timeout').
+ * Call `dispose()` once the request is done so long-lived signals don't collect listeners.
+ */
+export function linkSignals(signals: Array<AbortSignal | undefined>, timeoutMs?: number): LinkedSignal {
+  const sources = signals.filter((s): s is AbortSignal => !!s);
+
+  if (!timeoutMs && sources.length <= 1) {
+    return { signal: sources[0], dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const cleanups: Array<() => void> = [];
+
+  for (const source of sources) {
+    if (source.aborted) {
+      controller.abort(source.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(source.reason);
+    source.addEventListener('abort', onAbort, { once: true });
+    cleanups.push(() => source.removeEventListener('abort', onAbort));
+  }
+
+  if (timeoutMs && timeoutMs > 0 && !controller.signal.aborted) {
+    const timer = setTimeout(() => {
+      controller.abort(new NotebookLMAbortError(`Request timed out after ${timeoutMs}ms`, 'timeout'));
+    }, timeoutMs);
+    cleanups.push(() => clearTimeout(timer));
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => cleanups.forEach(cleanup => cleanup()),
+  };
+}
+
+/**
+ * Throw NotebookLMAbortError if the signal has fired
+ */
+export function throwIfAborted(signal: AbortSignal | undefined = currentSignal()): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Convert an aborted signal's reason into NotebookLMAbortError
+ */
+export function toAbortError(signal: AbortSignal): NotebookLMAbortError {
+  const reason = signal.reason;
+  if (reason instanceof NotebookLMAbortError) {
+    return reason;
+  }
+  return new NotebookLMAbortError('The operation was aborted', 'aborted', reason);
+}
+
+/**
+ * Abortable sleep (used between retries and polling attempts)
+ * Rejects with NotebookLMAbortError as soon as the signal fires
+ */
+export function sleep(ms: number, signal: AbortSignal | undefined = currentSignal()): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -10,7 +10,12 @@ import type {
 } from '../types/common.js';
 import { NotebookLMError as ErrorClass, NotebookLMAuthError as AuthErrorClass, NotebookLMNetworkError as NetworkErrorClass } from '../types/common.js';
 import { parseChunkedResponse } from './chunked-decoder.js';
-import { isErrorResponse } from './errors.js';
+import { isErrorResponse, isRateLimitError, parseRetryAfter } from './errors.js';
+import { FetchTransport, type Transport } from './transport.js';
+import { linkSignals, sleep, toAbortError } from './abort.js';
+import { endSpan, noopTracer, type Tracer } from './tracing.js';
+import { noopLogger, type Logger } from './logger.js';
+import { highestPriority } from '../rpc/rate-limiter.js';
 
 /**
  * Request ID generator for batchexecute requests
@@ -47,7 +52,24 @@ export class BatchExecuteClient {
   updateCookies(cookies: string): void {
     this.config.cookies = cookies;
   }
+  
+  /**
+   * Update the auth token (`at`) sent with every request
+   */
+  updateAuthToken(authToken: string): void {
+    this.config.authToken = authToken;
+  }
+  
+  /**
+   * Merge URL parameters sent with every request (e.g. a newly discovered `bl` and `f.sid`)
+   */
+  updateUrlParams(urlParams: Record<string, string>): void {
+    this.config.urlParams = { ...this.config.urlParams, ...urlParams };
+  }
   private reqidGenerator: ReqIDGenerator;
+  private transport: Transport;
+  private tracer: Tracer;
+  private logger: Logger;
   
   constructor(config: BatchExecuteConfig) {
     // Get retry config from env vars or config, with very low defaults
@@ -80,21 +102,67 @@ export class BatchExecuteClient {
     };
     
     this.reqidGenerator = new ReqIDGenerator();
+    this.transport = config.transport ?? new FetchTransport();
+    this.tracer = config.tracer ?? noopTracer;
+    this.logger = config.logger ?? noopLogger;
   }
   
   /**
    * Execute a single RPC call
    */
-  async do(rpc: RPCCall): Promise<RPCResponse> {
-    return this.execute([rpc]);
+  async do(rpc: RPCCall, signal?: AbortSignal): Promise<RPCResponse> {
+    return this.execute([rpc], signal);
   }
   
   /**
    * Execute one or more RPC calls
+   * Returns the first response (throws if it is an error frame)
+   */
+  async execute(rpcs: RPCCall[], signal?: AbortSignal): Promise<RPCResponse> {
+    return this.send(rpcs, signal, responses => {
+      // Check for API errors in first response
+      const firstResponse = responses[0];
+      const apiError = isErrorResponse(firstResponse);
+      if (apiError) {
+        throw apiError;
+      }
+      
+      return firstResponse;
+    });
+  }
+  
+  /**
+   * Execute several RPC calls in one request and return one result per call
+   * Frames are matched back to calls by their envelope index; error frames are
+   * returned as errors in place so one failing call doesn't fail the others.
+   */
+  async executeBatch(rpcs: RPCCall[], signal?: AbortSignal): Promise<Array<RPCResponse | Error>> {
+    return this.send(rpcs, signal, responses => {
+      const results = this.demultiplex(rpcs, responses);
+      // Per-call error frames aren't retried here, but still slow everyone down
+      if (results.some(isRateLimitError)) {
+        this.throttled();
+      }
+      return results;
+    });
+  }
+  
+  /**
+   * Send RPC calls with retry logic and hand the decoded frames to `handle`
+   * Each attempt is bounded by the configured timeout; aborts and timeouts are not retried
+   * and throw NotebookLMAbortError. Each attempt is traced as a `notebooklm.batchexecute` span.
+   * With a rate limiter configured, each attempt first waits for a slot in the batch's most
+   * urgent lane; 429 and RESOURCE_EXHAUSTED responses throttle the limiter, and a Retry-After
+   * header stretches the next retry delay.
    */
-  async execute(rpcs: RPCCall[]): Promise<RPCResponse> {
+  private async send<T>(
+    rpcs: RPCCall[],
+    signal: AbortSignal | undefined,
+    handle: (responses: RPCResponse[]) => T
+  ): Promise<T> {
     const protocol = 'https';
-    const baseUrl = `${protocol}://${this.config.host}/_/${this.config.app}/data/batchexecute`;
+    const origin = this.config.baseUrl?.replace(/\/+$/, '') || `${protocol}://${this.config.host}`;
+    const baseUrl = `${origin}/_/${this.config.app}/data/batchexecute`;
     
     // Build URL with query parameters
     const url = new URL(baseUrl);
@@ -113,14 +181,15 @@ export class BatchExecuteClient {
       }
     }
     
-    // Build request body
-    const envelope = rpcs.map(rpc => this.buildRPCData(rpc));
+    // Build request body (calls are indexed from 1 when more than one is sent)
+    const envelope = rpcs.map((rpc, i) => this.buildRPCData(rpc, rpcs.length > 1 ? String(i + 1) : 'generic'));
     const reqBody = JSON.stringify([envelope]);
     
     // Build form data
     const formData = new URLSearchParams();
     formData.set('f.req', reqBody);
     formData.set('at', this.config.authToken);
+    const requestBody = formData.toString();
     
     // Execute request with retry logic
     let lastError: Error | null = null;
@@ -131,6 +200,9 @@ export class BatchExecuteClient {
     const maxRetries = this.config.maxRetries!;
     const retryDelay = this.config.retryDelay!;
     const retryMaxDelay = this.config.retryMaxDelay!;
+    const rpcIds = rpcs.map(r => r.id);
+    const priority = highestPriority(rpcs.map(r => r.priority));
+    let retryAfter = 0;
     
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       if (attempt > 0) {
@@ -140,9 +212,38 @@ export class BatchExecuteClient {
           if (delay > retryMaxDelay) {
             delay = retryMaxDelay;
         }
-        await this.sleep(delay);
+        // Never retry sooner than the server asked us to
+        delay = Math.max(delay, retryAfter);
+        retryAfter = 0;
+        this.logger.debug('Retrying batchexecute request', {
+          rpcIds: rpcs.map(r => r.id),
+          notebookId: rpcs[0].notebookId,
+          attempt: attempt + 1,
+          delayMs: delay,
+          status: lastResponseStatus,
+          error: lastError ?? undefined,
+        });
+        await this.sleep(delay, signal);
+      }
+      
+      if (signal?.aborted) {
+        throw toAbortError(signal);
       }
       
+      // Queueing for a slot doesn't count against the attempt timeout
+      const release = await this.config.rateLimiter?.acquire(rpcIds, priority, signal);
+      const attemptSignal = linkSignals([signal], this.config.timeout);
+      const span = this.tracer.startSpan('notebooklm.batchexecute', {
+        attributes: {
+          'rpc.system': 'batchexecute',
+          'notebooklm.rpc_ids': rpcs.map(r => r.id).join(','),
+          'notebooklm.notebook_id': rpcs[0].notebookId,
+          'notebooklm.attempt': attempt + 1,
+          'http.request.body.size': requestBody.length,
+        },
+      });
+      let succeeded = false;
+      
       try {
         // Create request headers
         const headers: Record<string, string> = {
@@ -153,12 +254,19 @@ export class BatchExecuteClient {
         
         let response: Response;
         try {
-          response = await fetch(url.toString(), {
-          method: 'POST',
-          headers,
-          body: formData.toString(),
-        });
+          response = await this.transport.send({
+            kind: 'batchexecute',
+            url: url.toString(),
+            method: 'POST',
+            headers,
+            body: requestBody,
+            rpcIds: rpcs.map(r => r.id),
+            signal: attemptSignal.signal,
+          });
         } catch (fetchError) {
+          if (attemptSignal.signal?.aborted) {
+            throw toAbortError(attemptSignal.signal);
+          }
           lastError = fetchError instanceof Error ? fetchError : new Error(String(fetchError));
           if (this.isRetryableError(lastError) && attempt < maxRetries) {
             continue;
@@ -167,13 +275,18 @@ export class BatchExecuteClient {
         }
         
         lastResponseStatus = response.status;
+        span.setAttribute('http.response.status_code', response.status);
         
         // Read response body first (before checking status)
         let body: string;
         try {
           body = await response.text();
           lastResponseBody = body;
+          span.setAttribute('http.response.body.size', body.length);
         } catch (readError) {
+          if (attemptSignal.signal?.aborted) {
+            throw toAbortError(attemptSignal.signal);
+          }
           lastError = readError instanceof Error ? readError : new Error(String(readError));
           if (this.isRetryableError(lastError) && attempt < maxRetries) {
             continue;
@@ -181,6 +294,10 @@ export class BatchExecuteClient {
           throw lastError;
         }
         
+        if (response.status === 429) {
+          retryAfter = this.throttled(response.headers.get('retry-after'));
+        }
+        
         // Check if we should retry based on status
         if (this.isRetryableStatus(response.status) && attempt < maxRetries) {
           lastError = new Error(`Server returned status ${response.status}: ${response.statusText}`);
@@ -213,16 +330,16 @@ export class BatchExecuteClient {
           throw new ErrorClass('No valid responses found in server response');
         }
         
-        // Check for API errors in first response
-        const firstResponse = responses[0];
-        const apiError = isErrorResponse(firstResponse);
-        if (apiError) {
-          throw apiError;
-        }
-        
-        return firstResponse;
+        const result = handle(responses);
+        succeeded = true;
+        return result;
         
       } catch (error) {
+        // Cancelled or timed out - never retried
+        if (attemptSignal.signal?.aborted) {
+          throw toAbortError(attemptSignal.signal);
+        }
+        
         // Ensure we have an Error object
         if (error instanceof Error) {
           lastError = error;
@@ -230,6 +347,10 @@ export class BatchExecuteClient {
           lastError = new Error(String(error) || 'Unknown error');
         }
         
+        if (isRateLimitError(error)) {
+          retryAfter = this.throttled();
+        }
+        
         // Check if error is retryable
         if (error instanceof ErrorClass && 'isRetryable' in error) {
           const retryable = (error as any).isRetryable?.() ?? false;
@@ -244,6 +365,14 @@ export class BatchExecuteClient {
         
         // Non-retryable error or max retries reached
         throw error;
+      } finally {
+        if (succeeded) {
+          endSpan(span);
+        } else {
+          endSpan(span, attemptSignal.signal?.aborted ? toAbortError(attemptSignal.signal) : lastError ?? new Error('Unknown error'));
+        }
+        attemptSignal.dispose();
+        release?.();
       }
     }
     
@@ -261,126 +390,66 @@ export class BatchExecuteClient {
       errorMessage += ` - ${lastResponseBody}`;
     }
     
+    this.logger.warn('All batchexecute attempts failed', {
+      rpcIds: rpcs.map(r => r.id),
+      notebookId: rpcs[0].notebookId,
+      attempts: maxRetries + 1,
+      status: lastResponseStatus,
+      error: lastError ?? undefined,
+    });
     throw new NetworkErrorClass(`All retry attempts failed: ${errorMessage}`, lastError || undefined);
   }
   
+  /**
+   * Tell the rate limiter the server pushed back
+   * Returns the server's requested delay (ms), or 0 when it gave none
+   */
+  private throttled(retryAfterHeader?: string | null): number {
+    const retryAfter = parseRetryAfter(retryAfterHeader);
+    this.config.rateLimiter?.throttle(retryAfter);
+    this.logger.debug('Server is rate limiting requests', { retryAfterMs: retryAfter });
+    return Math.min(retryAfter ?? 0, 60000);
+  }
+  
   /**
    * Build RPC data array
    */
-  private buildRPCData(rpc: RPCCall): any[] {
+  private buildRPCData(rpc: RPCCall, index: string = 'generic'): any[] {
     const argsJSON = JSON.stringify(rpc.args);
     
     return [
       rpc.id,
       argsJSON,
       null,
-      'generic',
+      index,
     ];
   }
   
   /**
-   * Decode batchexecute response
+   * Match response frames back to calls
+   * Uses the frame index (1-based) when present, otherwise the next unused frame with the same RPC ID
    */
-  private decodeResponse(raw: string): RPCResponse[] {
-    // Remove the standard prefix
-    raw = raw.trim().replace(/^\)\]\}'/, '');
-    
-    if (!raw) {
-      throw new ErrorClass('Empty response after trimming prefix');
-    }
-    
-    // Check if response starts with a digit (chunked format)
-    if (/^\d/.test(raw)) {
-      return parseChunkedResponse(raw, this.config.debug);
-    }
-    
-    // Try to parse as regular JSON array
-    let responses: any[][];
-    try {
-      responses = JSON.parse(raw);
-    } catch (error) {
-      // Try parsing as numeric error code
-      const trimmed = raw.trim();
-      const code = parseInt(trimmed, 10);
-      
-      if (!isNaN(code) && trimmed.length <= 10) {
-        // Single numeric error code
-        return [{
-          index: 0,
-          id: 'numeric',
-          data: code,
-        }];
-      }
-      
-      // Try to parse as single array
-      try {
-        const singleArray = JSON.parse(raw);
-        if (Array.isArray(singleArray)) {
-          responses = [singleArray];
-        } else {
-          throw error;
-        }
-      } catch {
-        throw new ErrorClass(`Failed to parse response: ${(error as Error).message}`);
-      }
-    }
+  private demultiplex(rpcs: RPCCall[], responses: RPCResponse[]): Array<RPCResponse | Error> {
+    const used = new Set<RPCResponse>();
     
-    const result: RPCResponse[] = [];
-    
-    for (const rpcData of responses) {
-      if (rpcData.length < 7) {
-        continue;
-      }
+    return rpcs.map((rpc, i) => {
+      const response = responses.find(r => !used.has(r) && r.index === i + 1 && r.id === rpc.id)
+        ?? responses.find(r => !used.has(r) && r.id === rpc.id);
       
-      const rpcType = rpcData[0];
-      if (rpcType !== 'wrb.fr') {
-        continue;
+      if (!response) {
+        return new ErrorClass(`No response frame for ${rpc.id} (index ${i + 1})`);
       }
       
-      const id = rpcData[1] as string;
-      const response: RPCResponse = {
-        id,
-        index: 0,
-        data: null,
-      };
-      
-      // Try position 2 first for data
-      let responseData: any = null;
-      
-      if (rpcData[2] !== null) {
-        if (typeof rpcData[2] === 'string') {
-          response.data = rpcData[2];
-          responseData = rpcData[2];
-        } else {
-          responseData = rpcData[2];
-        }
-      }
-      
-      // If position 2 is null/empty, try position 5
-      if (responseData === null && rpcData.length > 5 && rpcData[5] !== null) {
-        responseData = rpcData[5];
-      }
-      
-      // Convert responseData to final form
-      if (responseData !== null && response.data === null) {
-        response.data = responseData;
-      }
-      
-      // Parse index
-      if (rpcData[6] === 'generic') {
-        response.index = 0;
-      } else if (typeof rpcData[6] === 'string') {
-        response.index = parseInt(rpcData[6], 10) || 0;
-      }
-      
-      result.push(response);
-    }
-    
-    if (result.length === 0) {
-      throw new ErrorClass('No valid responses found in parsed data');
-    }
-    
-    return result;
+      used.add(response);
+      return isErrorResponse(response) ?? response;
+    });
+  }
+  
+  /**
+   * Decode batchexecute response
+   */
+  private decodeResponse(raw: string): RPCResponse[] {
+    return decodeBatchResponse(raw, this.config.debug);
   }
   
   /**
@@ -443,9 +512,12 @@ export class BatchExecuteClient {
   }
   
   /**
-   * Sleep helper
+   * Sleep helper (wakes up early with NotebookLMAbortError when the signal fires)
    */
-  private sleep(ms: number): Promise<void> {
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal) {
+      return sleep(ms, signal);
+    }
     return new Promise(resolve => setTimeout(resolve, ms));
   }
   
@@ -456,3 +528,112 @@ export class BatchExecuteClient {
     return { ...this.config };
   }
 }
+
+/**
+ * Decode a batchexecute response body into its RPC response frames
+ * Also used offline, e.g. to read recorded fixtures.
+ *
+ * @param raw - Response body, including the `)]}'` prefix
+ * @param debug - Log chunk parsing details
+ */
+export function decodeBatchResponse(raw: string, debug: boolean = false): RPCResponse[] {
+  // Remove the standard prefix (and the blank line that follows it)
+  raw = raw.trim().replace(/^\)\]\}'/, '').trimStart();
+  
+  if (!raw) {
+    throw new ErrorClass('Empty response after trimming prefix');
+  }
+  
+  // Check if response starts with a digit (chunked format)
+  if (/^\d/.test(raw)) {
+    return parseChunkedResponse(raw, debug);
+  }
+  
+  // Try to parse as regular JSON array
+  let responses: any[][];
+  try {
+    responses = JSON.parse(raw);
+  } catch (error) {
+    // Try parsing as numeric error code
+    const trimmed = raw.trim();
+    const code = parseInt(trimmed, 10);
+    
+    if (!isNaN(code) && trimmed.length <= 10) {
+      // Single numeric error code
+      return [{
+        index: 0,
+        id: 'numeric',
+        data: code,
+      }];
+    }
+    
+    // Try to parse as single array
+    try {
+      const singleArray = JSON.parse(raw);
+      if (Array.isArray(singleArray)) {
+        responses = [singleArray];
+      } else {
+        throw error;
+      }
+    } catch {
+      throw new ErrorClass(`Failed to parse response: ${(error as Error).message}`);
+    }
+  }
+  
+  const result: RPCResponse[] = [];
+  
+  for (const rpcData of responses) {
+    if (rpcData.length < 7) {
+      continue;
+    }
+    
+    const rpcType = rpcData[0];
+    if (rpcType !== 'wrb.fr') {
+      continue;
+    }
+    
+    const id = rpcData[1] as string;
+    const response: RPCResponse = {
+      id,
+      index: 0,
+      data: null,
+    };
+    
+    // Try position 2 first for data
+    let responseData: any = null;
+    
+    if (rpcData[2] !== null) {
+      if (typeof rpcData[2] === 'string') {
+        response.data = rpcData[2];
+        responseData = rpcData[2];
+      } else {
+        responseData = rpcData[2];
+      }
+    }
+    
+    // If position 2 is null/empty, try position 5
+    if (responseData === null && rpcData.length > 5 && rpcData[5] !== null) {
+      responseData = rpcData[5];
+    }
+    
+    // Convert responseData to final form
+    if (responseData !== null && response.data === null) {
+      response.data = responseData;
+    }
+    
+    // Parse index
+    if (rpcData[6] === 'generic') {
+      response.index = 0;
+    } else if (typeof rpcData[6] === 'string') {
+      response.index = parseInt(rpcData[6], 10) || 0;
+    }
+    
+    result.push(response);
+  }
+  
+  if (result.length === 0) {
+    throw new ErrorClass('No valid responses found in parsed data');
+  }
+  
+  return result;
+}
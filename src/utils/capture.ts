@@ -0,0 +1,418 @@
+/**
+ * Wire capture
+ * Records batchexecute, streaming chat, app page and download traffic as HAR or JSONL
+ * for protocol bug reports, with cookies and the `at` token redacted
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseBootstrapPage, renderBootstrapPage } from '../rpc/bootstrap.js';
+import type { Transport, TransportRequest, TransportRequestKind } from './transport.js';
+
+const REDACTED = '[REDACTED]';
+
+/** Request headers whose values are always dropped */
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'x-goog-api-key'];
+
+/** URL query parameters carrying credentials (`auth` is the SAPISIDHASH of download pre-auth) */
+const SECRET_PARAMS = ['at', 'auth', 'key'];
+
+/**
+ * Capture file format
+ * - `har`: HTTP Archive 1.2, opens in browser dev tools and HAR viewers
+ * - `jsonl`: One `CaptureEntry` per line
+ */
+export type CaptureFormat = 'har' | 'jsonl';
+
+/**
+ * Capture options
+ */
+export interface CaptureOptions {
+  /** Write the capture here on stop (default: keep it in memory only) */
+  path?: string;
+  /** File format (default: 'har' for a `.har` path, 'jsonl' otherwise) */
+  format?: CaptureFormat;
+  /** Characters of each request/response body to keep (default: 1000000) */
+  maxBodySize?: number;
+}
+
+/**
+ * One recorded request/response exchange
+ * Download bodies (audio, video, images, PDFs) are never stored - only their size.
+ */
+export interface CaptureEntry {
+  /** Transport request kind, or `download` for media downloads */
+  kind: TransportRequestKind | 'download';
+  /** RPC ids in the request (batchexecute only) */
+  rpcIds?: string[];
+  /** When the request was sent (ISO 8601) */
+  startedAt: string;
+  /** Time until the response body finished (or the request failed) (ms) */
+  durationMs?: number;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: string;
+    /** Body size in bytes (as far as it was read) */
+    bodySize: number;
+    /** Whether the body was cut at `maxBodySize` */
+    truncated?: boolean;
+  };
+  /** Network error or cancellation */
+  error?: string;
+}
+
+/**
+ * Handle for a download recorded outside the transport (raw HTTP requests, browser pages)
+ */
+export interface DownloadRecord {
+  /** Record the response status and headers */
+  response(status: number, statusText: string | undefined, headers: Headers | Record<string, string | string[] | undefined>): void;
+  /** Record the body size once it's been read */
+  finish(bodySize: number): void;
+  /** Record a failure */
+  fail(error: unknown): void;
+}
+
+/**
+ * A running (or stopped) capture
+ *
+ * Cookies, `set-cookie` values, the `at` form field, the SAPISIDHASH of download
+ * pre-authentication and the app page's `SNlM0e` token are redacted as entries are
+ * recorded, so a capture is safe to attach to a bug report. Cookie names are kept.
+ * The app page body is reduced to its frontend parameters.
+ *
+ * @example
+ * ```typescript
+ * sdk.startCapture({ path: 'notebooklm.har' });
+ * try {
+ *   await sdk.generation.chat(notebookId, 'What changed?');
+ * } finally {
+ *   const capture = await sdk.stopCapture();
+ *   console.log(`${capture.entries.length} requests written to notebooklm.har`);
+ * }
+ * ```
+ */
+export class WireCapture {
+  private recorded: CaptureEntry[] = [];
+  private maxBodySize: number;
+  private stopped = false;
+  /** Bodies still being read - stop() records what has arrived so far */
+  private unfinished = new Set<() => void>();
+
+  constructor(private options: CaptureOptions = {}) {
+    this.maxBodySize = Math.max(0, options.maxBodySize ?? 1_000_000);
+  }
+
+  /**
+   * Entries recorded so far, in request order
+   * Response bodies appear once they've been read to the end (or the capture stopped).
+   */
+  get entries(): CaptureEntry[] {
+    return [...this.recorded];
+  }
+
+  /**
+   * Whether the capture still records new requests
+   */
+  get active(): boolean {
+    return !this.stopped;
+  }
+
+  /**
+   * Send a transport request and record it
+   * The response body is recorded as the caller reads it, so streaming isn't delayed.
+   */
+  async record(request: TransportRequest, send: () => Promise<Response>): Promise<Response> {
+    if (this.stopped) {
+      return send();
+    }
+
+    const started = Date.now();
+    const entry: CaptureEntry = {
+      kind: request.kind,
+      rpcIds: request.rpcIds,
+      startedAt: new Date(started).toISOString(),
+      request: {
+        method: request.method,
+        url: redactUrl(request.url),
+        headers: redactHeaders(request.headers),
+        body: request.body === undefined ? undefined : this.clip(redactForm(request.body)).text,
+      },
+    };
+    this.recorded.push(entry);
+
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      entry.durationMs = Date.now() - started;
+      entry.error = describe(error);
+      throw error;
+    }
+
+    const recorded: NonNullable<CaptureEntry['response']> = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: redactHeaders(headerObject(response.headers)),
+      bodySize: 0,
+    };
+    entry.response = recorded;
+    if (!response.body) {
+      entry.durationMs = Date.now() - started;
+      return response;
+    }
+
+    const decoder = new TextDecoder();
+    let text = '';
+    const update = () => {
+      this.unfinished.delete(update);
+      const clipped = this.clip(request.kind === 'page' ? redactPage(text) : text);
+      recorded.body = clipped.text;
+      recorded.truncated = clipped.truncated || undefined;
+      entry.durationMs = Date.now() - started;
+    };
+    this.unfinished.add(update);
+    const copy = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        recorded.bodySize += chunk.byteLength;
+        if (text.length <= this.maxBodySize) {
+          text += decoder.decode(chunk, { stream: true });
+        }
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        text += decoder.decode();
+        update();
+      },
+    });
+
+    return new Response(response.body.pipeThrough(copy), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Start recording a download made outside the transport
+   */
+  download(method: string, url: string, headers: Record<string, string | string[] | undefined> = {}): DownloadRecord {
+    const started = Date.now();
+    const entry: CaptureEntry = {
+      kind: 'download',
+      startedAt: new Date(started).toISOString(),
+      request: { method, url: redactUrl(url), headers: redactHeaders(flattenHeaders(headers)) },
+    };
+    if (!this.stopped) {
+      this.recorded.push(entry);
+    }
+
+    return {
+      response: (status, statusText, responseHeaders) => {
+        const flat = responseHeaders instanceof Headers ? headerObject(responseHeaders) : flattenHeaders(responseHeaders);
+        entry.response = {
+          status,
+          statusText: statusText ?? '',
+          headers: redactHeaders(flat),
+          bodySize: Number(flat['content-length'] ?? 0) || 0,
+        };
+        entry.durationMs = Date.now() - started;
+      },
+      finish: (bodySize) => {
+        if (entry.response) {
+          entry.response.bodySize = bodySize;
+        }
+        entry.durationMs = Date.now() - started;
+      },
+      fail: (error) => {
+        entry.error = describe(error);
+        entry.durationMs = Date.now() - started;
+      },
+    };
+  }
+
+  /**
+   * Stop recording and write the file, if a path was given
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    [...this.unfinished].forEach(update => update());
+    if (!this.options.path) {
+      return;
+    }
+    const format = this.options.format ?? (this.options.path.endsWith('.har') ? 'har' : 'jsonl');
+    const content = format === 'har' ? JSON.stringify(this.toHAR(), null, 2) : this.toJSONL();
+    await fs.mkdir(path.dirname(path.resolve(this.options.path)), { recursive: true });
+    await fs.writeFile(this.options.path, content, 'utf-8');
+  }
+
+  /**
+   * Entries as JSON lines
+   */
+  toJSONL(): string {
+    return this.recorded.map(entry => JSON.stringify(entry)).join('\n') + (this.recorded.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Entries as an HTTP Archive (HAR 1.2) object
+   * `_kind`, `_rpcIds` and `_error` carry the fields HAR has no place for.
+   */
+  toHAR(): Record<string, any> {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'notebooklm-kit', version: '' },
+        entries: this.recorded.map(entry => {
+          const url = new URL(entry.request.url);
+          const requestMime = entry.request.headers['content-type'];
+          const responseMime = entry.response?.headers['content-type'] ?? '';
+          return {
+            startedDateTime: entry.startedAt,
+            time: entry.durationMs ?? 0,
+            request: {
+              method: entry.request.method,
+              url: entry.request.url,
+              httpVersion: 'HTTP/1.1',
+              headers: harHeaders(entry.request.headers),
+              queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+              cookies: [],
+              headersSize: -1,
+              bodySize: entry.request.body?.length ?? 0,
+              ...(entry.request.body !== undefined
+                ? { postData: { mimeType: requestMime ?? 'application/x-www-form-urlencoded', text: entry.request.body } }
+                : {}),
+            },
+            response: {
+              status: entry.response?.status ?? 0,
+              statusText: entry.response?.statusText ?? '',
+              httpVersion: 'HTTP/1.1',
+              headers: harHeaders(entry.response?.headers ?? {}),
+              cookies: [],
+              content: {
+                size: entry.response?.bodySize ?? 0,
+                mimeType: responseMime,
+                ...(entry.response?.body !== undefined ? { text: entry.response.body } : {}),
+              },
+              redirectURL: entry.response?.headers['location'] ?? '',
+              headersSize: -1,
+              bodySize: entry.response?.bodySize ?? -1,
+            },
+            cache: {},
+            timings: { send: 0, wait: entry.durationMs ?? 0, receive: 0 },
+            _kind: entry.kind,
+            ...(entry.rpcIds ? { _rpcIds: entry.rpcIds } : {}),
+            ...(entry.error ? { _error: entry.error } : {}),
+          };
+        }),
+      },
+    };
+  }
+
+  private clip(text: string): { text: string; truncated: boolean } {
+    return text.length > this.maxBodySize
+      ? { text: text.slice(0, this.maxBodySize), truncated: true }
+      : { text, truncated: false };
+  }
+}
+
+/**
+ * Transport that records every request into the active capture
+ * RPCClient wraps its transport in one, so captures can start and stop at any time.
+ */
+export class CaptureTransport implements Transport {
+  constructor(
+    private inner: Transport,
+    private capture: () => WireCapture | undefined
+  ) {}
+
+  send(request: TransportRequest): Promise<Response> {
+    const capture = this.capture();
+    return capture ? capture.record(request, () => this.inner.send(request)) : this.inner.send(request);
+  }
+}
+
+/**
+ * Redact credentials from a header object (cookie values, `set-cookie` values, auth headers)
+ * Header names are lower-cased.
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (key === 'cookie') {
+      result[key] = value.split(';').map(pair => {
+        const [cookieName] = pair.split('=');
+        return `${cookieName.trim()}=${REDACTED}`;
+      }).join('; ');
+    } else if (key === 'set-cookie') {
+      result[key] = value.split(/,(?=\s*[^;,=\s]+=)/).map(cookie => {
+        const [pair, ...attributes] = cookie.split(';');
+        return [`${pair.split('=')[0].trim()}=${REDACTED}`, ...attributes.map(a => a.trim())].join('; ');
+      }).join(', ');
+    } else if (SECRET_HEADERS.includes(key)) {
+      result[key] = REDACTED;
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const param of SECRET_PARAMS) {
+      if (parsed.searchParams.has(param)) {
+        parsed.searchParams.set(param, REDACTED);
+      }
+    }
+    if (parsed.password) {
+      parsed.password = REDACTED;
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function redactForm(body: string): string {
+  return body.replace(/(^|&)at=[^&]*/g, `$1at=${encodeURIComponent(REDACTED)}`);
+}
+
+function redactPage(html: string): string {
+  return renderBootstrapPage({ ...parseBootstrapPage(html), authToken: REDACTED });
+}
+
+function flattenHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
+
+function headerObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = result[name] === undefined ? value : `${result[name]}, ${value}`;
+  });
+  return result;
+}
+
+function harHeaders(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
@@ -4,6 +4,7 @@
  */
 
 import { NotebookLMParseError } from '../types/common.js';
+import { resolveLogger, type Logger } from './logger.js';
 
 /**
  * Chunked response parser
@@ -12,11 +13,17 @@ import { NotebookLMParseError } from '../types/common.js';
 export class ChunkedResponseParser {
   private rawChunks: string[] = [];
   private cleanedData: string = '';
+  private logger: Logger;
   
+  /**
+   * @param debug - Logger for parse diagnostics, or `true` to write them to stderr
+   */
   constructor(
     private raw: string,
-    private debug: boolean = false
-  ) {}
+    debug: boolean | Logger = false
+  ) {
+    this.logger = typeof debug === 'boolean' ? resolveLogger(undefined, debug) : debug;
+  }
   
   /**
    * Parse list of projects from response
@@ -668,16 +675,14 @@ export class ChunkedResponseParser {
   }
   
   private logDebug(message: string): void {
-    if (this.debug && typeof console !== 'undefined') {
-      console.log(`[ChunkedParser] ${message}`);
-    }
+    this.logger.debug(`[ChunkedParser] ${message}`);
   }
 }
 
 /**
  * Create a chunked response parser
  */
-export function createChunkedParser(raw: string, debug: boolean = false): ChunkedResponseParser {
+export function createChunkedParser(raw: string, debug: boolean | Logger = false): ChunkedResponseParser {
   return new ChunkedResponseParser(raw, debug);
 }
 
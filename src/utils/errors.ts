@@ -378,6 +378,32 @@ export function isErrorResponse(response: any): APIError | null {
   return null;
 }
 
+/**
+ * Check if an error means the server is rate limiting us (429 / RATE_LIMIT / RESOURCE_EXHAUSTED)
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof APIError)) {
+    return false;
+  }
+  const type = error.errorCode?.type;
+  return type === ErrorType.RATE_LIMIT || type === ErrorType.RESOURCE_EXHAUSTED || error.httpStatus === 429;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 /**
  * Add custom error code
  */
@@ -0,0 +1,1083 @@
+/**
+ * Fake NotebookLM server
+ * In-memory implementation of the batchexecute protocol for offline integration tests
+ *
+ * Speaks the same wire format as the real service:
+ * - Requests: form-encoded `f.req` envelopes (see BatchExecuteClient)
+ * - Responses: `)]}'` prefix followed by `<length>\n<json>` chunks containing `wrb.fr` frames
+ *
+ * Notebooks, sources, notes, artifacts, guidebooks and the account are kept in memory, so the
+ * NotebooksService, SourcesService, NotesService, ArtifactsService, GuidebooksService, AccountService and
+ * chat flows run end to end without a Google account. Unsupported RPC IDs return an "Unimplemented" (12) error frame.
+ */
+
+import { randomUUID } from 'node:crypto';
+import * as http from 'http';
+import { setTimeout as delay } from 'node:timers/promises';
+import type { AddressInfo } from 'net';
+import * as RPC from '../rpc/rpc-methods.js';
+import { renderBootstrapPage } from '../rpc/bootstrap.js';
+import type { Transport, TransportRequest } from './transport.js';
+import type { NotebookLMPlan } from './quota.js';
+
+/**
+ * Options for FakeNotebookLMServer
+ */
+export interface FakeNotebookLMServerOptions {
+  /** Time (ms) before newly created artifacts report READY (default: 0 - ready on next read) */
+  artifactProcessingMs?: number;
+
+  /** Build the chat answer for a prompt (default: echoes the prompt and source count) */
+  chatResponder?: (prompt: string, notebook: FakeNotebook) => string;
+
+  /** Plan reported for the signed-in account (default: 'standard') */
+  plan?: NotebookLMPlan;
+
+  /** Delay (ms) before each response is sent (default: 0) - for exercising timeouts and cancellation */
+  latencyMs?: number;
+
+  /** Frontend build label served on the app page (default: 'boq_labs-tailwind-frontend_fake_p0') */
+  buildLabel?: string;
+
+  /** Answer batchexecute requests sent with another build label (`bl`) with HTTP 400,
+   * like the real service after a frontend rollout (default: false)
+   */
+  rejectStaleBuilds?: boolean;
+}
+
+/**
+ * Source stored by the fake server
+ */
+export interface FakeSource {
+  sourceId: string;
+  title: string;
+  /** API type code (2 = text, 5 = URL, 9 = YouTube, 1 = Google Drive) */
+  typeCode: number;
+  url?: string;
+  content?: string;
+  createdAt: number;
+  /** Reported as stale by the freshness check until refreshed (set for seeding) */
+  stale?: boolean;
+  /** Last refresh, reported as the processed timestamp */
+  refreshedAt?: number;
+}
+
+/**
+ * Note stored by the fake server
+ */
+export interface FakeNote {
+  noteId: string;
+  title: string;
+  content: string;
+  noteType: number;
+  tags: string[];
+  updatedAt: number;
+}
+
+/**
+ * Artifact stored by the fake server
+ */
+export interface FakeArtifact {
+  artifactId: string;
+  title: string;
+  /** API type number (1 = audio, 2 = report, 3 = video, 4 = quiz/flashcards, 7 = infographic, 8 = slides) */
+  apiType: number;
+  sourceIds: string[];
+  /** Raw creation options (kept so quiz/flashcard customization round-trips) */
+  options: any[];
+  createdAt: number;
+  /** Artifact-level share link (audio overviews shared on their own) */
+  share?: { isPublic: boolean; shareId: string };
+}
+
+/**
+ * Notebook stored by the fake server
+ */
+export interface FakeNotebook {
+  projectId: string;
+  title: string;
+  emoji: string;
+  sources: FakeSource[];
+  notes: FakeNote[];
+  artifacts: FakeArtifact[];
+  createdAt: number;
+}
+
+/**
+ * Guidebook section stored by the fake server
+ */
+export interface FakeGuidebookSection {
+  sectionId: string;
+  title: string;
+  content: string;
+  sourceIds: string[];
+}
+
+/**
+ * Guidebook stored by the fake server
+ */
+export interface FakeGuidebook {
+  guidebookId: string;
+  title: string;
+  content: string;
+  /** 1 = draft, 2 = published, 3 = archived */
+  status: number;
+  sections: FakeGuidebookSection[];
+  tags: string[];
+  sharedWith: string[];
+  publishedAt?: number;
+}
+
+/**
+ * Account returned by the fake server
+ */
+export interface FakeAccount {
+  email: string;
+  displayName: string;
+  /** 1 = standard, 2 = plus, 3 = pro, 4 = ultra */
+  tier: number;
+  language: string;
+}
+
+/**
+ * Error raised by an RPC handler - encoded as an error frame with the given code
+ * (codes map to the dictionary in errors.ts, e.g. 5 = Not found, 12 = Unimplemented)
+ */
+class FakeRPCError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+type RPCHandler = (args: any[]) => any;
+
+const PLAN_TIERS: Record<NotebookLMPlan, number> = {
+  standard: 1,
+  plus: 2,
+  pro: 3,
+  ultra: 4,
+};
+
+const DEFAULT_ARTIFACT_TITLES: Record<number, string> = {
+  1: 'Audio Overview',
+  2: 'Report',
+  3: 'Video Overview',
+  4: 'Quiz',
+  7: 'Infographic',
+  8: 'Slide Deck',
+};
+
+/**
+ * In-memory fake of the NotebookLM batchexecute backend
+ *
+ * Use `createTransport()` to run fully in-process, or `listen()` to serve over HTTP
+ * on localhost and point the client at it with `baseUrl`.
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeNotebookLMServer();
+ * const baseUrl = await server.listen();
+ *
+ * const sdk = new NotebookLMClient({
+ *   authToken: 'fake-token',
+ *   cookies: 'SID=fake',
+ *   baseUrl,
+ *   autoRefresh: false,
+ * });
+ * await sdk.connect();
+ *
+ * const notebook = await sdk.notebooks.create({ title: 'Test' });
+ * await sdk.sources.add.text(notebook.projectId, { title: 'Notes', content: 'Hello' });
+ *
+ * sdk.dispose();
+ * await server.close();
+ * ```
+ */
+export class FakeNotebookLMServer {
+  /** All notebooks, keyed by project ID (exposed for seeding and assertions) */
+  readonly notebooks = new Map<string, FakeNotebook>();
+
+  /** All guidebooks, keyed by guidebook ID (exposed for seeding and assertions) */
+  readonly guidebooks = new Map<string, FakeGuidebook>();
+
+  /** Signed-in account (exposed for seeding and assertions) */
+  readonly account: FakeAccount;
+
+  /** Every RPC call received, in order (exposed for assertions) */
+  readonly calls: Array<{ rpcId: string; args: any[] }> = [];
+
+  /** Current frontend build label (change it to simulate a rollout) */
+  buildLabel: string;
+
+  /** Session id (`FdrFJe`) served on the app page */
+  readonly sessionId = String(-Math.floor(Math.random() * 1e18));
+
+  private options: FakeNotebookLMServerOptions;
+  private handlers: Record<string, RPCHandler>;
+  private server?: http.Server;
+
+  constructor(options: FakeNotebookLMServerOptions = {}) {
+    this.options = options;
+    this.buildLabel = options.buildLabel ?? 'boq_labs-tailwind-frontend_fake_p0';
+    this.account = {
+      email: 'user@example.com',
+      displayName: 'Test User',
+      tier: PLAN_TIERS[options.plan ?? 'standard'],
+      language: 'en',
+    };
+    this.handlers = {
+      // Notebooks
+      [RPC.RPC_LIST_MY_NOTEBOOKS]: () => this.listNotebooks(),
+      [RPC.RPC_CREATE_PROJECT]: (args) => this.createNotebook(args),
+      [RPC.RPC_GET_PROJECT]: (args) => [this.encodeNotebook(this.requireNotebook(args[0]))],
+      [RPC.RPC_UPDATE_PROJECT]: (args) => this.updateNotebook(args),
+      [RPC.RPC_DELETE_PROJECTS]: (args) => this.deleteNotebooks(args),
+      [RPC.RPC_GET_SHARING_DETAILS]: (args) => this.sharingDetails(args),
+      [RPC.RPC_SHARE_PROJECT]: () => [],
+
+      // Sources
+      [RPC.RPC_ADD_SOURCES]: (args) => this.addSources(args),
+      [RPC.RPC_DELETE_SOURCES]: (args) => this.deleteSources(args),
+      [RPC.RPC_MUTATE_SOURCE]: (args) => this.renameSource(args),
+      [RPC.RPC_CHECK_SOURCE_FRESHNESS]: (args) => [[!this.requireSource(args[0]).stale, Date.now()]],
+      [RPC.RPC_REFRESH_SOURCE]: (args) => this.refreshSource(args),
+
+      // Notes
+      [RPC.RPC_GET_NOTES]: (args) => this.listNotes(args),
+      [RPC.RPC_CREATE_NOTE]: (args) => this.createNote(args),
+      [RPC.RPC_MUTATE_NOTE]: (args) => this.updateNote(args),
+      [RPC.RPC_DELETE_NOTES]: (args) => this.deleteNotes(args),
+
+      // Artifacts
+      [RPC.RPC_LIST_ARTIFACTS]: (args) => this.listArtifacts(args),
+      [RPC.RPC_CREATE_VIDEO_OVERVIEW]: (args) => this.createArtifact(args[1], args[2]?.[2], args[2]?.[3], args[2] || []),
+      [RPC.RPC_CREATE_ARTIFACT]: (args) => this.createArtifact(args[0], args[1], args[4], [], args[2]),
+      [RPC.RPC_GET_ARTIFACT]: (args) => [this.encodeArtifact(this.requireArtifact(args[0]).artifact)],
+      [RPC.RPC_RENAME_ARTIFACT]: (args) => this.renameArtifact(args),
+      [RPC.RPC_UPDATE_ARTIFACT]: (args) => this.updateArtifact(args),
+      [RPC.RPC_DELETE_ARTIFACT]: (args) => this.deleteArtifact(args[0]),
+      [RPC.RPC_DELETE_AUDIO_OVERVIEW]: (args) => this.deleteArtifact(args[1]),
+      [RPC.RPC_SHARE_AUDIO]: (args) => this.shareAudio(args),
+
+      // Guide, outline and drafting
+      [RPC.RPC_GENERATE_NOTEBOOK_GUIDE]: (args) => this.notebookGuide(args),
+      [RPC.RPC_GENERATE_OUTLINE]: (args) => [this.outline(this.requireNotebook(args[0]))],
+      [RPC.RPC_GENERATE_SECTION]: (args) => [this.draftText(this.requireNotebook(args[0]), args[1])],
+      [RPC.RPC_START_DRAFT]: (args) => [`Draft based on ${this.requireNotebook(args[0]).sources.length} source(s).`],
+      [RPC.RPC_START_SECTION]: (args) => [this.draftText(this.requireNotebook(args[0]), args[1])],
+      [RPC.RPC_GENERATE_REPORT_SUGGESTIONS]: (args) => this.reportSuggestions(args),
+
+      // Guidebooks
+      [RPC.RPC_LIST_RECENTLY_VIEWED_GUIDEBOOKS]: () => [[...this.guidebooks.values()].map(g => this.encodeGuidebook(g))],
+      [RPC.RPC_GET_GUIDEBOOK]: (args) => [this.encodeGuidebook(this.requireGuidebook(args[0]))],
+      [RPC.RPC_GET_GUIDEBOOK_DETAILS]: (args) => this.getGuidebookDetails(args),
+      [RPC.RPC_PUBLISH_GUIDEBOOK]: (args) => this.publishGuidebook(args),
+      [RPC.RPC_SHARE_GUIDEBOOK]: (args) => this.shareGuidebook(args),
+      [RPC.RPC_DELETE_GUIDEBOOK]: (args) => this.deleteGuidebook(args),
+      [RPC.RPC_GUIDEBOOK_GENERATE_ANSWER]: (args) => this.answerGuidebook(args),
+
+      // Account
+      [RPC.RPC_GET_OR_CREATE_ACCOUNT]: () => [this.encodeAccount()],
+      [RPC.RPC_MUTATE_ACCOUNT]: (args) => this.updateAccount(args),
+    };
+  }
+
+  // ========================================================================
+  // Setup
+  // ========================================================================
+
+  /**
+   * Add a notebook directly (for seeding test state)
+   */
+  addNotebook(title: string, emoji: string = '📄'): FakeNotebook {
+    const notebook: FakeNotebook = {
+      projectId: randomUUID(),
+      title,
+      emoji,
+      sources: [],
+      notes: [],
+      artifacts: [],
+      createdAt: Date.now(),
+    };
+    this.notebooks.set(notebook.projectId, notebook);
+    return notebook;
+  }
+
+  /**
+   * Add a draft guidebook directly (for seeding test state)
+   */
+  addGuidebook(title: string, sections: Array<{ title: string; content?: string; sourceIds?: string[] }> = []): FakeGuidebook {
+    const guidebook: FakeGuidebook = {
+      guidebookId: randomUUID(),
+      title,
+      content: '',
+      status: 1,
+      sections: sections.map(section => ({
+        sectionId: randomUUID(),
+        title: section.title,
+        content: section.content ?? '',
+        sourceIds: section.sourceIds ?? [],
+      })),
+      tags: [],
+      sharedWith: [],
+    };
+    this.guidebooks.set(guidebook.guidebookId, guidebook);
+    return guidebook;
+  }
+
+  /**
+   * Remove all state and recorded calls
+   */
+  reset(): void {
+    this.notebooks.clear();
+    this.guidebooks.clear();
+    this.calls.length = 0;
+  }
+
+  /**
+   * Transport that dispatches requests to this server in-process (no sockets)
+   */
+  createTransport(): Transport {
+    return {
+      send: (request: TransportRequest) => this.handle(request),
+    };
+  }
+
+  /**
+   * Start an HTTP server on localhost
+   *
+   * @param port - Port to listen on (default: 0 - random free port)
+   * @returns Base URL to pass as `baseUrl` in the client config
+   */
+  async listen(port: number = 0): Promise<string> {
+    if (this.server) {
+      return this.baseUrl;
+    }
+
+    this.server = http.createServer((req, res) => {
+      const bodyParts: Buffer[] = [];
+      req.on('data', (part: Buffer) => bodyParts.push(part));
+      req.on('end', async () => {
+        try {
+          const requestUrl = `http://127.0.0.1${req.url || '/'}`;
+          const response = await this.handle({
+            kind: req.method === 'GET' ? 'page' : requestUrl.includes('GenerateFreeFormStreamed') ? 'stream' : 'batchexecute',
+            url: requestUrl,
+            method: req.method === 'GET' ? 'GET' : 'POST',
+            headers: req.headers as Record<string, string>,
+            body: Buffer.concat(bodyParts).toString('utf-8'),
+          });
+          const headers: Record<string, string> = {};
+          response.headers.forEach((value, name) => {
+            headers[name] = value;
+          });
+          res.writeHead(response.status, headers);
+          res.end(await response.text());
+        } catch (error) {
+          res.writeHead(500, { 'content-type': 'text/plain' });
+          res.end((error as Error).message);
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    return this.baseUrl;
+  }
+
+  /**
+   * Base URL of the running HTTP server
+   */
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Fake server is not listening. Call listen() first.');
+    }
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Stop the HTTP server
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  // ========================================================================
+  // Request handling
+  // ========================================================================
+
+  /**
+   * Handle an app page, batchexecute or streaming request and build the wire response
+   */
+  async handle(request: TransportRequest): Promise<Response> {
+    if (this.options.latencyMs) {
+      // Rejects with an AbortError when the request's signal fires, like fetch
+      await delay(this.options.latencyMs, undefined, { signal: request.signal });
+    }
+
+    if (request.kind === 'page') {
+      const page = renderBootstrapPage({
+        buildLabel: this.buildLabel,
+        sessionId: this.sessionId,
+        authToken: 'fake-at-token',
+      });
+      return new Response(page, { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' } });
+    }
+
+    if (this.options.rejectStaleBuilds && request.kind === 'batchexecute'
+        && new URL(request.url).searchParams.get('bl') !== this.buildLabel) {
+      return new Response('Bad Request', { status: 400, statusText: 'Bad Request' });
+    }
+
+    const form = new URLSearchParams(request.body || '');
+    const freq = form.get('f.req');
+
+    if (!freq) {
+      return new Response('Missing f.req', { status: 400, statusText: 'Bad Request' });
+    }
+
+    let envelope: any;
+    try {
+      envelope = JSON.parse(freq);
+    } catch {
+      return new Response('Malformed f.req', { status: 400, statusText: 'Bad Request' });
+    }
+
+    if (request.kind === 'stream' || request.url.includes('GenerateFreeFormStreamed')) {
+      return this.handleStream(envelope);
+    }
+
+    const rpcs: any[] = Array.isArray(envelope?.[0]) ? envelope[0] : [];
+    const frames = rpcs.map((rpc, index) => {
+      const [rpcId, argsJSON, , requestIndex] = rpc;
+      // Frames echo the envelope index so clients can demultiplex batched calls
+      const frameIndex = typeof requestIndex === 'string' ? requestIndex : rpcs.length > 1 ? String(index + 1) : 'generic';
+      let args: any[] = [];
+      try {
+        args = JSON.parse(argsJSON) ?? [];
+      } catch {
+        return ['wrb.fr', rpcId, null, null, null, [3], frameIndex];
+      }
+      this.calls.push({ rpcId, args });
+
+      const handler = this.handlers[rpcId];
+      if (!handler) {
+        return ['wrb.fr', rpcId, null, null, null, [12], frameIndex];
+      }
+
+      try {
+        const result = handler(args);
+        return ['wrb.fr', rpcId, JSON.stringify(result), null, null, null, frameIndex];
+      } catch (error) {
+        const code = error instanceof FakeRPCError ? error.code : 13;
+        return ['wrb.fr', rpcId, null, null, null, [code], frameIndex];
+      }
+    });
+
+    const body = ")]}'\n\n"
+      + this.encodeChunk(frames)
+      + this.encodeChunk([['di', 42], ['af.httprm', 42, '-1', 1]]);
+
+    return new Response(body, {
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+    });
+  }
+
+  /**
+   * Streamed chat: answer is sent as accumulating frames, like the real service
+   */
+  private handleStream(envelope: any): Response {
+    let inner: any[] = [];
+    try {
+      inner = JSON.parse(envelope?.[1] ?? '[]');
+    } catch {
+      return new Response('Malformed streaming request', { status: 400, statusText: 'Bad Request' });
+    }
+
+    const prompt = typeof inner[1] === 'string' ? inner[1] : '';
+    const notebookId = inner[4];
+    const notebook = this.notebooks.get(notebookId);
+
+    if (!notebook) {
+      const frame = [['wrb.fr', null, null, null, null, [5]]];
+      return new Response(")]}'\n\n" + this.encodeChunk(frame), { status: 200 });
+    }
+
+    this.calls.push({ rpcId: RPC.RPC_GENERATE_FREE_FORM_STREAMED, args: inner });
+
+    const answer = this.options.chatResponder
+      ? this.options.chatResponder(prompt, notebook)
+      : `You asked: "${prompt}". This notebook has ${notebook.sources.length} source(s).`;
+
+    const conversationId = randomUUID();
+    const messageId = randomUUID();
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    // Each frame carries the full text accumulated so far
+    const midpoint = Math.ceil(answer.length / 2);
+    const partials = answer.length > 1 ? [answer.substring(0, midpoint), answer] : [answer];
+
+    let body = ")]}'\n\n";
+    for (const text of partials) {
+      const data = [[text, null, [conversationId, messageId, timestamp], null, null]];
+      body += this.encodeChunk([['wrb.fr', null, JSON.stringify(data)]]);
+    }
+
+    return new Response(body, {
+      status: 200,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+    });
+  }
+
+  private encodeChunk(payload: any): string {
+    const json = JSON.stringify(payload);
+    return `${json.length}\n${json}\n`;
+  }
+
+  // ========================================================================
+  // Notebooks
+  // ========================================================================
+
+  private listNotebooks(): any[] {
+    const notebooks = [...this.notebooks.values()]
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(nb => this.encodeNotebook(nb));
+    return [notebooks];
+  }
+
+  private createNotebook(args: any[]): any[] {
+    const notebook = this.addNotebook(typeof args[0] === 'string' ? args[0] : '');
+    return this.encodeNotebook(notebook);
+  }
+
+  private updateNotebook(args: any[]): any[] {
+    const notebook = this.requireNotebook(args[0]);
+    const update = args[1]?.[0];
+
+    // [null, null, null, [null, title]] or [null, null, null, [null, null, emoji]]
+    const fields = Array.isArray(update) ? update[3] : null;
+    if (Array.isArray(fields)) {
+      if (typeof fields[1] === 'string') {
+        notebook.title = fields[1];
+      }
+      if (typeof fields[2] === 'string') {
+        notebook.emoji = fields[2];
+      }
+    }
+
+    return [this.encodeNotebook(notebook)];
+  }
+
+  private deleteNotebooks(args: any[]): any[] {
+    const ids: any[] = Array.isArray(args[0]) ? args[0] : [];
+    for (const id of ids) {
+      this.requireNotebook(id);
+      this.notebooks.delete(id);
+    }
+    return [];
+  }
+
+  // ========================================================================
+  // Sources
+  // ========================================================================
+
+  private addSources(args: any[]): any[] {
+    const entries: any[] = Array.isArray(args[0]) ? args[0] : [];
+    const notebook = this.requireNotebook(args[1]);
+
+    const added = entries.map(entry => {
+      const source = this.decodeSourceEntry(entry);
+      notebook.sources.push(source);
+      return this.encodeSource(source);
+    });
+
+    return [added];
+  }
+
+  private decodeSourceEntry(entry: any[]): FakeSource {
+    const source: FakeSource = {
+      sourceId: randomUUID(),
+      title: 'Untitled',
+      typeCode: 2,
+      createdAt: Date.now(),
+    };
+
+    if (Array.isArray(entry[1])) {
+      // Text: [null, [title, content], null, 2, ...]
+      source.title = entry[1][0] || 'Pasted text';
+      source.content = entry[1][1];
+      source.typeCode = 2;
+    } else if (Array.isArray(entry[2])) {
+      // URL: [null, null, [url], ...]
+      source.url = entry[2][0];
+      source.title = entry[2][0];
+      source.typeCode = 5;
+    } else if (Array.isArray(entry[7])) {
+      // YouTube: [null, null, null, null, null, null, null, [url], ...]
+      source.url = entry[7][0];
+      source.title = entry[7][0];
+      source.typeCode = 9;
+    } else if (Array.isArray(entry[0])) {
+      // Google Drive: [[fileId, mimeType?, 1, title?], ...]
+      source.title = entry[0][3] || entry[0][0];
+      source.typeCode = 1;
+    }
+
+    return source;
+  }
+
+  private deleteSources(args: any[]): any[] {
+    // [[["sourceId"]], [2]]
+    const ids = (Array.isArray(args[0]) ? args[0] : []).map((item: any) => item?.[0]);
+    for (const notebook of this.notebooks.values()) {
+      notebook.sources = notebook.sources.filter(s => !ids.includes(s.sourceId));
+    }
+    return [];
+  }
+
+  private renameSource(args: any[]): any[] {
+    // [null, ["sourceId"], [[["title"]]]]
+    const sourceId = args[1]?.[0];
+    const title = args[2]?.[0]?.[0]?.[0];
+
+    for (const notebook of this.notebooks.values()) {
+      const source = notebook.sources.find(s => s.sourceId === sourceId);
+      if (source) {
+        if (typeof title === 'string') {
+          source.title = title;
+        }
+        return [this.encodeSource(source)];
+      }
+    }
+
+    throw new FakeRPCError(5, `Source ${sourceId} not found`);
+  }
+
+  private refreshSource(args: any[]): any[] {
+    // [null, [sourceId], [2]]
+    const source = this.requireSource(args[1]?.[0]);
+    source.stale = false;
+    source.refreshedAt = Date.now();
+    return [];
+  }
+
+  // ========================================================================
+  // Notes
+  // ========================================================================
+
+  private listNotes(args: any[]): any[] {
+    const notebook = this.requireNotebook(args[0]);
+    const notes = notebook.notes.map(note => [note.noteId, this.encodeNote(note, notebook)]);
+    return [notes, this.timestamp(Date.now())];
+  }
+
+  private createNote(args: any[]): any[] {
+    // [notebookId, content, [noteType], null, title]
+    const notebook = this.requireNotebook(args[0]);
+    const note: FakeNote = {
+      noteId: randomUUID(),
+      content: typeof args[1] === 'string' ? args[1] : '',
+      noteType: Array.isArray(args[2]) && typeof args[2][0] === 'number' ? args[2][0] : 1,
+      title: typeof args[4] === 'string' ? args[4] : '',
+      tags: [],
+      updatedAt: Date.now(),
+    };
+    notebook.notes.push(note);
+    return [this.encodeNote(note, notebook)];
+  }
+
+  private updateNote(args: any[]): any[] {
+    // [notebookId, noteId, [[[content, title, tags, 0]]]]
+    const notebook = this.requireNotebook(args[0]);
+    const note = notebook.notes.find(n => n.noteId === args[1]);
+    if (!note) {
+      throw new FakeRPCError(5, `Note ${args[1]} not found`);
+    }
+
+    const [content, title, tags] = args[2]?.[0]?.[0] || [];
+    note.content = typeof content === 'string' ? content : note.content;
+    note.title = typeof title === 'string' ? title : note.title;
+    note.tags = Array.isArray(tags) ? tags : note.tags;
+    note.updatedAt = Date.now();
+
+    return [this.encodeNote(note, notebook)];
+  }
+
+  private deleteNotes(args: any[]): any[] {
+    // [notebookId, null, [noteIds]]
+    const notebook = this.requireNotebook(args[0]);
+    const ids: any[] = Array.isArray(args[2]) ? args[2] : [];
+    notebook.notes = notebook.notes.filter(n => !ids.includes(n.noteId));
+    return [];
+  }
+
+  // ========================================================================
+  // Artifacts
+  // ========================================================================
+
+  private listArtifacts(args: any[]): any[] {
+    const notebook = this.requireNotebook(args[1]);
+    return [notebook.artifacts.map(artifact => this.encodeArtifact(artifact))];
+  }
+
+  private createArtifact(notebookId: string, apiType: any, sources: any, options: any[], title?: string): any[] {
+    const notebook = this.requireNotebook(notebookId);
+    const type = typeof apiType === 'number' ? apiType : 2;
+
+    // R7cb6c sends [[[id]], [[id]]]; xpWGLf sends a flat ID list
+    const sourceIds: string[] = Array.isArray(sources)
+      ? sources.map((s: any) => (Array.isArray(s) ? s[0]?.[0] ?? s[0] : s)).filter((id: any) => typeof id === 'string')
+      : notebook.sources.map(s => s.sourceId);
+
+    const artifact: FakeArtifact = {
+      artifactId: randomUUID(),
+      // Reports carry their title in the customization block: [null, [title, description, ...]]
+      title: title || options[7]?.[1]?.[0] || DEFAULT_ARTIFACT_TITLES[type] || 'Artifact',
+      apiType: type,
+      sourceIds,
+      options,
+      createdAt: Date.now(),
+    };
+    notebook.artifacts.push(artifact);
+
+    // Creation always reports CREATING; subsequent reads report READY once processed
+    const encoded = this.encodeArtifact(artifact);
+    encoded[4] = 1;
+    return [encoded];
+  }
+
+  private renameArtifact(args: any[]): any[] {
+    // [[artifactId, newTitle], [["title"]]]
+    const [artifactId, title] = args[0] || [];
+    const { artifact } = this.requireArtifact(artifactId);
+    if (typeof title === 'string') {
+      artifact.title = title;
+    }
+    return [this.encodeArtifact(artifact)];
+  }
+
+  private updateArtifact(args: any[]): any[] {
+    // [[2], notebookId, [artifactId, title, type, sources, ...customization], [[paths...]], [1]?]
+    const notebook = this.requireNotebook(args[1]);
+    const data: any[] = Array.isArray(args[2]) ? args[2] : [];
+    const artifact = notebook.artifacts.find(a => a.artifactId === data[0]);
+    if (!artifact) {
+      throw new FakeRPCError(5, `Artifact ${data[0]} not found`);
+    }
+
+    const mask: string[] = Array.isArray(args[3]?.[0]) ? args[3][0] : [];
+    if (mask.includes('source_ids') && Array.isArray(data[3])) {
+      artifact.sourceIds = data[3].map((s: any) => s?.[0]?.[0]).filter((id: any) => typeof id === 'string');
+    }
+    if (mask.includes('instructions') || mask.includes('customization')) {
+      artifact.options = data;
+    }
+
+    // Regeneration restarts processing: CREATING until artifactProcessingMs has passed again
+    const regenerate = args[4]?.[0] === 1;
+    if (regenerate) {
+      artifact.createdAt = Date.now();
+    }
+    const encoded = this.encodeArtifact(artifact);
+    if (regenerate) {
+      encoded[4] = 1;
+    }
+    return [encoded, regenerate];
+  }
+
+  private deleteArtifact(artifactId: string): any[] {
+    const { notebook, artifact } = this.requireArtifact(artifactId);
+    notebook.artifacts = notebook.artifacts.filter(a => a !== artifact);
+    return [];
+  }
+
+  private shareAudio(args: any[]): any[] {
+    // [[shareOption], notebookId, audioId] - 1 = public, 0 = private
+    const notebook = this.requireNotebook(args[1]);
+    const artifact = notebook.artifacts.find(a => a.artifactId === args[2] && a.apiType === 1);
+    if (!artifact) {
+      throw new FakeRPCError(5, `Audio overview ${args[2]} not found`);
+    }
+    const isPublic = args[0]?.[0] === 1;
+    artifact.share = { isPublic, shareId: artifact.share?.shareId ?? randomUUID() };
+    return isPublic ? [this.encodeShareLink(notebook, artifact)] : [];
+  }
+
+  private sharingDetails(args: any[]): any[] {
+    // [notebookId, [2], artifactId?]
+    const notebook = this.requireNotebook(args[0]);
+    if (typeof args[2] !== 'string') {
+      return [[], [false], 1000];
+    }
+    const artifact = notebook.artifacts.find(a => a.artifactId === args[2]);
+    if (!artifact) {
+      throw new FakeRPCError(5, `Artifact ${args[2]} not found`);
+    }
+    const isPublic = artifact.share?.isPublic === true;
+    return [[], [isPublic], 1000, isPublic ? this.encodeShareLink(notebook, artifact) : null];
+  }
+
+  // ========================================================================
+  // Guide, outline and drafting
+  // ========================================================================
+
+  private notebookGuide(args: any[]): any[] {
+    // [[[summary], [[[question, prompt], ...]]]]
+    const notebook = this.requireNotebook(args[0]);
+    const summary = `"${notebook.title}" contains ${notebook.sources.length} source(s).`;
+    const questions = notebook.sources.map(source => [
+      `What is "${source.title}" about?`,
+      `Summarize the source "${source.title}".`,
+    ]);
+    return [[[summary], [questions]]];
+  }
+
+  /**
+   * Markdown outline with one section per source
+   */
+  private outline(notebook: FakeNotebook): string {
+    const lines = [`# ${notebook.title}`, '## Introduction'];
+    for (const source of notebook.sources) {
+      lines.push(`## ${source.title}`, '- Key points', '- Details');
+    }
+    lines.push('## Conclusion');
+    return lines.join('\n');
+  }
+
+  private reportSuggestions(args: any[]): any[] {
+    // [[2], notebookId, [[[sourceId]]...]] -> [[[title, description, null, null, prompt], ...]]
+    const notebook = this.requireNotebook(args[1]);
+    const selected = Array.isArray(args[2]) && args[2].length > 0
+      ? notebook.sources.filter(s => args[2].some((id: any) => id?.[0]?.[0] === s.sourceId))
+      : notebook.sources;
+    const topic = selected.map(s => s.title).join(', ') || notebook.title;
+    return [[
+      ['Briefing Doc', `Key insights from ${topic}`, null, null, `Create a briefing document covering ${topic}.`],
+      ['Study Guide', `Review material for ${topic}`, null, null, `Create a study guide for ${topic}.`],
+    ]];
+  }
+
+  private draftText(notebook: FakeNotebook, title: any): string {
+    const heading = typeof title === 'string' ? title : 'Section';
+    return `${heading}: drafted from ${notebook.sources.length} source(s) in "${notebook.title}".`;
+  }
+
+  // ========================================================================
+  // Guidebooks
+  // ========================================================================
+
+  private getGuidebookDetails(args: any[]): any[] {
+    const guidebook = this.requireGuidebook(args[0]);
+    const sections = guidebook.sections.map(section => [
+      section.sectionId,
+      section.title,
+      section.content,
+      section.sourceIds,
+    ]);
+    return [this.encodeGuidebook(guidebook), sections, null];
+  }
+
+  private publishGuidebook(args: any[]): any[] {
+    // [guidebookId, [isPublic, tags]]
+    const guidebook = this.requireGuidebook(args[0]);
+    const [isPublic, tags] = args[1] || [];
+    guidebook.status = 2;
+    guidebook.publishedAt = Date.now();
+    guidebook.tags = Array.isArray(tags) ? tags : [];
+    const publicUrl = isPublic === false ? null : `https://notebooklm.google.com/guidebook/${guidebook.guidebookId}`;
+    return [this.encodeGuidebook(guidebook), publicUrl];
+  }
+
+  private shareGuidebook(args: any[]): any[] {
+    // [guidebookId, [isPublic, emails, allowComments, allowDownloads]]
+    const guidebook = this.requireGuidebook(args[0]);
+    const emails = args[1]?.[1];
+    if (Array.isArray(emails)) {
+      guidebook.sharedWith.push(...emails.filter((email: any) => typeof email === 'string'));
+    }
+    const shareId = randomUUID();
+    return [`https://notebooklm.google.com/guidebook/${guidebook.guidebookId}?share=${shareId}`, shareId];
+  }
+
+  private deleteGuidebook(args: any[]): any[] {
+    const guidebook = this.requireGuidebook(args[0]);
+    this.guidebooks.delete(guidebook.guidebookId);
+    return [];
+  }
+
+  private answerGuidebook(args: any[]): any[] {
+    // [guidebookId, question, [maxLength, includeSources]]
+    const guidebook = this.requireGuidebook(args[0]);
+    const question = typeof args[1] === 'string' ? args[1] : '';
+    const includeSources = args[2]?.[1] !== false;
+    const sourceIds = [...new Set(guidebook.sections.flatMap(section => section.sourceIds))];
+    const answer = `You asked: "${question}". This guidebook has ${guidebook.sections.length} section(s).`;
+    return [answer, includeSources ? sourceIds.map(id => [id, null]) : [], 1];
+  }
+
+  // ========================================================================
+  // Account
+  // ========================================================================
+
+  private updateAccount(args: any[]): any[] {
+    // [[null, [[null, null, null, null, [language]]]]]
+    const language = args[0]?.[1]?.[0]?.[4]?.[0];
+    if (typeof language === 'string') {
+      this.account.language = language;
+    }
+    return [this.encodeAccount()];
+  }
+
+  // ========================================================================
+  // Encoding (mirrors the response structures parsed by the services)
+  // ========================================================================
+
+  /**
+   * [title, [sources...] | null, projectId, emoji, null, [null, null, null, null, null, [createdSec, ns]]]
+   */
+  private encodeNotebook(notebook: FakeNotebook): any[] {
+    return [
+      notebook.title,
+      notebook.sources.length > 0 ? notebook.sources.map(s => this.encodeSource(s)) : null,
+      notebook.projectId,
+      notebook.emoji,
+      null,
+      [null, null, null, null, null, this.timestamp(notebook.createdAt)],
+    ];
+  }
+
+  /**
+   * [[sourceId], title, [null, size, [sec, ns], [processedId, [sec, ns]], typeCode, null, [url]?], [null, 2]]
+   */
+  private encodeSource(source: FakeSource): any[] {
+    const created = this.timestamp(source.createdAt);
+    const processed = source.refreshedAt ? this.timestamp(source.refreshedAt) : created;
+    return [
+      [source.sourceId],
+      source.title,
+      [
+        null,
+        source.content ? source.content.length : 0,
+        created,
+        [randomUUID(), processed],
+        source.typeCode,
+        null,
+        source.url ? [source.url] : null,
+      ],
+      [null, 2],
+    ];
+  }
+
+  /**
+   * [noteId, content, [noteType, projectId, [sec, ns]], null, title]
+   */
+  private encodeNote(note: FakeNote, notebook: FakeNotebook): any[] {
+    return [
+      note.noteId,
+      note.content,
+      [note.noteType, notebook.projectId, this.timestamp(note.updatedAt)],
+      null,
+      note.title,
+    ];
+  }
+
+  /**
+   * [artifactId, title, apiType, [[[sourceId]]...], state, ...creation options from index 5]
+   */
+  private encodeArtifact(artifact: FakeArtifact): any[] {
+    const processingMs = this.options.artifactProcessingMs ?? 0;
+    const ready = Date.now() - artifact.createdAt >= processingMs;
+
+    return [
+      artifact.artifactId,
+      artifact.title,
+      artifact.apiType,
+      artifact.sourceIds.map(id => [[id]]),
+      ready ? 3 : 1,
+      ...artifact.options.slice(5),
+    ];
+  }
+
+  /**
+   * [guidebookId, title, content, status, [sec, ns]?]
+   */
+  private encodeGuidebook(guidebook: FakeGuidebook): any[] {
+    return [
+      guidebook.guidebookId,
+      guidebook.title,
+      guidebook.content,
+      guidebook.status,
+      guidebook.publishedAt ? this.timestamp(guidebook.publishedAt) : null,
+    ];
+  }
+
+  /**
+   * [email, [[null, null, null, null, [language]]], tier, displayName]
+   */
+  private encodeAccount(): any[] {
+    return [
+      this.account.email,
+      [[null, null, null, null, [this.account.language]]],
+      this.account.tier,
+      this.account.displayName,
+    ];
+  }
+
+  /**
+   * [shareUrl, shareId]
+   */
+  private encodeShareLink(notebook: FakeNotebook, artifact: FakeArtifact): any[] {
+    const shareId = artifact.share!.shareId;
+    return [`https://notebooklm.google.com/notebook/${notebook.projectId}/audio/${shareId}`, shareId];
+  }
+
+  private timestamp(ms: number): [number, number] {
+    return [Math.floor(ms / 1000), (ms % 1000) * 1000000];
+  }
+
+  private requireNotebook(notebookId: any): FakeNotebook {
+    const notebook = typeof notebookId === 'string' ? this.notebooks.get(notebookId) : undefined;
+    if (!notebook) {
+      throw new FakeRPCError(5, `Notebook ${notebookId} not found`);
+    }
+    return notebook;
+  }
+
+  private requireArtifact(artifactId: any): { notebook: FakeNotebook; artifact: FakeArtifact } {
+    for (const notebook of this.notebooks.values()) {
+      const artifact = notebook.artifacts.find(a => a.artifactId === artifactId);
+      if (artifact) {
+        return { notebook, artifact };
+      }
+    }
+    throw new FakeRPCError(5, `Artifact ${artifactId} not found`);
+  }
+
+  private requireGuidebook(guidebookId: any): FakeGuidebook {
+    const guidebook = typeof guidebookId === 'string' ? this.guidebooks.get(guidebookId) : undefined;
+    if (!guidebook) {
+      throw new FakeRPCError(5, `Guidebook ${guidebookId} not found`);
+    }
+    return guidebook;
+  }
+
+  private requireSource(sourceId: any): FakeSource {
+    for (const notebook of this.notebooks.values()) {
+      const source = notebook.sources.find(s => s.sourceId === sourceId);
+      if (source) {
+        return source;
+      }
+    }
+    throw new FakeRPCError(5, `Source ${sourceId} not found`);
+  }
+}
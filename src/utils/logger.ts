@@ -0,0 +1,132 @@
+/**
+ * Logging
+ * Every message the SDK emits goes through a Logger. Nothing is written unless a logger is
+ * configured (or `debug: true`, which logs to stderr) - the SDK never writes to stdout.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a message (rpcId, notebookId, attempt, error, ...)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface
+ * Compatible with most logging libraries through a thin adapter.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const log = pino();
+ * const sdk = new NotebookLMClient({
+ *   logger: {
+ *     debug: (msg, fields) => log.debug(fields, msg),
+ *     info: (msg, fields) => log.info(fields, msg),
+ *     warn: (msg, fields) => log.warn(fields, msg),
+ *     error: (msg, fields) => log.error(fields, msg),
+ *   },
+ * });
+ * ```
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Logger that discards everything (the default)
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Options for the built-in console logger
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level to write (default: 'info') */
+  level?: LogLevel;
+  /** 'text' for human-readable lines, 'json' for one JSON object per line (default: 'text') */
+  format?: 'text' | 'json';
+  /** Where to write (default: process.stderr) */
+  stream?: { write(line: string): unknown };
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Create a logger that writes to stderr (or the given stream)
+ *
+ * @example
+ * ```typescript
+ * const sdk = new NotebookLMClient({
+ *   logger: createConsoleLogger({ level: 'warn', format: 'json' }),
+ * });
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const threshold = LEVELS[options.level ?? 'info'];
+  const format = options.format ?? 'text';
+
+  const write = (level: LogLevel, message: string, fields?: LogFields): void => {
+    if (LEVELS[level] < threshold) {
+      return;
+    }
+    const stream = options.stream ?? process.stderr;
+    const context = fields ? serializeFields(fields) : {};
+
+    if (format === 'json') {
+      stream.write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...context }) + '\n');
+      return;
+    }
+
+    const suffix = Object.entries(context)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join(' ');
+    stream.write(`[notebooklm] ${level.toUpperCase()} ${message}${suffix ? ' ' + suffix : ''}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
+
+/**
+ * Pick the logger for a client: the configured one, a debug console logger when
+ * `debug` is on, or the no-op logger
+ */
+export function resolveLogger(logger?: Logger, debug?: boolean): Logger {
+  if (logger) {
+    return logger;
+  }
+  return debug ? createConsoleLogger({ level: 'debug' }) : noopLogger;
+}
+
+/**
+ * Errors don't survive JSON.stringify - keep their name and message
+ */
+function serializeFields(fields: LogFields): LogFields {
+  const result: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+  return result;
+}
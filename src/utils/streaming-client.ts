@@ -24,7 +24,16 @@
  * [["wrb.fr", null, "<escaped_json>"]]
  */
 
-import type { RPCClientConfig } from '../rpc/rpc-client.js';
+import type { RPCClient, RPCClientConfig, RequestParams } from '../rpc/rpc-client.js';
+import { FetchTransport, type Transport } from './transport.js';
+import { currentSignal, linkSignals, throwIfAborted, toAbortError } from './abort.js';
+import { MiddlewareChain } from '../rpc/middleware.js';
+import * as RPC from '../rpc/rpc-methods.js';
+import { NotebookLMAbortError, NotebookLMError, type RPCCall } from '../types/common.js';
+import { endSpan, noopTracer } from './tracing.js';
+import { noopLogger, resolveLogger, type Logger } from './logger.js';
+import { currentPriority } from '../rpc/rate-limiter.js';
+import { parseRetryAfter } from './errors.js';
 
 export interface StreamChunk {
   /** Chunk number (1-based) */
@@ -64,6 +73,8 @@ export interface StreamingOptions {
   onChunk?: (chunk: StreamChunk) => void;
   /** Whether to include thinking process */
   showThinking?: boolean;
+  /** Cancels the request and the stream (throws NotebookLMAbortError) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -92,27 +103,44 @@ interface ParsedChunk {
  */
 export class StreamingClient {
   private config: RPCClientConfig;
+  /** Source of the live session; without one the config's credentials are used as given */
+  private rpc?: RPCClient;
   private requestCounter: number = 3114440;
   private buffer: string = '';
   private chunkCount: number = 0;
+  private transport: Transport;
+  private middleware: MiddlewareChain;
+  private logger: Logger;
+  /** Skip building debug messages when nobody is listening */
+  private verbose: boolean;
 
-  constructor(config: RPCClientConfig) {
+  /**
+   * @param rpc - Client whose cookies, auth token and bootstrapped parameters each request
+   *   uses (read per request, so refreshes and re-bootstraps apply). Chats then also go
+   *   through its stale-session retry (see RPCClient.withSession()).
+   */
+  constructor(config: RPCClientConfig, middleware: MiddlewareChain = new MiddlewareChain(), rpc?: RPCClient) {
     this.config = config;
+    this.rpc = rpc;
+    this.middleware = middleware;
+    this.logger = resolveLogger(config.logger, config.debug);
+    this.verbose = this.logger !== noopLogger;
+    this.transport = config.transport ?? new FetchTransport();
     this.requestCounter = Math.floor(Math.random() * 9000) + 3114440;
   }
 
   /**
-   * Log message (disabled by default)
+   * Log a debug message
    */
-  private log(_message: string): void {
-    // Debug logging disabled
+  private log(message: string): void {
+    this.logger.debug(cleanMessage(message), { rpcId: RPC.RPC_GENERATE_FREE_FORM_STREAMED });
   }
 
   /**
-   * Log error (disabled by default)
+   * Log an error
    */
-  private logError(_message: string): void {
-    // Debug logging disabled
+  private logError(message: string): void {
+    this.logger.error(cleanMessage(message), { rpcId: RPC.RPC_GENERATE_FREE_FORM_STREAMED });
   }
 
   /**
@@ -132,6 +160,15 @@ export class StreamingClient {
    * @param conversationId - Conversation UUID
    * @param conversationHistory - Message history (always null)
    * @param options - Streaming options
+   *
+   * The configured `timeout` bounds the whole stream. Aborting `options.signal` (or the
+   * enclosing service call's signal) cancels the request and the response body; so does
+   * stopping iteration early. Each request is traced as a `notebooklm.stream_chat` span.
+   * With a rate limiter configured, the stream holds a slot in the `interactive` lane
+   * (unless a `withPriority` scope picked another) until it ends.
+   *
+   * Middleware sees the chat as an `RPC_GENERATE_FREE_FORM_STREAMED` call whose args are
+   * the inner request; `onResponse` runs per chunk (return `null` to drop one).
    */
   async *streamChat(
     notebookId: string,
@@ -141,32 +178,137 @@ export class StreamingClient {
     conversationHistory: any[] | null,
     options?: StreamingOptions
   ): AsyncGenerator<StreamChunk, void, unknown> {
-    const url = this.buildStreamingURL(notebookId);
-    const headers = this.buildHeaders();
-    const body = this.buildRequestBody(prompt, sourceIds, conversationId, conversationHistory, notebookId);
-
-    if (this.config.debug) {
-      const decodedBody = this.decodeRequestBody(body);
-      this.log('\n🌊 Streaming Chat Request:');
-      this.log('📝 URL: ' + url);
-      this.log('📝 Body length: ' + body.length + ' bytes');
-      this.log('\n📦 Request Body (decoded):');
-      this.log(JSON.stringify(decodedBody, null, 2));
+    let call: RPCCall = {
+      id: RPC.RPC_GENERATE_FREE_FORM_STREAMED,
+      args: this.buildChatArgs(prompt, sourceIds, conversationId, conversationHistory, notebookId),
+      notebookId,
+      priority: currentPriority() ?? 'interactive',
+    };
+
+    if (this.middleware.size === 0) {
+      yield* this.stream(call, options);
+      return;
     }
 
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body,
-      });
+    const request = await this.middleware.request(call);
+    call = request.call;
+    let replay: StreamChunk[] | undefined = request.response?.response;
+
+    for (let attempt = 1; ; attempt++) {
+      let yielded = false;
+      try {
+        const chunks = replay ? this.replay(call, replay, options) : this.stream(call, options);
+        for await (const chunk of chunks) {
+          yielded = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        // Chunks already handed to the caller can't be taken back - only retry before the first one
+        if (yielded || replay || error instanceof NotebookLMAbortError) {
+          throw error;
+        }
+
+        const outcome = await this.middleware.error(call, error, attempt);
+        if (outcome && 'response' in outcome) {
+          replay = outcome.response;
+        } else if (outcome?.retry) {
+          call = outcome.call ?? call;
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Streaming request failed: ${response.status} ${response.statusText}\n${errorText}`);
+  /**
+   * Yield chunks supplied by middleware instead of the network
+   */
+  private async *replay(
+    call: RPCCall,
+    chunks: StreamChunk[],
+    options?: StreamingOptions
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    for (const chunk of chunks) {
+      const out: StreamChunk | null = await this.middleware.response(call, chunk);
+      if (out) {
+        options?.onChunk?.(out);
+        yield out;
       }
+    }
+  }
+
+  /**
+   * Send a chat call and yield its chunks (after onResponse middleware)
+   */
+  private async *stream(
+    call: RPCCall,
+    options?: StreamingOptions
+  ): AsyncGenerator<StreamChunk, void, unknown> {
+    // The slot is held until the answer has been read (or abandoned)
+    const signal = options?.signal ?? currentSignal();
+    const release = await this.config.rateLimiter?.acquire([call.id], call.priority ?? 'interactive', signal);
+    const linked = linkSignals([signal], this.config.timeout);
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    let finished = false;
+    const cancelReader = () => {
+      reader?.cancel().catch(() => {});
+    };
+    linked.signal?.addEventListener('abort', cancelReader, { once: true });
+
+    const span = (this.config.tracer ?? noopTracer).startSpan('notebooklm.stream_chat', {
+      attributes: {
+        'rpc.method': call.id,
+        'notebooklm.notebook_id': call.notebookId,
+      },
+    });
+    const startedAt = Date.now();
+    let totalBytesReceived = 0;
+    let spanError: unknown;
+
+    try {
+      throwIfAborted(linked.signal);
+
+      // Built per attempt: a retry after re-bootstrapping must carry the new parameters
+      const send = async () => {
+        const params = this.params();
+        const url = this.buildStreamingURL(call.notebookId ?? '', params);
+        const body = this.buildRequestBody(call.args, params);
+
+        if (this.verbose) {
+          const decodedBody = this.decodeRequestBody(body);
+          this.log('\n🌊 Streaming Chat Request:');
+          this.log('📝 URL: ' + url);
+          this.log('📝 Body length: ' + body.length + ' bytes');
+          this.log('\n📦 Request Body (decoded):');
+          this.log(JSON.stringify(decodedBody, null, 2));
+        }
+        span.setAttribute('http.request.body.size', body.length);
+
+        const response = await this.transport.send({
+          kind: 'stream',
+          url,
+          method: 'POST',
+          headers: this.buildHeaders(params),
+          body,
+          signal: linked.signal,
+        });
+
+        span.setAttribute('http.response.status_code', response.status);
+
+        if (!response.ok) {
+          if (response.status === 429) {
+            this.config.rateLimiter?.throttle(parseRetryAfter(response.headers.get('retry-after')));
+          }
+          const errorText = await response.text();
+          throw new NotebookLMError(`Streaming request failed: ${response.status} ${response.statusText}\n${errorText}`, response.status);
+        }
+        return response;
+      };
+
+      const response = this.rpc ? await this.rpc.withSession(send, linked.signal) : await send();
 
-      const reader = response.body?.getReader();
+      reader = response.body?.getReader();
       if (!reader) {
         throw new Error('Response body is not readable');
       }
@@ -174,10 +316,9 @@ export class StreamingClient {
       const decoder = new TextDecoder();
       this.reset();
 
-      let totalBytesReceived = 0;
       let chunkIndex = 0;
 
-      if (this.config.debug) {
+      if (this.verbose) {
         this.log('\n📥 Starting to receive response chunks...');
       }
 
@@ -185,8 +326,13 @@ export class StreamingClient {
       while (true) {
         const { done, value } = await reader.read();
 
+        // Transports that ignore the signal still stop here
+        throwIfAborted(linked.signal);
+
         if (done) {
-          if (this.config.debug && this.buffer.length > 0) {
+          finished = true;
+
+          if (this.verbose && this.buffer.length > 0) {
             this.log(`\n📥 Stream ended, buffer has ${this.buffer.length} bytes remaining`);
           }
 
@@ -196,7 +342,7 @@ export class StreamingClient {
             if (remainingDecoded) {
               totalBytesReceived += remainingDecoded.length;
               this.buffer += remainingDecoded;
-              if (this.config.debug) {
+              if (this.verbose) {
                 this.log(`📥 Decoded ${remainingDecoded.length} remaining bytes from decoder`);
               }
             }
@@ -209,7 +355,7 @@ export class StreamingClient {
           let drainIterations = 0;
           const MAX_DRAIN_ITERATIONS = 100;
 
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`\n🔄 Starting aggressive buffer drain (buffer size: ${this.buffer.length} bytes)`);
           }
 
@@ -221,25 +367,28 @@ export class StreamingClient {
               break;
             }
 
-            if (this.config.debug) {
+            if (this.verbose) {
               this.log(`🔄 Drain iteration ${drainIterations + 1}: extracted ${chunks.length} chunk(s)`);
             }
 
             for (const parsed of chunks) {
               this.chunkCount++;
+              if (this.chunkCount === 1) {
+                span.setAttribute('notebooklm.stream.time_to_first_chunk_ms', Date.now() - startedAt);
+              }
               const streamChunk = this.createStreamChunk(parsed);
 
-              if (options?.onChunk) {
-                options.onChunk(streamChunk);
+              const out: StreamChunk | null = await this.middleware.response(call, streamChunk);
+              if (out) {
+                options?.onChunk?.(out);
+                yield out;
               }
-
-              yield streamChunk;
             }
 
             drainIterations++;
           }
 
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`\n✅ Buffer drain complete after ${drainIterations} iterations`);
             this.log(`   Final buffer size: ${this.buffer.length} bytes`);
             if (this.buffer.length > 0) {
@@ -256,7 +405,7 @@ export class StreamingClient {
           totalBytesReceived += value.length;
           this.buffer += newData;
 
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`\n📥 Received chunk #${++chunkIndex}: ${value.length} bytes (total: ${totalBytesReceived} bytes)`);
           }
 
@@ -264,31 +413,49 @@ export class StreamingClient {
           const chunks = this.extractCompleteFrames();
           for (const parsed of chunks) {
             this.chunkCount++;
+            if (this.chunkCount === 1) {
+              span.setAttribute('notebooklm.stream.time_to_first_chunk_ms', Date.now() - startedAt);
+            }
             const streamChunk = this.createStreamChunk(parsed);
 
-            if (this.config.debug) {
+            if (this.verbose) {
               this.log(`\n📦 Parsed Chunk #${this.chunkCount}:`);
               this.log(`   Text Length: ${parsed.text?.length || 0}`);
               this.log(`   Citations: [${parsed.citations?.join(', ') || 'none'}]`);
             }
 
-            if (options?.onChunk) {
-              options.onChunk(streamChunk);
+            const out: StreamChunk | null = await this.middleware.response(call, streamChunk);
+            if (out) {
+              options?.onChunk?.(out);
+              yield out;
             }
-
-            yield streamChunk;
           }
         }
       }
 
-      if (this.config.debug) {
+      if (this.verbose) {
         this.log(`\n✅ Stream complete: ${this.chunkCount} chunks received, ${totalBytesReceived} total bytes`);
       }
     } catch (error) {
-      if (this.config.debug) {
+      if (this.verbose) {
         this.logError(`\n❌ Streaming Error: ${error}`);
       }
-      throw error;
+      spanError = linked.signal?.aborted ? toAbortError(linked.signal) : error;
+      throw spanError;
+    } finally {
+      span.setAttributes({
+        'notebooklm.stream.chunk_count': this.chunkCount,
+        'notebooklm.stream.completed': finished,
+        'http.response.body.size': totalBytesReceived,
+      });
+      endSpan(span, spanError);
+      linked.signal?.removeEventListener('abort', cancelReader);
+      linked.dispose();
+      release?.();
+      // Failed or abandoned by the consumer - stop downloading the answer
+      if (!finished) {
+        cancelReader();
+      }
     }
   }
 
@@ -327,7 +494,7 @@ export class StreamingClient {
 
         if (nextFrameMatch && nextFrameMatch.index !== undefined && nextFrameMatch.index > 0) {
           // Skip invalid content before next frame
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`⚠️  Skipping ${nextFrameMatch.index} bytes of invalid content`);
           }
           this.buffer = this.buffer.substring(nextFrameMatch.index);
@@ -345,7 +512,7 @@ export class StreamingClient {
       // Check if we have the complete frame
       if (this.buffer.length < requiredLength) {
         // Incomplete frame - wait for more data
-        if (this.config.debug) {
+        if (this.verbose) {
           this.log(`⏳ Incomplete frame: need ${requiredLength} bytes, have ${this.buffer.length} bytes`);
         }
         break;
@@ -359,18 +526,18 @@ export class StreamingClient {
         const parsed = this.parseFrame(byteCount, frameText);
         if (parsed) {
           frames.push(parsed);
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`✅ Parsed frame: ${parsed.text?.length || 0} chars`);
           }
         } else {
           // Incomplete frame (incremental update) - skip it
-          if (this.config.debug) {
+          if (this.verbose) {
             this.log(`⏭️  Skipping incomplete frame (${byteCount} bytes)`);
           }
         }
       } catch (error) {
         // Parsing error - log and continue
-        if (this.config.debug) {
+        if (this.verbose) {
           this.logError(`❌ Error parsing frame: ${error}`);
         }
       }
@@ -549,7 +716,7 @@ export class StreamingClient {
         return null;
       }
 
-      if (this.config.debug) {
+      if (this.verbose) {
         this.logError(`Error parsing frame: ${error}`);
       }
       throw error;
@@ -579,27 +746,37 @@ export class StreamingClient {
     };
   }
 
+  /**
+   * Current credentials and frontend parameters
+   */
+  private params(): RequestParams {
+    return this.rpc?.getRequestParams() ?? {
+      authToken: this.config.authToken,
+      cookies: this.config.cookies,
+      urlParams: { ...this.config.urlParams },
+      session: this.config.session,
+    };
+  }
+
   /**
    * Build streaming URL
    */
-  private buildStreamingURL(notebookId: string): string {
+  private buildStreamingURL(notebookId: string, params: RequestParams): string {
     this.requestCounter++;
 
-    const batchClient = (this.config as any).batchClient;
     // Default fSid value (fallback if not provided via config)
     // This is a public constant used by Google's streaming API
-    let fSid = '-7958112141384765164';
-
-    if (batchClient?.config?.urlParams?.['f.sid']) {
-      fSid = batchClient.config.urlParams['f.sid'];
-    } else if (this.config.urlParams?.['f.sid']) {
-      fSid = this.config.urlParams['f.sid'];
-    }
+    const fSid = params.urlParams['f.sid'] ?? '-7958112141384765164';
 
     const sourcePath = `/notebook/${notebookId}`;
 
-    const params = new URLSearchParams({
-      bl: 'boq_labs-tailwind-frontend_20260101.17_p0',
+    // Explicit config wins, then the build label found by bootstrap
+    const buildLabel = this.config.urlParams?.['bl']
+      ?? params.session?.buildLabel
+      ?? 'boq_labs-tailwind-frontend_20260101.17_p0';
+
+    const query = new URLSearchParams({
+      bl: buildLabel,
       'f.sid': fSid,
       hl: 'en',
       authuser: this.config.authUser || '0',
@@ -609,13 +786,15 @@ export class StreamingClient {
       'source-path': sourcePath,
     });
 
-    return `https://notebooklm.google.com/_/LabsTailwindUi/data/google.internal.labs.tailwind.orchestration.v1.LabsTailwindOrchestrationService/GenerateFreeFormStreamed?${params.toString()}`;
+    const origin = this.config.baseUrl?.replace(/\/+$/, '') || 'https://notebooklm.google.com';
+
+    return `${origin}/_/LabsTailwindUi/data/google.internal.labs.tailwind.orchestration.v1.LabsTailwindOrchestrationService/GenerateFreeFormStreamed?${query.toString()}`;
   }
 
   /**
    * Build request headers
    */
-  private buildHeaders(): Record<string, string> {
+  private buildHeaders(params: RequestParams): Record<string, string> {
     return {
       'accept': '*/*',
       'accept-language': 'en-US,en;q=0.9',
@@ -625,24 +804,24 @@ export class StreamingClient {
       'sec-fetch-dest': 'empty',
       'sec-fetch-mode': 'cors',
       'sec-fetch-site': 'same-origin',
-      'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+      'user-agent': this.config.network?.userAgent ?? 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
       'x-goog-ext-353267353-jspb': '[null,null,null,282611]',
       'x-same-domain': '1',
-      'cookie': this.config.cookies,
+      'cookie': params.cookies,
       ...this.config.headers,
     };
   }
 
   /**
-   * Build request body
+   * Build the inner chat request (the call args seen by middleware)
    */
-  private buildRequestBody(
+  private buildChatArgs(
     prompt: string,
     sourceIds: string[],
     conversationId: string,
-    conversationHistory: any[] | null,
+    _conversationHistory: any[] | null,
     notebookId: string
-  ): string {
+  ): any[] {
     const contextItems: any[] = [];
 
     if (sourceIds && sourceIds.length > 0) {
@@ -653,19 +832,24 @@ export class StreamingClient {
       contextItems.push([[conversationId]]);
     }
 
-    const innerRequest = [
+    return [
       contextItems,
       prompt,
       null,
       [2, null, [1]],
       notebookId,
     ];
+  }
 
+  /**
+   * Build request body
+   */
+  private buildRequestBody(innerRequest: any[], params: RequestParams): string {
     const fReq = [null, JSON.stringify(innerRequest)];
 
     const formData = new URLSearchParams();
     formData.append('f.req', JSON.stringify(fReq));
-    formData.append('at', this.config.authToken);
+    formData.append('at', params.authToken);
 
     return formData.toString();
   }
@@ -701,4 +885,11 @@ export class StreamingClient {
       return { error: 'Failed to decode', raw: body.substring(0, 500) };
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Drop the leading blank lines and emoji markers of console-style messages
+ */
+function cleanMessage(message: string): string {
+  return message.replace(/^[\s\p{Extended_Pictographic}\uFE0F]+/u, '').trimEnd();
+}
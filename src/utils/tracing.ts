@@ -0,0 +1,112 @@
+/**
+ * Tracing
+ * Minimal OpenTelemetry-shaped tracer interface - pass `trace.getTracer('notebooklm-kit')`
+ * from @opentelemetry/api (or any object with the same shape) as `tracer` in the client config.
+ * Nothing is recorded by default.
+ */
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Span status codes (same values as OpenTelemetry's SpanStatusCode)
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export interface SpanStatus {
+  code: number;
+  message?: string;
+}
+
+/**
+ * Span emitted by the SDK
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setAttributes(attributes: SpanAttributes): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  setStatus(status: SpanStatus): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * Creates spans
+ *
+ * Spans emitted by the SDK:
+ * - `notebooklm.rpc` - one per `RPCClient.call` (`rpc.method`, `notebooklm.notebook_id`)
+ * - `notebooklm.batchexecute` - one per HTTP attempt (`notebooklm.rpc_ids`, `notebooklm.attempt`,
+ *   `http.response.status_code`, `http.request.body.size`, `http.response.body.size`)
+ * - `notebooklm.stream_chat` - one per streamed chat (`notebooklm.stream.time_to_first_chunk_ms`,
+ *   `notebooklm.stream.chunk_count`)
+ * - `notebooklm.download` - artifact downloads (`notebooklm.download.kind`, `notebooklm.artifact_id`,
+ *   `notebooklm.download.size`, `notebooklm.download.redirects`)
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const sdk = new NotebookLMClient({ tracer: trace.getTracer('notebooklm-kit') });
+ * ```
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span;
+}
+
+const noopSpan: Span = {
+  setAttribute: () => noopSpan,
+  setAttributes: () => noopSpan,
+  addEvent: () => noopSpan,
+  setStatus: () => noopSpan,
+  recordException: () => noopSpan,
+  end: () => {},
+};
+
+/**
+ * Tracer that records nothing (the default)
+ */
+export const noopTracer: Tracer = {
+  startSpan: () => noopSpan,
+};
+
+/**
+ * Set the span's status from the outcome and end it
+ */
+export function endSpan(span: Span, error?: unknown): void {
+  if (error === undefined) {
+    span.setStatus({ code: SpanStatusCode.OK });
+  } else {
+    const exception = error instanceof Error ? error : String(error);
+    span.recordException(exception);
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: exception instanceof Error ? exception.message : exception,
+    });
+  }
+  span.end();
+}
+
+/**
+ * Run `fn` inside a span that ends (with OK or ERROR status) when it settles
+ */
+export async function withSpan<T>(
+  tracer: Tracer,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = tracer.startSpan(name, { attributes });
+  try {
+    const result = await fn(span);
+    endSpan(span);
+    return result;
+  } catch (error) {
+    endSpan(span, error ?? new Error('Unknown error'));
+    throw error;
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * HTTP transport layer for NotebookLM requests
+ *
+ * Every outgoing batchexecute and streaming chat request goes through a `Transport`.
+ * The default `FetchTransport` calls global `fetch`; `RecordReplayTransport` captures
+ * real responses into fixture files and serves them back offline (for CI and tests).
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NotebookLMError } from '../types/common.js';
+import { parseBootstrapPage, renderBootstrapPage } from '../rpc/bootstrap.js';
+import { networkFetch, type Network } from './network.js';
+
+/** Statuses whose responses can't have a body (`new Response()` throws when given one) */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Kind of request being sent
+ * - `batchexecute`: Regular RPC call(s) to the batchexecute endpoint
+ * - `stream`: Streaming chat request to GenerateFreeFormStreamed
+ * - `page`: GET of the app page, read for the current frontend parameters (bootstrap)
+ */
+export type TransportRequestKind = 'batchexecute' | 'stream' | 'page';
+
+/**
+ * Request handed to a transport
+ */
+export interface TransportRequest {
+  /** Kind of request */
+  kind: TransportRequestKind;
+
+  /** Fully-built request URL (including query parameters) */
+  url: string;
+
+  /** HTTP method */
+  method: 'GET' | 'POST';
+
+  /** Request headers (includes the Cookie header) */
+  headers: Record<string, string>;
+
+  /** Form-encoded request body */
+  body?: string;
+
+  /** RPC IDs in this request (batchexecute only) */
+  rpcIds?: string[];
+
+  /** Aborts the request (caller cancellation or the configured timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Pluggable HTTP transport
+ *
+ * Implementations must return a standard `Response`. Streaming requests read
+ * `response.body` incrementally, so the body must be a readable stream.
+ *
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   async send(request) {
+ *     console.log(request.kind, request.rpcIds);
+ *     return fetch(request.url, {
+ *       method: request.method, headers: request.headers, body: request.body, signal: request.signal,
+ *     });
+ *   },
+ * };
+ *
+ * const sdk = new NotebookLMClient({ transport });
+ * ```
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<Response>;
+}
+
+/**
+ * Default transport - sends requests with global `fetch`
+ * With network settings, requests go through the configured proxy and trust the extra CAs.
+ */
+export class FetchTransport implements Transport {
+  constructor(private network?: Network) {}
+
+  async send(request: TransportRequest): Promise<Response> {
+    return networkFetch(this.network, request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+  }
+}
+
+// ========================================================================
+// Record / replay
+// ========================================================================
+
+/**
+ * Record/replay mode
+ * - `record`: Forward to the upstream transport and write responses to fixtures
+ * - `replay`: Serve responses from fixtures only (never touches the network)
+ * - `auto`: Replay when a fixture exists, otherwise record it
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'auto';
+
+/**
+ * Options for RecordReplayTransport
+ */
+export interface RecordReplayOptions {
+  /** Directory where fixture files are read from / written to */
+  fixturesDir: string;
+
+  /** Mode (default: 'replay') */
+  mode?: RecordReplayMode;
+
+  /** Upstream transport used when recording (default: FetchTransport) */
+  upstream?: Transport;
+
+  /**
+   * Custom fixture key. Requests with the same key share a fixture file.
+   * Default: hash of request kind, RPC IDs, `f.req` payload and `source-path`
+   * (ignores `_reqid`, `at` and cookies, which change between runs).
+   */
+  key?: (request: TransportRequest) => string;
+}
+
+/**
+ * Recorded response
+ */
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Body split into the chunks it arrived in (streaming requests keep chunk boundaries) */
+  chunks: string[];
+}
+
+/**
+ * Fixture file contents
+ */
+export interface TransportFixture {
+  key: string;
+  kind: TransportRequestKind;
+  rpcIds?: string[];
+  request: {
+    url: string;
+    method: string;
+    /** `f.req` payload (the `at` token is never stored) */
+    freq?: string;
+  };
+  /** Responses in the order they were recorded (identical requests replay in sequence) */
+  responses: RecordedResponse[];
+}
+
+/**
+ * Transport that records real responses into fixture files and replays them offline
+ *
+ * Fixtures are JSON files named `<rpcIds|stream|page>-<hash>.json`. Cookies and the `at`
+ * token are never written; app page fixtures keep only the build label and session id. When the same request is made several times, responses are
+ * replayed in recorded order and the last one is repeated once exhausted.
+ *
+ * @example
+ * ```typescript
+ * // Record once against the real service
+ * const sdk = new NotebookLMClient({
+ *   transport: new RecordReplayTransport({ fixturesDir: './fixtures', mode: 'record' }),
+ * });
+ *
+ * // Replay in CI (no network, dummy credentials)
+ * const sdk = new NotebookLMClient({
+ *   authToken: 'test', cookies: 'SID=test',
+ *   transport: new RecordReplayTransport({ fixturesDir: './fixtures', mode: 'replay' }),
+ * });
+ * ```
+ */
+export class RecordReplayTransport implements Transport {
+  private fixturesDir: string;
+  private mode: RecordReplayMode;
+  private upstream: Transport;
+  private keyFn?: (request: TransportRequest) => string;
+
+  /** Fixtures loaded or recorded during this session */
+  private fixtures = new Map<string, TransportFixture>();
+
+  /** Replay position per fixture key */
+  private replayCursor = new Map<string, number>();
+
+  constructor(options: RecordReplayOptions) {
+    this.fixturesDir = options.fixturesDir;
+    this.mode = options.mode ?? 'replay';
+    this.upstream = options.upstream ?? new FetchTransport();
+    this.keyFn = options.key;
+  }
+
+  async send(request: TransportRequest): Promise<Response> {
+    const key = this.keyFor(request);
+
+    if (this.mode === 'record') {
+      return this.record(key, request);
+    }
+
+    const fixture = await this.loadFixture(key, request);
+    if (fixture && fixture.responses.length > 0) {
+      return this.replay(fixture);
+    }
+
+    if (this.mode === 'auto') {
+      return this.record(key, request);
+    }
+
+    throw new NotebookLMError(
+      `No recorded fixture for ${request.kind} request ${request.rpcIds?.join(',') || ''} (key ${key}) in ${this.fixturesDir}`
+    );
+  }
+
+  /**
+   * Compute the fixture key for a request
+   */
+  keyFor(request: TransportRequest): string {
+    if (this.keyFn) {
+      return this.keyFn(request);
+    }
+
+    const url = new URL(request.url);
+    const form = new URLSearchParams(request.body || '');
+
+    return createHash('sha256')
+      .update(JSON.stringify([
+        request.kind,
+        request.rpcIds || [],
+        form.get('f.req'),
+        url.searchParams.get('source-path'),
+      ]))
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  /**
+   * Forget replay positions (next replay starts from the first recorded response again)
+   */
+  rewind(): void {
+    this.replayCursor.clear();
+  }
+
+  private async record(key: string, request: TransportRequest): Promise<Response> {
+    const response = await this.upstream.send(request);
+
+    const chunks: string[] = [];
+    if (response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          const rest = decoder.decode();
+          if (rest) chunks.push(rest);
+          break;
+        }
+        if (value && value.length > 0) {
+          chunks.push(decoder.decode(value, { stream: true }));
+        }
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (name.toLowerCase() !== 'set-cookie') {
+        headers[name] = value;
+      }
+    });
+
+    const recorded: RecordedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      // The app page is full of account data - keep only the frontend parameters, without the token
+      chunks: request.kind === 'page'
+        ? [renderBootstrapPage({ ...parseBootstrapPage(chunks.join('')), authToken: undefined })]
+        : chunks,
+    };
+
+    // First recording of a key in this session replaces any stale fixture on disk
+    let fixture = this.fixtures.get(key);
+    if (!fixture) {
+      fixture = {
+        key,
+        kind: request.kind,
+        rpcIds: request.rpcIds,
+        request: this.redactRequest(request),
+        responses: [],
+      };
+      this.fixtures.set(key, fixture);
+    }
+    fixture.responses.push(recorded);
+
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(this.fixturePath(key, request), JSON.stringify(fixture, null, 2), 'utf-8');
+
+    return this.toResponse(recorded);
+  }
+
+  private replay(fixture: TransportFixture): Response {
+    const position = this.replayCursor.get(fixture.key) ?? 0;
+    const index = Math.min(position, fixture.responses.length - 1);
+    this.replayCursor.set(fixture.key, position + 1);
+    return this.toResponse(fixture.responses[index]);
+  }
+
+  private async loadFixture(key: string, request: TransportRequest): Promise<TransportFixture | null> {
+    const cached = this.fixtures.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const content = await fs.readFile(this.fixturePath(key, request), 'utf-8');
+      const fixture = JSON.parse(content) as TransportFixture;
+      this.fixtures.set(key, fixture);
+      return fixture;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new NotebookLMError(`Failed to read fixture for key ${key}: ${error?.message || error}`);
+    }
+  }
+
+  private toResponse(recorded: RecordedResponse): Response {
+    const encoder = new TextEncoder();
+    const chunks = recorded.chunks;
+    const body = NULL_BODY_STATUSES.includes(recorded.status) ? null : new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        controller.close();
+      },
+    });
+
+    return new Response(body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+    });
+  }
+
+  private redactRequest(request: TransportRequest): TransportFixture['request'] {
+    const url = new URL(request.url);
+    url.searchParams.delete('_reqid');
+    const form = new URLSearchParams(request.body || '');
+
+    return {
+      url: url.toString(),
+      method: request.method,
+      freq: form.get('f.req') ?? undefined,
+    };
+  }
+
+  private fixturePath(key: string, request: TransportRequest): string {
+    const prefix = request.kind === 'batchexecute'
+      ? (request.rpcIds || []).join('_') || 'batchexecute'
+      : request.kind;
+    return path.join(this.fixturesDir, `${prefix}-${key}.json`);
+  }
+}